@@ -0,0 +1,20 @@
+/**
+ * BuildConfig
+ *
+ * Per-build settings. Build scripts may rewrite this file to produce several
+ * experiences from one codebase.
+ *
+ * gameModeOverride: id of a registered game mode that is always selected,
+ * regardless of its map / team predicates. Leave undefined to select
+ * automatically through Core_GameModeRegistry.
+ *
+ * recordEvents: log every engine event as a JSON line (see
+ * CoreRecorder_EventRecorder) so a session can be replayed headless.
+ */
+export const BuildConfig: {
+    gameModeOverride: string | undefined
+    recordEvents: boolean
+} = {
+    gameModeOverride: undefined,
+    recordEvents: false,
+}
@@ -1,6 +1,33 @@
+import { CoreAbility_AbilityManager } from './Ability/AbilityManager'
+import { CoreCapturePoint_ACapturePoint } from './CapturePoint/ACapturePoint'
+import { CoreCapturePoint_ACapturePointManager } from './CapturePoint/ACapturePointManager'
+import { CoreEconomy_PurchaseResult } from './Economy/BuyMenu'
+import { CoreEconomy_Economy } from './Economy/Economy'
+import { Core_ErrorBoundary } from './ErrorBoundary'
+import { Core_EventHandlers } from './EventHandlers'
+import { CoreHQ_AHQ } from './HQ/AHQ'
+import { CoreHQ_AHQManager } from './HQ/AHQManager'
 import { CorePlayer_IGameModeEvents } from './IGameModeEvents'
+import { CoreLoadout_LoadoutManager } from './Loadout/LoadoutManager'
+import { CorePhase_PhaseMachine } from './Phase/PhaseMachine'
+import { CorePhase_Ids } from './Phase/IPhase'
+import { CoreMCOM_AMCOM } from './MCOM/AMCOM'
+import { CoreMCOM_AMCOMManager } from './MCOM/AMCOMManager'
 import { CorePlayer_APlayer } from './Player/APlayer'
 import { CorePlayer_APlayerManager } from './Player/APlayerManager'
+import { CoreRecorder_EventRecorder } from './Recorder/EventRecorder'
+import { CoreRespawn_RespawnController } from './Respawn/RespawnController'
+import { CoreScheduler_Scheduler } from './Scheduler/Scheduler'
+import { CoreScoring_IDecision, CoreScoring_Scoring } from './Scoring/Scoring'
+import { CoreStats_StatsTracker } from './Stats/StatsTracker'
+import { CoreSector_ASector } from './Sector/ASector'
+import { CoreTask_TaskRunner } from './Task/TaskRunner'
+import { CoreSector_ASectorManager } from './Sector/ASectorManager'
+import { CoreTeam_ATeam } from './Team/ATeam'
+import { CoreTeam_ATeamManager } from './Team/ATeamManager'
+import { CoreTeam_TeamBalancer } from './Team/TeamBalancer'
+import { CoreVehicle_AVehicle } from './Vehicle/AVehicle'
+import { CoreVehicle_AVehicleManager } from './Vehicle/AVehicleManager'
 
 /**
  * Core_AGameMode
@@ -12,8 +39,59 @@ import { CorePlayer_APlayerManager } from './Player/APlayerManager'
  * - _internal:
  *     - Converts mod.Player to CorePlayer_APlayer via PlayerManager.
  *     - Ensures PlayerManager is created on first join.
+ *     - Resolves teams, capture points, vehicles, MCOMs, sectors and HQs
+ *       into their logical wrappers when the mode provides the matching
+ *       manager.
+ *     - Broadcasts the event to gameMode listeners (addListener), see
+ *       CorePlayer_IGameModeEvents.
  *     - Calls protected hook methods (OnX) for game logic.
  *
+ * Object managers are optional. Override createTeamManager(),
+ * createCapturePointManager(), etc to opt in; they are created on the first
+ * routed object event.
+ *
+ * Timers: use this.scheduler (setTimeout / setInterval, in seconds) instead
+ * of throttling OngoingGlobal by hand. It is ticked before any listener.
+ * Sequences that wait on game state belong in this.tasks.run(async (task) =>
+ * ...), which supports waitUntil with timeout and cancellation.
+ *
+ * Phases: define warmup / pre-round / live / etc on this.phases. The active
+ * phase can block events; blocked events skip the bus, the hooks and APlayer
+ * listeners. Phase changes arrive as OnPhaseChanged everywhere.
+ *
+ * Errors: every route, hook and listener call runs inside this.errors, so
+ * one failing listener is logged and skipped instead of aborting the event.
+ *
+ * Recording: set this.recorder.enabled to log every engine event as a JSON
+ * line, for replay in the headless test environment.
+ *
+ * Stats: kills, deaths, assists, revives, damage dealt and taken, streaks
+ * and lives are counted before any listener runs; read lp.stats per player
+ * and this.stats.team(team) per team. Kills, assists and deaths are not
+ * counted while the phase blocks OnPlayerEarnedKill.
+ *
+ * Scoring: declare win conditions with this.scoring.configure(...) and
+ * change scores through this.scoring. Conditions are evaluated after the
+ * OnPlayerDied / OnPlayerLeaveGame / OnTimeLimitReached hooks, and the
+ * first decision arrives once as OnMatchDecided.
+ *
+ * Loadouts: register per team / class / player on this.loadouts; they are
+ * equipped in the OnPlayerDeployed route before any deploy listener runs.
+ *
+ * Economy: configure earning rules on this.economy; kills and assists are
+ * paid from the routes unless the phase blocks OnPlayerEarnedKill, balances
+ * live on lp.wallet.
+ *
+ * Abilities: define abilities and perks on this.abilities and grant them
+ * per player; their effects are removed on death, undeploy and leave.
+ *
+ * Respawn: configure respawn delays, waves and lives on this.respawn, per
+ * phase if needed; deaths use up lives before any listener runs.
+ *
+ * Teams: configure this.balancer to keep teams even on join, leave and
+ * between rounds. Move players with moveToTeam() so that
+ * OnPlayerSwitchTeam fires exactly once per move.
+ *
  * Always use "override" when implementing hooks, for example:
  *
  *     protected override OnGameModeStarted(): void {
@@ -24,10 +102,114 @@ import { CorePlayer_APlayerManager } from './Player/APlayerManager'
 export abstract class Core_AGameMode {
     protected playerManager!: CorePlayer_APlayerManager
 
-    constructor() {}
+    protected teamManager?: CoreTeam_ATeamManager
+    protected capturePointManager?: CoreCapturePoint_ACapturePointManager
+    protected vehicleManager?: CoreVehicle_AVehicleManager
+    protected mcomManager?: CoreMCOM_AMCOMManager
+    protected sectorManager?: CoreSector_ASectorManager
+    protected hqManager?: CoreHQ_AHQManager
+
+    /** Catches and logs failures in routes, hooks and listeners. */
+    readonly errors = new Core_ErrorBoundary()
+
+    /** Opt-in JSON log of every routed engine event. */
+    readonly recorder = new CoreRecorder_EventRecorder()
+
+    /** Kill / death / assist statistics; per player on lp.stats. */
+    readonly stats = new CoreStats_StatsTracker()
+
+    /** Tick-based timers driven by OngoingGlobal. */
+    readonly scheduler = new CoreScheduler_Scheduler()
+
+    /** Cancellable coroutines (wait, waitUntil) scoped to a player or round. */
+    readonly tasks = new CoreTask_TaskRunner()
+
+    /** Match phase state machine (warmup, pre-round, live, ...). */
+    readonly phases = new CorePhase_PhaseMachine((phase, previous) =>
+        this.onPhaseChanged(phase, previous)
+    )
+
+    /** Scores, target score, time limit and declared win conditions. */
+    readonly scoring = new CoreScoring_Scoring({
+        players: () => this.allPlayers(),
+        isLive: () => this.isLive(),
+        isStanding: (lp) => this.respawn.isStanding(lp),
+        decided: (decision) => this.dispatch('OnMatchDecided', decision),
+        overtime: (suddenDeath) => this.dispatch('OnOvertime', suddenDeath),
+        scoreChanged: (team, score, previousScore) =>
+            this.teamManager?.OnTeamScoreChanged(team, score, previousScore),
+    })
+
+    /** Declarative loadouts equipped on deploy. */
+    readonly loadouts = new CoreLoadout_LoadoutManager()
+
+    /** In-match money: earning rules, spending and refunds. */
+    readonly economy = new CoreEconomy_Economy(this)
+
+    /** Active abilities and passive perks with cooldowns and charges. */
+    readonly abilities = new CoreAbility_AbilityManager(this)
+
+    /** Respawn delays, waves and lives. */
+    readonly respawn = new CoreRespawn_RespawnController(this)
+
+    /** Automatic team balancing. */
+    readonly balancer = new CoreTeam_TeamBalancer(this)
+
+    private objectManagersCreated = false
+
+    constructor() {
+        this.scheduler.onError = (error) =>
+            this.errors.report('Scheduler', undefined, error)
+        this.tasks.onError = (task, error) =>
+            this.errors.report(`Task "${task.name}"`, task.owner?.player, error)
+
+        // Outermost, so events are logged even when their route fails
+        this._internal = this.recorder.wrap(this._internal)
+    }
 
     protected abstract createPlayerManager(): CorePlayer_APlayerManager
 
+    /* ------------------------------------------------------------
+     * Optional object managers (override to opt in)
+     * ------------------------------------------------------------ */
+
+    protected createTeamManager(): CoreTeam_ATeamManager | undefined {
+        return undefined
+    }
+
+    protected createCapturePointManager():
+        CoreCapturePoint_ACapturePointManager | undefined {
+        return undefined
+    }
+
+    protected createVehicleManager(): CoreVehicle_AVehicleManager | undefined {
+        return undefined
+    }
+
+    protected createMCOMManager(): CoreMCOM_AMCOMManager | undefined {
+        return undefined
+    }
+
+    protected createSectorManager(): CoreSector_ASectorManager | undefined {
+        return undefined
+    }
+
+    protected createHQManager(): CoreHQ_AHQManager | undefined {
+        return undefined
+    }
+
+    private ensureObjectManagers(): void {
+        if (this.objectManagersCreated) return
+        this.objectManagersCreated = true
+
+        this.teamManager = this.createTeamManager()
+        this.capturePointManager = this.createCapturePointManager()
+        this.vehicleManager = this.createVehicleManager()
+        this.mcomManager = this.createMCOMManager()
+        this.sectorManager = this.createSectorManager()
+        this.hqManager = this.createHQManager()
+    }
+
     /** Helper: map engine player to logical player, or undefined if invalid. */
     protected lp(eventPlayer: mod.Player): CorePlayer_APlayer | undefined {
         return this.playerManager.get(eventPlayer)
@@ -37,6 +219,66 @@ export abstract class Core_AGameMode {
         return this.playerManager.getById(eventNumber)
     }
 
+    /**
+     * True while the match is in play: in the Live or Overtime phase, or
+     * always when the mode defines no phases.
+     */
+    isLive(): boolean {
+        const phase = this.phases.current
+        return (
+            phase === undefined ||
+            phase === CorePhase_Ids.Live ||
+            phase === CorePhase_Ids.Overtime
+        )
+    }
+
+    /**
+     * Moves lp with mod.SetTeam and routes OnPlayerSwitchTeam right away;
+     * the engine's own report of the same switch is then ignored.
+     */
+    moveToTeam(lp: CorePlayer_APlayer, team: mod.Team): void {
+        mod.SetTeam(lp.player, team)
+        this.switchedTeam(lp, team)
+    }
+
+    /** Every logical player in the match; empty before the first join. */
+    allPlayers(): CorePlayer_APlayer[] {
+        return this.playerManager?.allPlayers() ?? []
+    }
+
+    /** Helpers: map engine objects to logical objects, undefined if unmanaged. */
+    protected lt(eventTeam: mod.Team): CoreTeam_ATeam | undefined {
+        this.ensureObjectManagers()
+        return this.teamManager?.get(eventTeam)
+    }
+
+    protected lcp(
+        eventCapturePoint: mod.CapturePoint
+    ): CoreCapturePoint_ACapturePoint | undefined {
+        this.ensureObjectManagers()
+        return this.capturePointManager?.get(eventCapturePoint)
+    }
+
+    protected lv(eventVehicle: mod.Vehicle): CoreVehicle_AVehicle | undefined {
+        this.ensureObjectManagers()
+        return this.vehicleManager?.get(eventVehicle)
+    }
+
+    protected lmcom(eventMCOM: mod.MCOM): CoreMCOM_AMCOM | undefined {
+        this.ensureObjectManagers()
+        return this.mcomManager?.get(eventMCOM)
+    }
+
+    protected lsector(eventSector: mod.Sector): CoreSector_ASector | undefined {
+        this.ensureObjectManagers()
+        return this.sectorManager?.get(eventSector)
+    }
+
+    protected lhq(eventHQ: mod.HQ): CoreHQ_AHQ | undefined {
+        this.ensureObjectManagers()
+        return this.hqManager?.get(eventHQ)
+    }
+
     /* ------------------------------------------------------------
      * Protected hooks (to be overridden in game modes)
      * ------------------------------------------------------------ */
@@ -91,6 +333,39 @@ export abstract class Core_AGameMode {
     // Game mode lifecycle
     protected OnGameModeEnding(): void {}
     protected OnGameModeStarted(): void {}
+    protected OnPhaseChanged(
+        phase: string,
+        previousPhase: string | undefined
+    ): void {}
+
+    // Match result (this.scoring)
+    protected OnMatchDecided(decision: CoreScoring_IDecision): void {}
+    protected OnOvertime(suddenDeath: boolean): void {}
+
+    // Abilities (this.abilities)
+    protected OnAbilityActivated(
+        lp: CorePlayer_APlayer,
+        abilityId: string
+    ): void {}
+    protected OnAbilityEnded(lp: CorePlayer_APlayer, abilityId: string): void {}
+    protected OnAbilityReady(lp: CorePlayer_APlayer, abilityId: string): void {}
+
+    // Economy (this.economy, CoreEconomy_BuyMenu)
+    protected OnMoneyChanged(
+        lp: CorePlayer_APlayer,
+        balance: number,
+        delta: number,
+        reason: string
+    ): void {}
+    protected OnPurchase(
+        lp: CorePlayer_APlayer,
+        itemId: string,
+        result: CoreEconomy_PurchaseResult
+    ): void {}
+
+    // Respawn (this.respawn)
+    protected OnRespawnReady(lp: CorePlayer_APlayer): void {}
+    protected OnOutOfLives(lp: CorePlayer_APlayer): void {}
 
     // Player state events (undefined-only for "other" player)
     protected OnMandown(
@@ -228,43 +503,61 @@ export abstract class Core_AGameMode {
 
     /* ------------------------------------------------------------
      * Internal router: main.ts -> _internal -> PlayerManager + hooks
+     *
+     * Typed as Core_EventHandlers: a missing or mismatched engine event
+     * is a compile error here. Each route runs inside this.errors and is
+     * logged by this.recorder when enabled.
      * ------------------------------------------------------------ */
 
-    public readonly _internal = {
+    public readonly _internal: Core_EventHandlers = this.errors.guardRouter({
         // Ongoing
         OngoingGlobal: (): void => {
-            this.emit('OngoingGlobal')
-            this.OngoingGlobal()
+            this.scheduler.tick()
+            this.tasks.tick()
+            this.phases.tick()
+            this.dispatch('OngoingGlobal')
         },
 
         OngoingAreaTrigger: (eventAreaTrigger: mod.AreaTrigger): void => {
-            this.OngoingAreaTrigger(eventAreaTrigger)
+            this.dispatch('OngoingAreaTrigger', eventAreaTrigger)
         },
 
         OngoingCapturePoint: (eventCapturePoint: mod.CapturePoint): void => {
-            this.OngoingCapturePoint(eventCapturePoint)
+            const lcp = this.lcp(eventCapturePoint)
+            if (lcp) {
+                this.capturePointManager!.tick(lcp)
+            }
+            this.dispatch('OngoingCapturePoint', eventCapturePoint)
         },
 
         OngoingEmplacementSpawner: (
             eventEmplacementSpawner: mod.EmplacementSpawner
         ): void => {
-            this.OngoingEmplacementSpawner(eventEmplacementSpawner)
+            this.dispatch('OngoingEmplacementSpawner', eventEmplacementSpawner)
         },
 
         OngoingHQ: (eventHQ: mod.HQ): void => {
-            this.OngoingHQ(eventHQ)
+            const lhq = this.lhq(eventHQ)
+            if (lhq) {
+                this.hqManager!.tick(lhq)
+            }
+            this.dispatch('OngoingHQ', eventHQ)
         },
 
         OngoingInteractPoint: (eventInteractPoint: mod.InteractPoint): void => {
-            this.OngoingInteractPoint(eventInteractPoint)
+            this.dispatch('OngoingInteractPoint', eventInteractPoint)
         },
 
         OngoingLootSpawner: (eventLootSpawner: mod.LootSpawner): void => {
-            this.OngoingLootSpawner(eventLootSpawner)
+            this.dispatch('OngoingLootSpawner', eventLootSpawner)
         },
 
         OngoingMCOM: (eventMCOM: mod.MCOM): void => {
-            this.OngoingMCOM(eventMCOM)
+            const lmcom = this.lmcom(eventMCOM)
+            if (lmcom) {
+                this.mcomManager!.tick(lmcom)
+            }
+            this.dispatch('OngoingMCOM', eventMCOM)
         },
 
         OngoingPlayer: (eventPlayer: mod.Player): void => {
@@ -272,45 +565,61 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.tick(eventPlayer)
-            this.OngoingPlayer(lp)
+            // Input triggers are off while the phase blocks OngoingPlayer
+            if (this.phases.allows('OngoingPlayer')) {
+                this.abilities.OngoingPlayer(lp)
+            }
+            this.dispatch('OngoingPlayer', lp)
         },
 
         OngoingRingOfFire: (eventRingOfFire: mod.RingOfFire): void => {
-            this.OngoingRingOfFire(eventRingOfFire)
+            this.dispatch('OngoingRingOfFire', eventRingOfFire)
         },
 
         OngoingSector: (eventSector: mod.Sector): void => {
-            this.OngoingSector(eventSector)
+            const lsector = this.lsector(eventSector)
+            if (lsector) {
+                this.sectorManager!.tick(lsector)
+            }
+            this.dispatch('OngoingSector', eventSector)
         },
 
         OngoingSpawner: (eventSpawner: mod.Spawner): void => {
-            this.OngoingSpawner(eventSpawner)
+            this.dispatch('OngoingSpawner', eventSpawner)
         },
 
         OngoingSpawnPoint: (eventSpawnPoint: mod.SpawnPoint): void => {
-            this.OngoingSpawnPoint(eventSpawnPoint)
+            this.dispatch('OngoingSpawnPoint', eventSpawnPoint)
         },
 
         OngoingTeam: (eventTeam: mod.Team): void => {
-            this.OngoingTeam(eventTeam)
+            const lt = this.lt(eventTeam)
+            if (lt) {
+                this.teamManager!.tick(lt)
+            }
+            this.dispatch('OngoingTeam', eventTeam)
         },
 
         OngoingVehicle: (eventVehicle: mod.Vehicle): void => {
-            this.OngoingVehicle(eventVehicle)
+            const lv = this.lv(eventVehicle)
+            if (lv) {
+                this.vehicleManager!.tick(lv)
+            }
+            this.dispatch('OngoingVehicle', eventVehicle)
         },
 
         OngoingVehicleSpawner: (
             eventVehicleSpawner: mod.VehicleSpawner
         ): void => {
-            this.OngoingVehicleSpawner(eventVehicleSpawner)
+            this.dispatch('OngoingVehicleSpawner', eventVehicleSpawner)
         },
 
         OngoingWaypointPath: (eventWaypointPath: mod.WaypointPath): void => {
-            this.OngoingWaypointPath(eventWaypointPath)
+            this.dispatch('OngoingWaypointPath', eventWaypointPath)
         },
 
         OngoingWorldIcon: (eventWorldIcon: mod.WorldIcon): void => {
-            this.OngoingWorldIcon(eventWorldIcon)
+            this.dispatch('OngoingWorldIcon', eventWorldIcon)
         },
 
         // AI movement and waypoint events
@@ -318,80 +627,94 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnAIMoveToFailed(lp)
-            this.OnAIMoveToFailed(lp)
+            this.dispatch('OnAIMoveToFailed', lp)
         },
 
         OnAIMoveToRunning: (eventPlayer: mod.Player): void => {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnAIMoveToRunning(lp)
-            this.OnAIMoveToRunning(lp)
+            this.dispatch('OnAIMoveToRunning', lp)
         },
 
         OnAIMoveToSucceeded: (eventPlayer: mod.Player): void => {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnAIMoveToSucceeded(lp)
-            this.OnAIMoveToSucceeded(lp)
+            this.dispatch('OnAIMoveToSucceeded', lp)
         },
 
         OnAIParachuteRunning: (eventPlayer: mod.Player): void => {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnAIParachuteRunning(lp)
-            this.OnAIParachuteRunning(lp)
+            this.dispatch('OnAIParachuteRunning', lp)
         },
 
         OnAIParachuteSucceeded: (eventPlayer: mod.Player): void => {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnAIParachuteSucceeded(lp)
-            this.OnAIParachuteSucceeded(lp)
+            this.dispatch('OnAIParachuteSucceeded', lp)
         },
 
         OnAIWaypointIdleFailed: (eventPlayer: mod.Player): void => {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnAIWaypointIdleFailed(lp)
-            this.OnAIWaypointIdleFailed(lp)
+            this.dispatch('OnAIWaypointIdleFailed', lp)
         },
 
         OnAIWaypointIdleRunning: (eventPlayer: mod.Player): void => {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnAIWaypointIdleRunning(lp)
-            this.OnAIWaypointIdleRunning(lp)
+            this.dispatch('OnAIWaypointIdleRunning', lp)
         },
 
         OnAIWaypointIdleSucceeded: (eventPlayer: mod.Player): void => {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnAIWaypointIdleSucceeded(lp)
-            this.OnAIWaypointIdleSucceeded(lp)
+            this.dispatch('OnAIWaypointIdleSucceeded', lp)
         },
 
         // CapturePoint events
         OnCapturePointCaptured: (eventCapturePoint: mod.CapturePoint): void => {
-            this.OnCapturePointCaptured(eventCapturePoint)
+            const lcp = this.lcp(eventCapturePoint)
+            if (lcp) {
+                this.capturePointManager!.OnCapturePointCaptured(lcp)
+            }
+            this.dispatch('OnCapturePointCaptured', eventCapturePoint)
         },
 
         OnCapturePointCapturing: (
             eventCapturePoint: mod.CapturePoint
         ): void => {
-            this.OnCapturePointCapturing(eventCapturePoint)
+            const lcp = this.lcp(eventCapturePoint)
+            if (lcp) {
+                this.capturePointManager!.OnCapturePointCapturing(lcp)
+            }
+            this.dispatch('OnCapturePointCapturing', eventCapturePoint)
         },
 
         OnCapturePointLost: (eventCapturePoint: mod.CapturePoint): void => {
-            this.OnCapturePointLost(eventCapturePoint)
+            const lcp = this.lcp(eventCapturePoint)
+            if (lcp) {
+                this.capturePointManager!.OnCapturePointLost(lcp)
+            }
+            this.dispatch('OnCapturePointLost', eventCapturePoint)
         },
 
         // Game mode lifecycle
         OnGameModeEnding: (): void => {
-            this.OnGameModeEnding()
+            this.dispatch('OnGameModeEnding')
         },
 
         OnGameModeStarted: (): void => {
-            this.OnGameModeStarted()
+            this.dispatch('OnGameModeStarted')
+            // Loadouts are registered in the hook above
+            this.loadouts.OnGameModeStarted()
         },
 
         // Player state events
@@ -403,7 +726,8 @@ export abstract class Core_AGameMode {
             if (!lp) return
             const other = this.lp(eventOtherPlayer)
             this.playerManager.OnMandown(lp, other)
-            this.OnMandown(lp, other)
+            this.teamManager?.OnMandown(lp)
+            this.dispatch('OnMandown', lp, other)
         },
 
         OnPlayerDamaged: (
@@ -415,20 +739,38 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             const other = this.lp(eventOtherPlayer)
+            const hit = this.playerManager.damageLedger.record(
+                lp,
+                other,
+                eventDamageType,
+                eventWeaponUnlock
+            )
+            this.stats.OnPlayerDamaged(lp, other, hit.damage)
             this.playerManager.OnPlayerDamaged(
                 lp,
                 other,
                 eventDamageType,
                 eventWeaponUnlock
             )
-            this.OnPlayerDamaged(lp, other, eventDamageType, eventWeaponUnlock)
+            this.dispatch(
+                'OnPlayerDamaged',
+                lp,
+                other,
+                eventDamageType,
+                eventWeaponUnlock
+            )
         },
 
         OnPlayerDeployed: (eventPlayer: mod.Player): void => {
             const lp = this.lp(eventPlayer)
             if (!lp) return
+            this.stats.OnPlayerDeployed(lp)
+            this.loadouts.OnPlayerDeployed(lp)
+            this.abilities.OnPlayerDeployed(lp)
+            this.respawn.OnPlayerDeployed(lp)
             this.playerManager.OnPlayerDeployed(lp)
-            this.OnPlayerDeployed(lp)
+            this.teamManager?.OnPlayerDeployed(lp)
+            this.dispatch('OnPlayerDeployed', lp)
         },
 
         OnPlayerDied: (
@@ -440,13 +782,35 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             const other = this.lp(eventOtherPlayer)
+            // Deaths count where kills do, so that K/D stays even; in other
+            // phases only the life ends
+            if (this.phases.allows('OnPlayerEarnedKill')) {
+                this.stats.OnPlayerDied(lp, eventDeathType, eventWeaponUnlock)
+            } else {
+                this.stats.OnPlayerUndeploy(lp)
+            }
+            this.abilities.OnPlayerDied(lp)
+            this.respawn.OnPlayerDied(lp)
             this.playerManager.OnPlayerDied(
                 lp,
                 other,
                 eventDeathType,
                 eventWeaponUnlock
             )
-            this.OnPlayerDied(lp, other, eventDeathType, eventWeaponUnlock)
+            this.teamManager?.OnPlayerDied(
+                lp,
+                other,
+                eventDeathType,
+                eventWeaponUnlock
+            )
+            this.dispatch(
+                'OnPlayerDied',
+                lp,
+                other,
+                eventDeathType,
+                eventWeaponUnlock
+            )
+            this.scoring.OnPlayerDied()
         },
 
         OnPlayerEarnedKill: (
@@ -458,13 +822,29 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             const other = this.lp(eventOtherPlayer)
+            // Kills in a phase that blocks them, e.g. warmup, do not count
+            if (this.phases.allows('OnPlayerEarnedKill')) {
+                this.stats.OnPlayerEarnedKill(
+                    lp,
+                    other,
+                    eventDeathType,
+                    eventWeaponUnlock
+                )
+                this.economy.OnPlayerEarnedKill(
+                    lp,
+                    other,
+                    eventDeathType,
+                    eventWeaponUnlock
+                )
+            }
             this.playerManager.OnPlayerEarnedKill(
                 lp,
                 other,
                 eventDeathType,
                 eventWeaponUnlock
             )
-            this.OnPlayerEarnedKill(
+            this.dispatch(
+                'OnPlayerEarnedKill',
                 lp,
                 other,
                 eventDeathType,
@@ -479,8 +859,12 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             const other = this.lp(eventOtherPlayer)
+            if (this.phases.allows('OnPlayerEarnedKill')) {
+                this.stats.OnPlayerEarnedKillAssist(lp)
+                this.economy.OnPlayerEarnedKillAssist(lp)
+            }
             this.playerManager.OnPlayerEarnedKillAssist(lp, other)
-            this.OnPlayerEarnedKillAssist(lp, other)
+            this.dispatch('OnPlayerEarnedKillAssist', lp, other)
         },
 
         OnRevived: (
@@ -490,21 +874,35 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             const other = this.lp(eventOtherPlayer)
+            this.stats.OnRevived(lp, other)
             this.playerManager.OnRevived(lp, other)
-            this.OnRevived(lp, other)
+            this.teamManager?.OnRevived(lp)
+            this.dispatch('OnRevived', lp, other)
         },
 
         // MCOM events
         OnMCOMArmed: (eventMCOM: mod.MCOM): void => {
-            this.OnMCOMArmed(eventMCOM)
+            const lmcom = this.lmcom(eventMCOM)
+            if (lmcom) {
+                this.mcomManager!.OnMCOMArmed(lmcom)
+            }
+            this.dispatch('OnMCOMArmed', eventMCOM)
         },
 
         OnMCOMDefused: (eventMCOM: mod.MCOM): void => {
-            this.OnMCOMDefused(eventMCOM)
+            const lmcom = this.lmcom(eventMCOM)
+            if (lmcom) {
+                this.mcomManager!.OnMCOMDefused(lmcom)
+            }
+            this.dispatch('OnMCOMDefused', eventMCOM)
         },
 
         OnMCOMDestroyed: (eventMCOM: mod.MCOM): void => {
-            this.OnMCOMDestroyed(eventMCOM)
+            const lmcom = this.lmcom(eventMCOM)
+            if (lmcom) {
+                this.mcomManager!.OnMCOMDestroyed(lmcom)
+            }
+            this.dispatch('OnMCOMDestroyed', eventMCOM)
         },
 
         // Interaction and triggers
@@ -515,7 +913,7 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnPlayerInteract(lp, eventInteractPoint)
-            this.OnPlayerInteract(lp, eventInteractPoint)
+            this.dispatch('OnPlayerInteract', lp, eventInteractPoint)
         },
 
         OnPlayerEnterAreaTrigger: (
@@ -525,7 +923,7 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnPlayerEnterAreaTrigger(lp, eventAreaTrigger)
-            this.OnPlayerEnterAreaTrigger(lp, eventAreaTrigger)
+            this.dispatch('OnPlayerEnterAreaTrigger', lp, eventAreaTrigger)
         },
 
         OnPlayerExitAreaTrigger: (
@@ -535,7 +933,7 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnPlayerExitAreaTrigger(lp, eventAreaTrigger)
-            this.OnPlayerExitAreaTrigger(lp, eventAreaTrigger)
+            this.dispatch('OnPlayerExitAreaTrigger', lp, eventAreaTrigger)
         },
 
         OnPlayerEnterCapturePoint: (
@@ -545,7 +943,11 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnPlayerEnterCapturePoint(lp, eventCapturePoint)
-            this.OnPlayerEnterCapturePoint(lp, eventCapturePoint)
+            const lcp = this.lcp(eventCapturePoint)
+            if (lcp) {
+                this.capturePointManager!.OnPlayerEnterCapturePoint(lcp, lp)
+            }
+            this.dispatch('OnPlayerEnterCapturePoint', lp, eventCapturePoint)
         },
 
         OnPlayerExitCapturePoint: (
@@ -555,7 +957,11 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnPlayerExitCapturePoint(lp, eventCapturePoint)
-            this.OnPlayerExitCapturePoint(lp, eventCapturePoint)
+            const lcp = this.lcp(eventCapturePoint)
+            if (lcp) {
+                this.capturePointManager!.OnPlayerExitCapturePoint(lcp, lp)
+            }
+            this.dispatch('OnPlayerExitCapturePoint', lp, eventCapturePoint)
         },
 
         // Vehicle events
@@ -566,7 +972,11 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnPlayerEnterVehicle(lp, eventVehicle)
-            this.OnPlayerEnterVehicle(lp, eventVehicle)
+            const lv = this.lv(eventVehicle)
+            if (lv) {
+                this.vehicleManager!.OnPlayerEnterVehicle(lv, lp)
+            }
+            this.dispatch('OnPlayerEnterVehicle', lp, eventVehicle)
         },
 
         OnPlayerExitVehicle: (
@@ -576,7 +986,11 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnPlayerExitVehicle(lp, eventVehicle)
-            this.OnPlayerExitVehicle(lp, eventVehicle)
+            const lv = this.lv(eventVehicle)
+            if (lv) {
+                this.vehicleManager!.OnPlayerExitVehicle(lv, lp)
+            }
+            this.dispatch('OnPlayerExitVehicle', lp, eventVehicle)
         },
 
         OnPlayerEnterVehicleSeat: (
@@ -591,7 +1005,16 @@ export abstract class Core_AGameMode {
                 eventVehicle,
                 eventSeat
             )
-            this.OnPlayerEnterVehicleSeat(lp, eventVehicle, eventSeat)
+            const lv = this.lv(eventVehicle)
+            if (lv) {
+                this.vehicleManager!.OnPlayerEnterVehicleSeat(lv, lp, eventSeat)
+            }
+            this.dispatch(
+                'OnPlayerEnterVehicleSeat',
+                lp,
+                eventVehicle,
+                eventSeat
+            )
         },
 
         OnPlayerExitVehicleSeat: (
@@ -606,7 +1029,16 @@ export abstract class Core_AGameMode {
                 eventVehicle,
                 eventSeat
             )
-            this.OnPlayerExitVehicleSeat(lp, eventVehicle, eventSeat)
+            const lv = this.lv(eventVehicle)
+            if (lv) {
+                this.vehicleManager!.OnPlayerExitVehicleSeat(lv, lp, eventSeat)
+            }
+            this.dispatch(
+                'OnPlayerExitVehicleSeat',
+                lp,
+                eventVehicle,
+                eventSeat
+            )
         },
 
         // Player join/leave
@@ -614,16 +1046,32 @@ export abstract class Core_AGameMode {
             if (!this.playerManager) {
                 this.playerManager = this.createPlayerManager()
             }
+            this.ensureObjectManagers()
             const lp = this.playerManager.addPlayer(eventPlayer)
-            this.OnPlayerJoinGame(lp)
+            this.teamManager?.OnPlayerJoinGame(lp)
+            this.economy.OnPlayerJoinGame(lp)
+            this.abilities.OnPlayerJoinGame(lp)
+            this.respawn.OnPlayerJoinGame(lp)
+            this.balancer.OnPlayerJoinGame(lp)
+            this.dispatch('OnPlayerJoinGame', lp)
         },
 
         OnPlayerLeaveGame: (eventNumber: number): void => {
+            if (!this.playerManager) return
             const lp = this.lpId(eventNumber)
             if (lp) {
-                this.OnPlayerLeaveGame(lp)
+                this.playerManager.OnPlayerLeaveGame(lp)
+                this.teamManager?.OnPlayerLeaveGame(eventNumber)
+                this.loadouts.OnPlayerLeaveGame(lp)
+                this.economy.OnPlayerLeaveGame(lp)
+                this.abilities.OnPlayerLeaveGame(lp)
+                this.respawn.OnPlayerLeaveGame(lp)
+                this.dispatch('OnPlayerLeaveGame', lp)
             }
+            // Managed resources are torn down once everyone has been notified
             this.playerManager.removePlayer(eventNumber)
+            this.scoring.OnPlayerLeaveGame()
+            if (lp) this.balancer.OnPlayerLeaveGame(lp)
         },
 
         // Team / UI
@@ -633,8 +1081,11 @@ export abstract class Core_AGameMode {
         ): void => {
             const lp = this.lp(eventPlayer)
             if (!lp) return
-            this.playerManager.OnPlayerSwitchTeam(lp, eventTeam)
-            this.OnPlayerSwitchTeam(lp, eventTeam)
+            // Already routed by moveToTeam / syncTeams
+            if (lp.team && mod.GetObjId(lp.team) === mod.GetObjId(eventTeam)) {
+                return
+            }
+            this.switchedTeam(lp, eventTeam)
         },
 
         OnPlayerUIButtonEvent: (
@@ -649,15 +1100,24 @@ export abstract class Core_AGameMode {
                 eventUIWidget,
                 eventUIButtonEvent
             )
-            this.OnPlayerUIButtonEvent(lp, eventUIWidget, eventUIButtonEvent)
+            this.dispatch(
+                'OnPlayerUIButtonEvent',
+                lp,
+                eventUIWidget,
+                eventUIButtonEvent
+            )
         },
 
         // Undeploy
         OnPlayerUndeploy: (eventPlayer: mod.Player): void => {
             const lp = this.lp(eventPlayer)
             if (!lp) return
+            this.stats.OnPlayerUndeploy(lp)
+            this.abilities.OnPlayerUndeploy(lp)
+            this.respawn.OnPlayerUndeploy(lp)
             this.playerManager.OnPlayerUndeploy(lp)
-            this.OnPlayerUndeploy(lp)
+            this.teamManager?.OnPlayerUndeploy(lp)
+            this.dispatch('OnPlayerUndeploy', lp)
         },
 
         // Raycast
@@ -669,14 +1129,14 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnRayCastHit(lp, eventPoint, eventNormal)
-            this.OnRayCastHit(lp, eventPoint, eventNormal)
+            this.dispatch('OnRayCastHit', lp, eventPoint, eventNormal)
         },
 
         OnRayCastMissed: (eventPlayer: mod.Player): void => {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnRayCastMissed(lp)
-            this.OnRayCastMissed(lp)
+            this.dispatch('OnRayCastMissed', lp)
         },
 
         // Spawner
@@ -687,7 +1147,7 @@ export abstract class Core_AGameMode {
             const lp = this.lp(eventPlayer)
             if (!lp) return
             this.playerManager.OnSpawnerSpawned(lp, eventSpawner)
-            this.OnSpawnerSpawned(lp, eventSpawner)
+            this.dispatch('OnSpawnerSpawned', lp, eventSpawner)
         },
 
         // Ring of fire / time limit / vehicles
@@ -695,20 +1155,86 @@ export abstract class Core_AGameMode {
             eventRingOfFire: mod.RingOfFire,
             eventNumber: number
         ): void => {
-            this.OnRingOfFireZoneSizeChange(eventRingOfFire, eventNumber)
+            this.dispatch(
+                'OnRingOfFireZoneSizeChange',
+                eventRingOfFire,
+                eventNumber
+            )
         },
 
         OnTimeLimitReached: (): void => {
-            this.OnTimeLimitReached()
+            this.dispatch('OnTimeLimitReached')
+            this.scoring.OnTimeLimitReached()
         },
 
         OnVehicleDestroyed: (eventVehicle: mod.Vehicle): void => {
-            this.OnVehicleDestroyed(eventVehicle)
+            const lv = this.lv(eventVehicle)
+            if (lv) {
+                this.vehicleManager!.OnVehicleDestroyed(lv)
+            }
+            this.dispatch('OnVehicleDestroyed', eventVehicle)
         },
 
         OnVehicleSpawned: (eventVehicle: mod.Vehicle): void => {
-            this.OnVehicleSpawned(eventVehicle)
+            const lv = this.lv(eventVehicle)
+            if (lv) {
+                this.vehicleManager!.OnVehicleSpawned(lv)
+            }
+            this.dispatch('OnVehicleSpawned', eventVehicle)
         },
+    })
+
+    /* ------------------------------------------------------------
+     * Dispatch: phase filter -> bus -> protected hook
+     * ------------------------------------------------------------ */
+
+    /**
+     * Broadcasts the event and calls the protected hook of the same name,
+     * unless the active phase blocks it. Subsystems raising events of their
+     * own use this instead of emit() so phases can block them too.
+     */
+    dispatch<E extends keyof CorePlayer_IGameModeEvents>(
+        event: E,
+        ...args: Parameters<NonNullable<CorePlayer_IGameModeEvents[E]>>
+    ): void {
+        if (!this.phases.allows(event)) return
+        this.emit(event, ...args)
+
+        const hook = (this as unknown as Record<E, unknown>)[event]
+        if (typeof hook === 'function') {
+            this.errors.run(event, args[0], () => hook.apply(this, args))
+        }
+    }
+
+    private switchedTeam(lp: CorePlayer_APlayer, team: mod.Team): void {
+        this.playerManager.OnPlayerSwitchTeam(lp, team)
+        this.teamManager?.OnPlayerSwitchTeam(lp, team)
+        this.dispatch('OnPlayerSwitchTeam', lp, team)
+    }
+
+    /**
+     * Routes OnPlayerSwitchTeam for every player whose engine team no
+     * longer matches lp.team, e.g. after mod.SwitchTeams.
+     */
+    protected syncTeams(): void {
+        for (const lp of this.allPlayers()) {
+            if (!mod.IsPlayerValid(lp.player)) continue
+            const team = mod.GetTeam(lp.player)
+            if (lp.team && mod.GetObjId(lp.team) === mod.GetObjId(team)) {
+                continue
+            }
+            this.switchedTeam(lp, team)
+        }
+    }
+
+    private onPhaseChanged(
+        phase: string,
+        previousPhase: string | undefined
+    ): void {
+        this.playerManager?.OnPhaseChanged(phase, previousPhase)
+        this.respawn.OnPhaseChanged()
+        this.balancer.OnPhaseChanged()
+        this.dispatch('OnPhaseChanged', phase, previousPhase)
     }
 
     /* ------------------------------------------------------------
@@ -730,10 +1256,7 @@ export abstract class Core_AGameMode {
         ...args: Parameters<NonNullable<CorePlayer_IGameModeEvents[E]>>
     ): void {
         for (const listener of this.listeners) {
-            const fn = listener[event]
-            if (typeof fn === 'function') {
-                ;(fn as (...a: any[]) => void)(...args)
-            }
+            this.errors.callListener(listener, event, args[0], args)
         }
     }
 }
@@ -0,0 +1,192 @@
+import { Core_AGameMode } from './AGameMode'
+import { CorePhase_Ids } from './Phase/IPhase'
+
+/**
+ * Core_ARoundGameMode
+ *
+ * Best-of-N rounds inside one Portal session (Search & Destroy,
+ * elimination, etc), built on top of Core_AGameMode.
+ *
+ * - startMatch() begins round 1. Call it from OnGameModeStarted.
+ * - endRound(winner) records the round winner (undefined = draw) and pays
+ *   the economy's roundWin / roundLoss.
+ * - Between rounds everyone is undeployed, per-round state is reset through
+ *   CorePlayer_APlayer.resetRoundState / CoreTeam_ATeam.resetRoundState,
+ *   first blood and revenge are re-armed, money is reset if the economy
+ *   asks for it, respawn lives are refilled, sides are swapped at half
+ *   time, teams are balanced, and everyone is deployed again.
+ * - Round wins are the team scores, set through this.scoring. Once a team
+ *   reaches roundsToWin the match is decided for it with this.scoring, so
+ *   OnMatchDecided fires before EndGameMode.
+ *
+ * Round-scoped tasks (this.tasks.run(..., { scope: 'round' })) are cancelled
+ * at the end of every round. If the mode defines the PreRound / Live /
+ * PostRound phases they are entered automatically.
+ *
+ *     class SnD_GameMode extends Core_ARoundGameMode {
+ *         protected override roundsToWin = 4
+ *         protected override halfTimeAfterRound = 3
+ *
+ *         protected override OnGameModeStarted(): void {
+ *             this.startMatch()
+ *         }
+ *     }
+ */
+export abstract class Core_ARoundGameMode extends Core_AGameMode {
+    /** Round wins needed to take the match. */
+    protected roundsToWin = 2
+    /** Swap sides after this round. Undefined disables half time. */
+    protected halfTimeAfterRound: number | undefined = undefined
+    /** The two competing team ids. */
+    protected teamIds: [number, number] = [1, 2]
+    /** Seconds between the end of a round and the next deploy. */
+    protected intermissionSeconds = 5
+
+    roundNumber = 0
+    /** Winning team id per finished round, 0 for a draw. Index 0 = round 1. */
+    readonly roundWinners: number[] = []
+
+    private roundWins = new Map<number, number>()
+    private roundActive = false
+    private matchOver = false
+
+    /* ------------------------------------------------------------
+     * Round hooks (to be overridden in game modes)
+     * ------------------------------------------------------------ */
+
+    protected OnRoundStarted(round: number): void {}
+    protected OnRoundEnded(round: number, winner: mod.Team | undefined): void {}
+    protected OnHalfTime(): void {}
+
+    /* ------------------------------------------------------------
+     * Round control
+     * ------------------------------------------------------------ */
+
+    isRoundActive(): boolean {
+        return this.roundActive
+    }
+
+    /** Only while a round is being played. */
+    override isLive(): boolean {
+        return this.roundActive && super.isLive()
+    }
+
+    getRoundWins(team: mod.Team): number {
+        return this.roundWins.get(mod.GetObjId(team)) ?? 0
+    }
+
+    protected startMatch(): void {
+        this.roundNumber = 0
+        this.roundWinners.length = 0
+        this.roundWins.clear()
+        this.matchOver = false
+        this.beginRound()
+    }
+
+    /** Ends the current round. Pass undefined for a draw. */
+    protected endRound(winner: mod.Team | undefined): void {
+        if (!this.roundActive || this.matchOver) return
+        this.roundActive = false
+
+        const round = this.roundNumber
+        const winnerId = winner ? mod.GetObjId(winner) : 0
+        this.roundWinners.push(winnerId)
+
+        if (winner) {
+            const wins = this.getRoundWins(winner) + 1
+            this.roundWins.set(winnerId, wins)
+            this.scoring.setScore(winner, wins)
+        }
+
+        this.tasks.cancelScope('round')
+        this.enterPhase(CorePhase_Ids.PostRound)
+
+        this.economy.OnRoundEnded(winner)
+        this.dispatch('OnRoundEnded', round, winner)
+
+        if (winner && this.getRoundWins(winner) >= this.roundsToWin) {
+            this.matchOver = true
+            this.scoring.decide(winner, 'roundsWon')
+            return
+        }
+
+        this.scheduler.setTimeout(
+            () => this.nextRound(),
+            this.intermissionSeconds
+        )
+    }
+
+    private nextRound(): void {
+        if (this.matchOver) return
+
+        mod.UndeployAllPlayers()
+
+        if (this.roundNumber === this.halfTimeAfterRound) {
+            this.swapSides()
+        }
+        this.balancer.OnRoundIntermission()
+
+        this.beginRound()
+        mod.DeployAllPlayers()
+    }
+
+    private beginRound(): void {
+        this.roundNumber++
+        this.roundActive = true
+
+        for (const lp of this.playerManager?.allPlayers() ?? []) {
+            lp.resetRoundState(this.roundNumber)
+        }
+        for (const lt of this.teamManager?.all() ?? []) {
+            lt.resetRoundState(this.roundNumber)
+        }
+        this.playerManager?.combatEvents.reset()
+        this.economy.OnRoundStarted()
+        this.respawn.OnRoundStarted()
+        this.balancer.OnRoundStarted()
+
+        if (!this.enterPhase(CorePhase_Ids.PreRound)) {
+            this.enterPhase(CorePhase_Ids.Live)
+        }
+
+        this.dispatch('OnRoundStarted', this.roundNumber)
+    }
+
+    private swapSides(): void {
+        const [idA, idB] = this.teamIds
+        const teamA = mod.GetTeam(idA)
+        const teamB = mod.GetTeam(idB)
+        const sides = this.allPlayers()
+            .filter((lp) => lp.team && mod.IsPlayerValid(lp.player))
+            .map((lp) => ({ lp, side: mod.GetObjId(lp.team!) }))
+
+        mod.SwitchTeams(teamA, teamB)
+        this.syncTeams()
+
+        // SwitchTeams refuses teams with different human or bot counts;
+        // move whoever it left behind one by one
+        for (const { lp, side } of sides) {
+            const target =
+                side === idA ? teamB : side === idB ? teamA : undefined
+            if (!target || !lp.team) continue
+            if (mod.GetObjId(lp.team) !== mod.GetObjId(target)) {
+                this.moveToTeam(lp, target)
+            }
+        }
+
+        // Round wins follow the players, not the team slot
+        const winsA = this.roundWins.get(idA) ?? 0
+        const winsB = this.roundWins.get(idB) ?? 0
+        this.roundWins.set(idA, winsB)
+        this.roundWins.set(idB, winsA)
+        this.scoring.setScore(teamA, winsB)
+        this.scoring.setScore(teamB, winsA)
+
+        this.dispatch('OnHalfTime')
+    }
+
+    private enterPhase(id: string): boolean {
+        if (!this.phases.get(id)) return false
+        return this.phases.transition(id, true)
+    }
+}
@@ -0,0 +1,145 @@
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import { CoreAbility_IAbility, CoreAbility_IPerk } from './Ability'
+
+/**
+ * Ready-made abilities and perks. Each factory takes its tuning and returns
+ * a definition for gameMode.abilities.define / definePerk; ids default to
+ * the factory name.
+ */
+
+interface CoreAbility_IOptions {
+    id?: string
+    label?: string
+    cooldown?: number
+    charges?: number
+}
+
+/** Movement speed boost. */
+export function CoreAbility_dash(
+    options: CoreAbility_IOptions & { multiplier?: number; duration?: number }
+): CoreAbility_IAbility {
+    const id = options.id ?? 'dash'
+    return {
+        id,
+        label: options.label,
+        cooldown: options.cooldown ?? 12,
+        charges: options.charges,
+        duration: options.duration ?? 3,
+        start: (lp) =>
+            lp.gameMode.abilities.modify(
+                lp,
+                'speed',
+                id,
+                options.multiplier ?? 1.5
+            ),
+        end: (lp) => lp.gameMode.abilities.modify(lp, 'speed', id, undefined),
+    }
+}
+
+/** Instant heal. */
+export function CoreAbility_healBurst(
+    options: CoreAbility_IOptions & { amount?: number }
+): CoreAbility_IAbility {
+    return {
+        id: options.id ?? 'healBurst',
+        label: options.label,
+        cooldown: options.cooldown ?? 20,
+        charges: options.charges,
+        start: (lp) => mod.Heal(lp.player, options.amount ?? 50),
+    }
+}
+
+/** Temporary damage resistance; factor is the share of damage taken. */
+export function CoreAbility_damageResist(
+    options: CoreAbility_IOptions & { factor?: number; duration?: number }
+): CoreAbility_IAbility {
+    const id = options.id ?? 'damageResist'
+    return {
+        id,
+        label: options.label,
+        cooldown: options.cooldown ?? 25,
+        charges: options.charges,
+        duration: options.duration ?? 5,
+        start: (lp) =>
+            lp.gameMode.abilities.modify(
+                lp,
+                'damageTaken',
+                id,
+                options.factor ?? 0.5
+            ),
+        end: (lp) =>
+            lp.gameMode.abilities.modify(lp, 'damageTaken', id, undefined),
+    }
+}
+
+/**
+ * Spots living enemies within radius meters for spotSeconds. Refused (no
+ * charge used) when nobody is in range.
+ */
+export function CoreAbility_reveal(
+    options: CoreAbility_IOptions & { radius?: number; spotSeconds?: number }
+): CoreAbility_IAbility {
+    return {
+        id: options.id ?? 'reveal',
+        label: options.label,
+        cooldown: options.cooldown ?? 30,
+        charges: options.charges,
+        start: (lp) => {
+            const targets = CoreAbility_enemiesNear(lp, options.radius ?? 40)
+            for (const target of targets) {
+                mod.SpotTarget(
+                    target.player,
+                    lp.player,
+                    options.spotSeconds ?? 5,
+                    mod.SpotStatus.SpotInBoth
+                )
+            }
+            return targets.length > 0
+        },
+    }
+}
+
+/** Permanent movement speed factor while deployed. */
+export function CoreAbility_speedPerk(
+    id: string,
+    multiplier: number
+): CoreAbility_IPerk {
+    return {
+        id,
+        apply: (lp) =>
+            lp.gameMode.abilities.modify(lp, 'speed', id, multiplier),
+    }
+}
+
+/** Permanent damage taken factor while deployed. */
+export function CoreAbility_armorPerk(
+    id: string,
+    factor: number
+): CoreAbility_IPerk {
+    return {
+        id,
+        apply: (lp) =>
+            lp.gameMode.abilities.modify(lp, 'damageTaken', id, factor),
+    }
+}
+
+function CoreAbility_enemiesNear(
+    lp: CorePlayer_APlayer,
+    radius: number
+): CorePlayer_APlayer[] {
+    const position = CoreAbility_position(lp)
+    return lp.gameMode.allPlayers().filter((other) => {
+        if (other === lp || !other.isAlive()) return false
+        if (!other.team || !lp.team) return false
+        if (mod.GetObjId(other.team) === mod.GetObjId(lp.team)) return false
+        const distance = mod.DistanceBetween(
+            position,
+            CoreAbility_position(other)
+        )
+        return distance <= radius
+    })
+}
+
+function CoreAbility_position(lp: CorePlayer_APlayer): mod.Vector {
+    return mod.GetSoldierState(lp.player, mod.SoldierStateVector.GetPosition)
+}
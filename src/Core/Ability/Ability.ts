@@ -0,0 +1,100 @@
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import { CoreScheduler_Timer } from '../Scheduler/Timer'
+
+/**
+ * Active ability, defined once on gameMode.abilities and granted per
+ * player. Times are in match seconds.
+ */
+export interface CoreAbility_IAbility {
+    id: string
+    /** __STRINGS.json key for CoreAbility_AbilityBar, receives the charges. */
+    label?: string
+    /** Seconds for one used charge to come back. */
+    cooldown: number
+    /** Seconds the effect lasts. Unset for instant abilities. */
+    duration?: number
+    /** Charges that can be stored. Default 1. */
+    charges?: number
+    /** Applies the effect. Return false to refuse without using a charge. */
+    start(lp: CorePlayer_APlayer): boolean | void
+    /**
+     * Removes the effect: after duration, and early on death, undeploy,
+     * revoke or leave.
+     */
+    end?(lp: CorePlayer_APlayer): void
+}
+
+/** Passive perk, applied on every deploy while granted. */
+export interface CoreAbility_IPerk {
+    id: string
+    apply(lp: CorePlayer_APlayer): void
+    /** Modifiers are cleared on death anyway; only for other state. */
+    remove?(lp: CorePlayer_APlayer): void
+}
+
+/**
+ * Engine values that several abilities and perks may change at once. Each
+ * source sets its own factor; the engine gets the product.
+ *   speed        SetPlayerMovementSpeedMultiplier
+ *   damageTaken  SetPlayerIncomingDamageFactor
+ */
+export type CoreAbility_Modifier = 'speed' | 'damageTaken'
+
+/** One granted ability of one player. */
+export interface CoreAbility_ISlot {
+    ability: CoreAbility_IAbility
+    charges: number
+    /** Running while the effect lasts. */
+    effect: CoreScheduler_Timer | undefined
+    /** Running while a used charge comes back. */
+    recharge: CoreScheduler_Timer | undefined
+}
+
+/**
+ * CoreAbility_PlayerAbilities
+ *
+ * Abilities, perks and modifiers of one player (lp.abilities), maintained
+ * by gameMode.abilities. Read it freely, e.g. for a HUD.
+ */
+export class CoreAbility_PlayerAbilities {
+    readonly slots = new Map<string, CoreAbility_ISlot>()
+    readonly perks = new Map<string, CoreAbility_IPerk>()
+    /** Factors by modifier, then by source id. */
+    readonly modifiers = new Map<CoreAbility_Modifier, Map<string, number>>()
+    /** Input triggers held on the last tick, by ability id. */
+    readonly held = new Set<string>()
+    /** Abilities whose trigger input is restricted right now. */
+    readonly restricted = new Set<string>()
+
+    has(abilityId: string): boolean {
+        return this.slots.has(abilityId)
+    }
+
+    charges(abilityId: string): number {
+        return this.slots.get(abilityId)?.charges ?? 0
+    }
+
+    isActive(abilityId: string): boolean {
+        return this.slots.get(abilityId)?.effect?.isActive() ?? false
+    }
+
+    /** Can be activated right now, life state aside. */
+    isReady(abilityId: string): boolean {
+        return this.charges(abilityId) > 0 && !this.isActive(abilityId)
+    }
+
+    /** Seconds until the next charge comes back; 0 when full. */
+    cooldown(abilityId: string): number {
+        const recharge = this.slots.get(abilityId)?.recharge
+        return recharge?.isActive() ? recharge.remaining() : 0
+    }
+
+    /** Product of every source of a modifier. */
+    factor(modifier: CoreAbility_Modifier): number {
+        let factor = 1
+        for (const value of this.modifiers.get(modifier)?.values() ?? []) {
+            factor *= value
+        }
+        return factor
+    }
+}
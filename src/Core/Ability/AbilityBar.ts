@@ -0,0 +1,249 @@
+import { Core_AGameMode } from '../AGameMode'
+import { CorePlayer_IGameModeEvents } from '../IGameModeEvents'
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import { CoreScheduler_Timer } from '../Scheduler/Timer'
+
+export interface CoreAbility_IAbilityBarConfig {
+    /** Ability ids, one button each, left to right. */
+    abilities: string[]
+    /** Seconds between label updates. Default 0.5. */
+    refreshInterval?: number
+}
+
+/** Per player buttons and labels by ability id, built on first deploy. */
+interface CoreAbility_IBar {
+    root: mod.UIWidget
+    buttons: Map<string, mod.UIWidget>
+    labels: Map<string, mod.UIWidget>
+    /** Last label sent per ability, to skip unchanged updates. */
+    shown: Map<string, string>
+}
+
+const CoreAbility_BUTTON_WIDTH = 160
+const CoreAbility_BUTTON_HEIGHT = 50
+
+/**
+ * CoreAbility_AbilityBar
+ *
+ * HUD row of ability buttons at the bottom of the screen. Each button shows
+ * the ability label with its charges, or the cooldown while none are left,
+ * and activates the ability when pressed:
+ *
+ *     this.abilityBar = new CoreAbility_AbilityBar(this, {
+ *         abilities: ['dash', 'reveal'],
+ *     })
+ *
+ * Buttons only take clicks while UI input mode is on (EnableUIInputMode);
+ * for activation during play bind input triggers on gameMode.abilities.
+ * The bar is hidden while its player is not deployed.
+ */
+export class CoreAbility_AbilityBar {
+    private gameMode: Core_AGameMode
+    private config: CoreAbility_IAbilityBarConfig
+    private timer: CoreScheduler_Timer
+    private bars = new Map<CorePlayer_APlayer, CoreAbility_IBar>()
+
+    constructor(
+        gameMode: Core_AGameMode,
+        config: CoreAbility_IAbilityBarConfig
+    ) {
+        this.gameMode = gameMode
+        this.config = config
+
+        gameMode.addListener(this.listener)
+        this.timer = gameMode.scheduler.setInterval(
+            () => this.refresh(),
+            config.refreshInterval ?? 0.5
+        )
+    }
+
+    /** Updates the labels of one player, or of everyone. */
+    refresh(lp?: CorePlayer_APlayer): void {
+        const players = lp ? [lp] : [...this.bars.keys()]
+        for (const player of players) this.update(player)
+    }
+
+    /** Stops updating and hides every bar. */
+    dispose(): void {
+        this.timer.cancel()
+        this.gameMode.removeListener(this.listener)
+        for (const bar of this.bars.values()) {
+            mod.SetUIWidgetVisible(bar.root, false)
+        }
+    }
+
+    /* ------------------------------------------------------------
+     * Internals
+     * ------------------------------------------------------------ */
+
+    private listener: CorePlayer_IGameModeEvents = {
+        OnPlayerDeployed: (lp) => this.show(lp, true),
+        OnPlayerDied: (lp) => this.show(lp, false),
+        OnPlayerUndeploy: (lp) => this.show(lp, false),
+        // Widgets are deleted with the player's managed resources
+        OnPlayerLeaveGame: (lp) => void this.bars.delete(lp),
+        OnAbilityActivated: (lp) => this.refresh(lp),
+        OnAbilityEnded: (lp) => this.refresh(lp),
+        OnAbilityReady: (lp) => this.refresh(lp),
+        OnPlayerUIButtonEvent: (lp, widget, event) =>
+            this.onButton(lp, widget, event),
+    }
+
+    private show(lp: CorePlayer_APlayer, visible: boolean): void {
+        const bar = this.bars.get(lp) ?? (visible ? this.build(lp) : undefined)
+        if (!bar) return
+        mod.SetUIWidgetVisible(bar.root, visible)
+        if (visible) this.update(lp)
+    }
+
+    private onButton(
+        lp: CorePlayer_APlayer,
+        widget: mod.UIWidget,
+        event: mod.UIButtonEvent
+    ): void {
+        if (!mod.Equals(event, mod.UIButtonEvent.ButtonUp)) return
+
+        const prefix = this.widgetName(lp, '')
+        const name = mod.GetUIWidgetName(widget)
+        if (!name.startsWith(prefix)) return
+
+        const abilityId = name.slice(prefix.length)
+        if (this.config.abilities.includes(abilityId)) {
+            this.gameMode.abilities.activate(lp, abilityId)
+        }
+    }
+
+    private update(lp: CorePlayer_APlayer): void {
+        const bar = this.bars.get(lp)
+        if (!bar) return
+
+        for (const abilityId of this.config.abilities) {
+            const slot = lp.abilities.slots.get(abilityId)
+            const ready = lp.abilities.isReady(abilityId)
+            const cooldown = Math.ceil(lp.abilities.cooldown(abilityId))
+
+            const key = !slot
+                ? 'core.ability.locked'
+                : slot.charges > 0
+                  ? (slot.ability.label ?? 'core.ability.ready')
+                  : 'core.ability.cooldown'
+            const arg = slot && slot.charges > 0 ? slot.charges : cooldown
+            const shown = `${key}|${arg}|${ready}`
+            if (bar.shown.get(abilityId) === shown) continue
+            bar.shown.set(abilityId, shown)
+
+            mod.SetUITextLabel(
+                bar.labels.get(abilityId)!,
+                mod.Message(key, arg)
+            )
+            mod.SetUIButtonEnabled(bar.buttons.get(abilityId)!, ready)
+        }
+    }
+
+    /** Widget names are global to the engine, so they carry the player id. */
+    private widgetName(lp: CorePlayer_APlayer, part: string): string {
+        return `abilitybar_${mod.GetObjId(lp.player)}_${part}`
+    }
+
+    private build(lp: CorePlayer_APlayer): CoreAbility_IBar {
+        const player = lp.player
+        const abilities = this.config.abilities
+
+        const rootName = this.widgetName(lp, 'root')
+        mod.AddUIContainer(
+            rootName,
+            mod.CreateVector(0, 40, 0),
+            mod.CreateVector(
+                abilities.length * CoreAbility_BUTTON_WIDTH,
+                CoreAbility_BUTTON_HEIGHT,
+                0
+            ),
+            mod.UIAnchor.BottomCenter,
+            mod.GetUIRoot(),
+            false,
+            0,
+            mod.CreateVector(0, 0, 0),
+            0,
+            mod.UIBgFill.None,
+            player
+        )
+        const root = lp.trackUIWidget(this.find(rootName))
+
+        const bar: CoreAbility_IBar = {
+            root,
+            buttons: new Map(),
+            labels: new Map(),
+            shown: new Map(),
+        }
+        abilities.forEach((abilityId, i) => {
+            const position = mod.CreateVector(
+                i * CoreAbility_BUTTON_WIDTH,
+                0,
+                0
+            )
+            const size = mod.CreateVector(
+                CoreAbility_BUTTON_WIDTH - 8,
+                CoreAbility_BUTTON_HEIGHT,
+                0
+            )
+            const dark = mod.CreateVector(0.15, 0.15, 0.15)
+            const light = mod.CreateVector(0.4, 0.4, 0.4)
+
+            const buttonName = this.widgetName(lp, abilityId)
+            mod.AddUIButton(
+                buttonName,
+                position,
+                size,
+                mod.UIAnchor.TopLeft,
+                root,
+                true,
+                0,
+                dark,
+                0.8,
+                mod.UIBgFill.Solid,
+                true,
+                mod.CreateVector(0.3, 0.3, 0.3),
+                1,
+                dark,
+                0.5,
+                mod.CreateVector(0.5, 0.5, 0.5),
+                1,
+                light,
+                1,
+                light,
+                1,
+                player
+            )
+            bar.buttons.set(abilityId, this.find(buttonName))
+
+            // The label sits on top of the button and does not take input
+            const labelName = this.widgetName(lp, `${abilityId}_label`)
+            mod.AddUIText(
+                labelName,
+                position,
+                size,
+                mod.UIAnchor.TopLeft,
+                root,
+                true,
+                0,
+                dark,
+                0,
+                mod.UIBgFill.None,
+                mod.Message('core.ability.locked'),
+                20,
+                mod.CreateVector(1, 1, 1),
+                1,
+                mod.UIAnchor.Center,
+                player
+            )
+            bar.labels.set(abilityId, this.find(labelName))
+        })
+
+        this.bars.set(lp, bar)
+        return bar
+    }
+
+    private find(name: string): mod.UIWidget {
+        return mod.FindUIWidgetWithName(name, mod.GetUIRoot())
+    }
+}
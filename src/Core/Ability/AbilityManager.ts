@@ -0,0 +1,357 @@
+import { Core_AGameMode } from '../AGameMode'
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import {
+    CoreAbility_IAbility,
+    CoreAbility_IPerk,
+    CoreAbility_ISlot,
+    CoreAbility_Modifier,
+} from './Ability'
+
+/** Outcome of activate(). Only 'activated' uses a charge. */
+export type CoreAbility_ActivationResult =
+    | 'activated'
+    | 'unknownAbility'
+    | 'notGranted'
+    | 'notAlive'
+    | 'active'
+    | 'noCharges'
+    | 'refused'
+
+/**
+ * Activates an ability from a soldier state instead of a UI button. The
+ * ability fires on the tick the state turns true, unless the phase blocks
+ * OngoingPlayer.
+ *
+ * With restrict, the trigger owns the input behind the state, e.g. Zoom for
+ * IsZooming: it is restricted while the ability is running or out of
+ * charges, so the input only works while pressing it starts the ability.
+ * The restriction is lifted on death, undeploy, revoke and leave.
+ */
+export interface CoreAbility_IInputTrigger {
+    state: keyof typeof mod.SoldierStateBool
+    restrict?: keyof typeof mod.RestrictedInputs
+}
+
+/**
+ * CoreAbility_AbilityManager
+ *
+ * Active abilities and passive perks owned by Core_AGameMode
+ * (gameMode.abilities). Abilities are defined once, granted per player and
+ * tracked on lp.abilities with their charges, cooldowns and effects:
+ *
+ *     this.abilities.define(
+ *         CoreAbility_dash({ multiplier: 1.5, duration: 3, cooldown: 12 }),
+ *         CoreAbility_reveal({ radius: 40, cooldown: 30 })
+ *     )
+ *     this.abilities.definePerk(CoreAbility_speedPerk('light', 1.1))
+ *     this.abilities.setDefaults(['dash', 'reveal'], ['light'])
+ *     this.abilities.bindInput('dash', { state: 'IsJumping' })
+ *
+ *     this.abilities.activate(lp, 'dash')
+ *
+ * Speed and damage taken go through modify() so that abilities and perks
+ * combine instead of overwriting each other. On death, undeploy and leave
+ * every running effect is ended, perks are removed and all modifiers are
+ * reset before any listener runs; cooldowns keep running.
+ */
+export class CoreAbility_AbilityManager {
+    private gameMode: Core_AGameMode
+    private abilities = new Map<string, CoreAbility_IAbility>()
+    private perks = new Map<string, CoreAbility_IPerk>()
+    private triggers = new Map<string, CoreAbility_IInputTrigger>()
+    private defaultAbilities: string[] = []
+    private defaultPerks: string[] = []
+    /** Player being stripped; modifiers are pushed once at the end. */
+    private stripping: CorePlayer_APlayer | undefined
+
+    constructor(gameMode: Core_AGameMode) {
+        this.gameMode = gameMode
+    }
+
+    define(...abilities: CoreAbility_IAbility[]): void {
+        for (const ability of abilities) this.abilities.set(ability.id, ability)
+    }
+
+    definePerk(...perks: CoreAbility_IPerk[]): void {
+        for (const perk of perks) this.perks.set(perk.id, perk)
+    }
+
+    /** Granted to every player when they join. */
+    setDefaults(abilityIds: string[], perkIds: string[] = []): void {
+        this.defaultAbilities = abilityIds
+        this.defaultPerks = perkIds
+    }
+
+    bindInput(abilityId: string, trigger: CoreAbility_IInputTrigger): void {
+        this.triggers.set(abilityId, trigger)
+    }
+
+    /** Gives lp the ability with full charges. */
+    grant(lp: CorePlayer_APlayer, abilityId: string): void {
+        const ability = this.abilities.get(abilityId)
+        if (!ability) {
+            console.log(`Unknown ability "${abilityId}"`)
+            return
+        }
+        if (lp.abilities.has(abilityId)) return
+
+        lp.abilities.slots.set(abilityId, {
+            ability,
+            charges: ability.charges ?? 1,
+            effect: undefined,
+            recharge: undefined,
+        })
+        if (lp.isDeployed()) this.restrict(lp, abilityId)
+    }
+
+    revoke(lp: CorePlayer_APlayer, abilityId: string): void {
+        const slot = lp.abilities.slots.get(abilityId)
+        if (!slot) return
+
+        this.endEffect(lp, slot)
+        slot.recharge?.cancel()
+        lp.abilities.slots.delete(abilityId)
+        lp.abilities.held.delete(abilityId)
+        this.restrict(lp, abilityId)
+    }
+
+    /** Gives lp the perk, applied now if deployed and on every deploy. */
+    grantPerk(lp: CorePlayer_APlayer, perkId: string): void {
+        const perk = this.perks.get(perkId)
+        if (!perk) {
+            console.log(`Unknown perk "${perkId}"`)
+            return
+        }
+        if (lp.abilities.perks.has(perkId)) return
+
+        lp.abilities.perks.set(perkId, perk)
+        if (lp.isDeployed()) this.applyPerk(lp, perk)
+    }
+
+    revokePerk(lp: CorePlayer_APlayer, perkId: string): void {
+        const perk = lp.abilities.perks.get(perkId)
+        if (!perk) return
+
+        lp.abilities.perks.delete(perkId)
+        if (lp.isDeployed()) this.removePerk(lp, perk)
+    }
+
+    /** Uses a charge and starts the ability, if lp can right now. */
+    activate(
+        lp: CorePlayer_APlayer,
+        abilityId: string
+    ): CoreAbility_ActivationResult {
+        if (!this.abilities.has(abilityId)) return 'unknownAbility'
+        const slot = lp.abilities.slots.get(abilityId)
+        if (!slot) return 'notGranted'
+        if (!lp.isAlive()) return 'notAlive'
+        if (slot.effect?.isActive()) return 'active'
+        if (slot.charges <= 0) return 'noCharges'
+
+        let started = false
+        this.gameMode.errors.run(`ability ${abilityId}`, lp, () => {
+            started = slot.ability.start(lp) !== false
+        })
+        if (!started) return 'refused'
+
+        slot.charges--
+        this.recharge(lp, slot)
+        if (slot.ability.duration) {
+            slot.effect = this.gameMode.scheduler.setTimeout(
+                () => this.endEffect(lp, slot),
+                slot.ability.duration,
+                { owner: lp, clock: 'match' }
+            )
+        }
+        this.restrict(lp, abilityId)
+
+        lp.emit('OnAbilityActivated', abilityId)
+        this.gameMode.dispatch('OnAbilityActivated', lp, abilityId)
+        return 'activated'
+    }
+
+    /**
+     * Sets the factor one source applies to a modifier, or clears it with
+     * undefined, and pushes the combined value to the engine.
+     */
+    modify(
+        lp: CorePlayer_APlayer,
+        modifier: CoreAbility_Modifier,
+        source: string,
+        factor: number | undefined
+    ): void {
+        let sources = lp.abilities.modifiers.get(modifier)
+        if (!sources) {
+            sources = new Map()
+            lp.abilities.modifiers.set(modifier, sources)
+        }
+        if (factor === undefined) sources.delete(source)
+        else sources.set(source, factor)
+
+        this.push(lp, modifier)
+    }
+
+    /* ------------------------------------------------------------
+     * Routes
+     * ------------------------------------------------------------ */
+
+    OnPlayerJoinGame(lp: CorePlayer_APlayer): void {
+        for (const id of this.defaultAbilities) this.grant(lp, id)
+        for (const id of this.defaultPerks) this.grantPerk(lp, id)
+    }
+
+    OnPlayerDeployed(lp: CorePlayer_APlayer): void {
+        for (const abilityId of lp.abilities.slots.keys()) {
+            this.restrict(lp, abilityId)
+        }
+        for (const perk of lp.abilities.perks.values()) {
+            this.applyPerk(lp, perk)
+        }
+    }
+
+    OnPlayerDied(lp: CorePlayer_APlayer): void {
+        this.strip(lp)
+    }
+
+    OnPlayerUndeploy(lp: CorePlayer_APlayer): void {
+        this.strip(lp)
+    }
+
+    OnPlayerLeaveGame(lp: CorePlayer_APlayer): void {
+        this.strip(lp)
+    }
+
+    /** Polls the input triggers. */
+    OngoingPlayer(lp: CorePlayer_APlayer): void {
+        if (!lp.isAlive()) return
+
+        for (const [abilityId, trigger] of this.triggers) {
+            if (!lp.abilities.has(abilityId)) continue
+
+            const held = mod.GetSoldierState(
+                lp.player,
+                mod.SoldierStateBool[trigger.state]
+            )
+            if (!held) {
+                lp.abilities.held.delete(abilityId)
+            } else if (!lp.abilities.held.has(abilityId)) {
+                lp.abilities.held.add(abilityId)
+                this.activate(lp, abilityId)
+            }
+        }
+    }
+
+    /* ------------------------------------------------------------
+     * Internals
+     * ------------------------------------------------------------ */
+
+    /** Starts bringing back one charge, unless full or already running. */
+    private recharge(lp: CorePlayer_APlayer, slot: CoreAbility_ISlot): void {
+        if (slot.recharge?.isActive()) return
+        if (slot.charges >= (slot.ability.charges ?? 1)) return
+
+        slot.recharge = this.gameMode.scheduler.setTimeout(
+            () => {
+                slot.charges++
+                slot.recharge = undefined
+                this.restrict(lp, slot.ability.id)
+                lp.emit('OnAbilityReady', slot.ability.id)
+                this.gameMode.dispatch('OnAbilityReady', lp, slot.ability.id)
+                this.recharge(lp, slot)
+            },
+            slot.ability.cooldown,
+            { owner: lp, clock: 'match' }
+        )
+    }
+
+    private endEffect(lp: CorePlayer_APlayer, slot: CoreAbility_ISlot): void {
+        if (!slot.effect) return
+        slot.effect.cancel()
+        slot.effect = undefined
+
+        const ability = slot.ability
+        if (ability.end) {
+            this.gameMode.errors.run(`ability ${ability.id}`, lp, () =>
+                ability.end!(lp)
+            )
+        }
+        if (lp !== this.stripping) this.restrict(lp, ability.id)
+        lp.emit('OnAbilityEnded', ability.id)
+        this.gameMode.dispatch('OnAbilityEnded', lp, ability.id)
+    }
+
+    /** Ends effects, removes perks and resets every modifier. */
+    private strip(lp: CorePlayer_APlayer): void {
+        // Modifiers without sources are already at 1 in the engine
+        const changed = [...lp.abilities.modifiers]
+            .filter(([, sources]) => sources.size > 0)
+            .map(([modifier]) => modifier)
+
+        this.stripping = lp
+        for (const slot of lp.abilities.slots.values()) {
+            this.endEffect(lp, slot)
+        }
+        for (const perk of lp.abilities.perks.values()) {
+            this.removePerk(lp, perk)
+        }
+        this.stripping = undefined
+
+        for (const modifier of changed) {
+            lp.abilities.modifiers.get(modifier)!.clear()
+            this.push(lp, modifier)
+        }
+        lp.abilities.held.clear()
+        for (const abilityId of [...lp.abilities.restricted]) {
+            this.restrict(lp, abilityId, false)
+        }
+    }
+
+    /**
+     * Restricts the trigger input of the ability while it cannot be
+     * activated, or lifts it; restricted overrides the check.
+     */
+    private restrict(
+        lp: CorePlayer_APlayer,
+        abilityId: string,
+        restricted?: boolean
+    ): void {
+        const input = this.triggers.get(abilityId)?.restrict
+        if (input === undefined) return
+        if (restricted === undefined) {
+            const slot = lp.abilities.slots.get(abilityId)
+            restricted =
+                slot !== undefined &&
+                (slot.charges <= 0 || (slot.effect?.isActive() ?? false))
+        }
+        if (restricted === lp.abilities.restricted.has(abilityId)) return
+
+        if (restricted) lp.abilities.restricted.add(abilityId)
+        else lp.abilities.restricted.delete(abilityId)
+        if (!mod.IsPlayerValid(lp.player)) return
+        mod.EnableInputRestriction(
+            lp.player,
+            mod.RestrictedInputs[input],
+            restricted
+        )
+    }
+
+    private applyPerk(lp: CorePlayer_APlayer, perk: CoreAbility_IPerk): void {
+        this.gameMode.errors.run(`perk ${perk.id}`, lp, () => perk.apply(lp))
+    }
+
+    private removePerk(lp: CorePlayer_APlayer, perk: CoreAbility_IPerk): void {
+        if (!perk.remove) return
+        this.gameMode.errors.run(`perk ${perk.id}`, lp, () => perk.remove!(lp))
+    }
+
+    private push(lp: CorePlayer_APlayer, modifier: CoreAbility_Modifier): void {
+        if (lp === this.stripping || !mod.IsPlayerValid(lp.player)) return
+
+        const factor = lp.abilities.factor(modifier)
+        if (modifier === 'speed') {
+            mod.SetPlayerMovementSpeedMultiplier(lp.player, factor)
+        } else {
+            mod.SetPlayerIncomingDamageFactor(lp.player, factor)
+        }
+    }
+}
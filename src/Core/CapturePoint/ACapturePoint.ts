@@ -0,0 +1,31 @@
+import { CoreObject_AObject } from '../Object/AObject'
+import { CoreCapturePoint_ICapturePointEvents } from './ICapturePointEvents'
+
+/**
+ * CoreCapturePoint_ACapturePoint
+ *
+ * Logical wrapper around mod.CapturePoint. Subclasses store per-point data
+ * (owner history, score ticks, etc) and react to events emitted by
+ * CoreCapturePoint_ACapturePointManager.
+ *
+ *     class MyCapturePoint extends CoreCapturePoint_ACapturePoint {
+ *         constructor(capturePoint: mod.CapturePoint, gameMode: Core_AGameMode) {
+ *             super(capturePoint, gameMode)
+ *
+ *             this.addListener({
+ *                 OnCapturePointCaptured: () => {
+ *                     console.log("captured:", this.id)
+ *                 },
+ *             })
+ *         }
+ *     }
+ */
+
+export abstract class CoreCapturePoint_ACapturePoint extends CoreObject_AObject<
+    mod.CapturePoint,
+    CoreCapturePoint_ICapturePointEvents
+> {
+    get capturePoint(): mod.CapturePoint {
+        return this.object
+    }
+}
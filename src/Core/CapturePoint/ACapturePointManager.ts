@@ -0,0 +1,69 @@
+import { CoreObject_AObjectManager } from '../Object/AObjectManager'
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import { CoreCapturePoint_ACapturePoint } from './ACapturePoint'
+
+/**
+ * CoreCapturePoint_ACapturePointManager
+ *
+ * Manages logical capture points and dispatches all capture point events.
+ *
+ * Lifecycle:
+ *   Engine Event -> GameMode._internal -> CapturePointManager -> ACapturePoint.emit
+ */
+
+export abstract class CoreCapturePoint_ACapturePointManager extends CoreObject_AObjectManager<
+    mod.CapturePoint,
+    CoreCapturePoint_ACapturePoint
+> {
+    abstract createCapturePoint(
+        capturePoint: mod.CapturePoint
+    ): CoreCapturePoint_ACapturePoint
+
+    protected createObject(
+        capturePoint: mod.CapturePoint
+    ): CoreCapturePoint_ACapturePoint {
+        return this.createCapturePoint(capturePoint)
+    }
+
+    /* ------------------------------------------------------------
+     * Ongoing
+     * ------------------------------------------------------------ */
+
+    tick(lcp: CoreCapturePoint_ACapturePoint): void {
+        lcp.emit('OngoingCapturePoint')
+    }
+
+    /* ------------------------------------------------------------
+     * Ownership
+     * ------------------------------------------------------------ */
+
+    OnCapturePointCaptured(lcp: CoreCapturePoint_ACapturePoint): void {
+        lcp.emit('OnCapturePointCaptured')
+    }
+
+    OnCapturePointCapturing(lcp: CoreCapturePoint_ACapturePoint): void {
+        lcp.emit('OnCapturePointCapturing')
+    }
+
+    OnCapturePointLost(lcp: CoreCapturePoint_ACapturePoint): void {
+        lcp.emit('OnCapturePointLost')
+    }
+
+    /* ------------------------------------------------------------
+     * Players on point
+     * ------------------------------------------------------------ */
+
+    OnPlayerEnterCapturePoint(
+        lcp: CoreCapturePoint_ACapturePoint,
+        lp: CorePlayer_APlayer
+    ): void {
+        lcp.emit('OnPlayerEnterCapturePoint', lp)
+    }
+
+    OnPlayerExitCapturePoint(
+        lcp: CoreCapturePoint_ACapturePoint,
+        lp: CorePlayer_APlayer
+    ): void {
+        lcp.emit('OnPlayerExitCapturePoint', lp)
+    }
+}
@@ -0,0 +1,15 @@
+import { CorePlayer_APlayer } from '../Player/APlayer'
+
+export interface CoreCapturePoint_ICapturePointEvents {
+    // Ownership
+    OnCapturePointCaptured?(): void
+    OnCapturePointCapturing?(): void
+    OnCapturePointLost?(): void
+
+    // Players on point
+    OnPlayerEnterCapturePoint?(lp: CorePlayer_APlayer): void
+    OnPlayerExitCapturePoint?(lp: CorePlayer_APlayer): void
+
+    // Ongoing tick
+    OngoingCapturePoint?(): void
+}
@@ -0,0 +1,379 @@
+import { Core_AGameMode } from '../AGameMode'
+import { CorePlayer_IGameModeEvents } from '../IGameModeEvents'
+import { CoreLoadout_ILoadout } from '../Loadout/Loadout'
+import { CorePlayer_APlayer } from '../Player/APlayer'
+
+/** One entry of the buy menu. */
+export interface CoreEconomy_IItem {
+    /** Unique within the menu; part of the button widget name. */
+    id: string
+    /** __STRINGS.json key, receives the price as its first argument. */
+    label: string
+    price: number
+    /** Equipped with gameMode.loadouts.equip; unset slots are kept. */
+    loadout?: CoreLoadout_ILoadout
+    /** Reserve ammo added to an inventory slot. */
+    ammo?: { slot: keyof typeof mod.InventorySlots; amount: number }
+    /** Extra condition, e.g. one armour per round. */
+    canBuy?: (lp: CorePlayer_APlayer) => boolean
+    /** Custom grant, run after loadout and ammo. Return false to refund. */
+    grant?: (lp: CorePlayer_APlayer) => boolean
+}
+
+export interface CoreEconomy_IBuyMenuConfig {
+    items: CoreEconomy_IItem[]
+    /** __STRINGS.json key of the menu title. */
+    title?: string
+    /** Close the menu after a successful purchase. Default false. */
+    closeOnBuy?: boolean
+}
+
+/**
+ * Outcome of a purchase. Anything but 'bought' leaves the balance as it was
+ * and is shown to the player as core.economy.purchase.<result>.
+ */
+export type CoreEconomy_PurchaseResult =
+    | 'bought'
+    | 'unknownItem'
+    | 'notAlive'
+    | 'unavailable'
+    | 'insufficientFunds'
+    | 'failed'
+
+/** Per player widgets, built on first open. */
+interface CoreEconomy_IMenuWidgets {
+    root: mod.UIWidget
+    balance: mod.UIWidget
+    open: boolean
+}
+
+const CoreEconomy_ROW_HEIGHT = 50
+const CoreEconomy_WIDTH = 420
+
+/**
+ * CoreEconomy_BuyMenu
+ *
+ * Buy menu UI on top of gameMode.economy. Each item is a button; pressing
+ * it validates the purchase on the script side, takes the money and grants
+ * the equipment. If the equipment cannot be granted (missing SDK member,
+ * engine refused it, custom grant failed) the price is refunded and the
+ * changed slots are put back with gameMode.loadouts.revert():
+ *
+ *     this.buyMenu = new CoreEconomy_BuyMenu(this, {
+ *         title: 'buy.title',
+ *         items: [
+ *             {
+ *                 id: 'rifle',
+ *                 label: 'buy.rifle',
+ *                 price: 2700,
+ *                 loadout: { primary: { weapon: 'AssaultRifle_M433' } },
+ *             },
+ *             {
+ *                 id: 'ammo',
+ *                 label: 'buy.ammo',
+ *                 price: 200,
+ *                 ammo: { slot: 'PrimaryWeapon', amount: 90 },
+ *             },
+ *         ],
+ *     })
+ *
+ *     this.buyMenu.open(lp)
+ *
+ * Every purchase attempt fires OnPurchase on the player and on the game
+ * mode bus. The menu closes when its player dies.
+ */
+export class CoreEconomy_BuyMenu {
+    private gameMode: Core_AGameMode
+    private config: CoreEconomy_IBuyMenuConfig
+    private items = new Map<string, CoreEconomy_IItem>()
+    private menus = new Map<CorePlayer_APlayer, CoreEconomy_IMenuWidgets>()
+
+    constructor(gameMode: Core_AGameMode, config: CoreEconomy_IBuyMenuConfig) {
+        this.gameMode = gameMode
+        this.config = config
+        for (const item of config.items) this.items.set(item.id, item)
+
+        gameMode.addListener(this.listener)
+    }
+
+    isOpen(lp: CorePlayer_APlayer): boolean {
+        return this.menus.get(lp)?.open ?? false
+    }
+
+    /** Shows the menu and enables UI input for the player. */
+    open(lp: CorePlayer_APlayer): void {
+        const menu = this.menus.get(lp) ?? this.build(lp)
+        if (menu.open) return
+        menu.open = true
+        mod.SetUIWidgetVisible(menu.root, true)
+        mod.EnableUIInputMode(true, lp.player)
+    }
+
+    close(lp: CorePlayer_APlayer): void {
+        const menu = this.menus.get(lp)
+        if (!menu?.open) return
+        menu.open = false
+        mod.SetUIWidgetVisible(menu.root, false)
+        mod.EnableUIInputMode(false, lp.player)
+    }
+
+    toggle(lp: CorePlayer_APlayer): void {
+        if (this.isOpen(lp)) this.close(lp)
+        else this.open(lp)
+    }
+
+    /** Buys an item for lp, as if its button was pressed. */
+    buy(lp: CorePlayer_APlayer, itemId: string): CoreEconomy_PurchaseResult {
+        const result = this.purchase(lp, itemId)
+
+        lp.emit('OnPurchase', itemId, result)
+        this.gameMode.dispatch('OnPurchase', lp, itemId, result)
+
+        if (result === 'bought') {
+            if (this.config.closeOnBuy) this.close(lp)
+        } else {
+            mod.DisplayNotificationMessage(
+                mod.Message(`core.economy.purchase.${result}`),
+                lp.player
+            )
+        }
+        return result
+    }
+
+    /** Closes every menu and stops handling buttons. */
+    dispose(): void {
+        for (const lp of this.menus.keys()) this.close(lp)
+        this.gameMode.removeListener(this.listener)
+    }
+
+    /* ------------------------------------------------------------
+     * Internals
+     * ------------------------------------------------------------ */
+
+    private listener: CorePlayer_IGameModeEvents = {
+        OnPlayerUIButtonEvent: (lp, widget, event) =>
+            this.onButton(lp, widget, event),
+        OnMoneyChanged: (lp, balance) => this.showBalance(lp, balance),
+        OnPlayerDied: (lp) => this.close(lp),
+        // Widgets are deleted with the player's managed resources
+        OnPlayerLeaveGame: (lp) => void this.menus.delete(lp),
+    }
+
+    private purchase(
+        lp: CorePlayer_APlayer,
+        itemId: string
+    ): CoreEconomy_PurchaseResult {
+        const item = this.items.get(itemId)
+        if (!item) return 'unknownItem'
+        if (!lp.isAlive()) return 'notAlive'
+        if (item.canBuy && !item.canBuy(lp)) return 'unavailable'
+
+        const economy = this.gameMode.economy
+        if (!economy.spend(lp, item.price, item.id)) {
+            return 'insufficientFunds'
+        }
+
+        if (!this.grant(lp, item)) {
+            economy.refund(lp, item.price, item.id)
+            return 'failed'
+        }
+        return 'bought'
+    }
+
+    /** Grants the item, or leaves lp's equipment as it was and fails. */
+    private grant(lp: CorePlayer_APlayer, item: CoreEconomy_IItem): boolean {
+        const loadouts = this.gameMode.loadouts
+        const loadout = item.loadout
+        if (loadout && loadouts.missingIn(loadout).length > 0) return false
+        if (loadout) loadouts.equip(lp, loadout)
+
+        const slot = item.ammo && mod.InventorySlots[item.ammo.slot]
+        const reserve =
+            slot !== undefined ? mod.GetInventoryAmmo(lp.player, slot) : 0
+        if (item.ammo && slot !== undefined) {
+            mod.SetInventoryAmmo(lp.player, slot, reserve + item.ammo.amount)
+        }
+
+        let granted = !loadout || loadouts.has(lp, loadout)
+        const custom = item.grant
+        if (granted && custom) {
+            granted = false
+            this.gameMode.errors.run('OnPurchase', lp, () => {
+                granted = custom(lp)
+            })
+        }
+        if (granted) return true
+
+        if (slot !== undefined) mod.SetInventoryAmmo(lp.player, slot, reserve)
+        if (loadout) loadouts.revert(lp, loadout)
+        return false
+    }
+
+    private onButton(
+        lp: CorePlayer_APlayer,
+        widget: mod.UIWidget,
+        event: mod.UIButtonEvent
+    ): void {
+        if (!mod.Equals(event, mod.UIButtonEvent.ButtonUp)) return
+
+        const prefix = this.widgetName(lp, '')
+        const name = mod.GetUIWidgetName(widget)
+        if (!name.startsWith(prefix)) return
+
+        const target = name.slice(prefix.length)
+        if (target === 'close') {
+            this.close(lp)
+        } else if (target.startsWith('item_')) {
+            this.buy(lp, target.slice('item_'.length))
+        }
+    }
+
+    private showBalance(lp: CorePlayer_APlayer, balance: number): void {
+        const menu = this.menus.get(lp)
+        if (!menu) return
+        mod.SetUITextLabel(
+            menu.balance,
+            mod.Message('core.economy.balance', balance)
+        )
+    }
+
+    /** Widget names are global to the engine, so they carry the player id. */
+    private widgetName(lp: CorePlayer_APlayer, part: string): string {
+        return `buymenu_${mod.GetObjId(lp.player)}_${part}`
+    }
+
+    private build(lp: CorePlayer_APlayer): CoreEconomy_IMenuWidgets {
+        const player = lp.player
+        const items = this.config.items
+        const height = (items.length + 3) * CoreEconomy_ROW_HEIGHT
+
+        const rootName = this.widgetName(lp, 'root')
+        mod.AddUIContainer(
+            rootName,
+            mod.CreateVector(0, 0, 0),
+            mod.CreateVector(CoreEconomy_WIDTH, height, 0),
+            mod.UIAnchor.Center,
+            mod.GetUIRoot(),
+            false,
+            10,
+            mod.CreateVector(0.1, 0.1, 0.1),
+            0.9,
+            mod.UIBgFill.Solid,
+            player
+        )
+        const root = lp.trackUIWidget(this.find(rootName))
+
+        if (this.config.title) {
+            this.addText(lp, root, 'title', 0, mod.Message(this.config.title))
+        }
+        const balance = this.addText(
+            lp,
+            root,
+            'balance',
+            1,
+            mod.Message('core.economy.balance', lp.wallet.balance)
+        )
+        items.forEach((item, i) => {
+            this.addButton(
+                lp,
+                root,
+                `item_${item.id}`,
+                i + 2,
+                mod.Message(item.label, item.price)
+            )
+        })
+        this.addButton(
+            lp,
+            root,
+            'close',
+            items.length + 2,
+            mod.Message('core.economy.close')
+        )
+
+        const menu = { root, balance, open: false }
+        this.menus.set(lp, menu)
+        return menu
+    }
+
+    private addButton(
+        lp: CorePlayer_APlayer,
+        parent: mod.UIWidget,
+        part: string,
+        row: number,
+        label: mod.Message
+    ): void {
+        const grey = mod.CreateVector(0.3, 0.3, 0.3)
+        const light = mod.CreateVector(0.4, 0.4, 0.4)
+        mod.AddUIButton(
+            this.widgetName(lp, part),
+            this.rowPosition(row),
+            this.rowSize(),
+            mod.UIAnchor.TopCenter,
+            parent,
+            true,
+            0,
+            grey,
+            1,
+            mod.UIBgFill.Solid,
+            true,
+            grey,
+            1,
+            mod.CreateVector(0.15, 0.15, 0.15),
+            1,
+            mod.CreateVector(0.5, 0.5, 0.5),
+            1,
+            light,
+            1,
+            light,
+            1,
+            lp.player
+        )
+        // The label sits on top of the button and does not take input
+        this.addText(lp, parent, `${part}_label`, row, label)
+    }
+
+    private addText(
+        lp: CorePlayer_APlayer,
+        parent: mod.UIWidget,
+        part: string,
+        row: number,
+        message: mod.Message
+    ): mod.UIWidget {
+        const name = this.widgetName(lp, part)
+        mod.AddUIText(
+            name,
+            this.rowPosition(row),
+            this.rowSize(),
+            mod.UIAnchor.TopCenter,
+            parent,
+            true,
+            0,
+            mod.CreateVector(0, 0, 0),
+            0,
+            mod.UIBgFill.None,
+            message,
+            24,
+            mod.CreateVector(1, 1, 1),
+            1,
+            mod.UIAnchor.Center,
+            lp.player
+        )
+        return this.find(name)
+    }
+
+    private rowPosition(row: number): mod.Vector {
+        return mod.CreateVector(0, row * CoreEconomy_ROW_HEIGHT, 0)
+    }
+
+    private rowSize(): mod.Vector {
+        return mod.CreateVector(
+            CoreEconomy_WIDTH - 20,
+            CoreEconomy_ROW_HEIGHT - 8,
+            0
+        )
+    }
+
+    private find(name: string): mod.UIWidget {
+        return mod.FindUIWidgetWithName(name, mod.GetUIRoot())
+    }
+}
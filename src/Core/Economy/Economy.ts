@@ -0,0 +1,201 @@
+import { Core_AGameMode } from '../AGameMode'
+import { CorePlayer_APlayer } from '../Player/APlayer'
+
+/**
+ * Earning rules. Amounts may be negative (e.g. a team kill penalty); unset
+ * rules pay nothing.
+ */
+export interface CoreEconomy_IRules {
+    /** Balance of a new player, and after a round reset. */
+    startMoney?: number
+    /** Balance cap. */
+    maxMoney?: number
+    kill?:
+        | number
+        | ((
+              lp: CorePlayer_APlayer,
+              victim: CorePlayer_APlayer | undefined,
+              deathType: mod.DeathType,
+              weapon: mod.WeaponUnlock
+          ) => number)
+    assist?: number
+    /** Replaces kill when the victim was a teammate. */
+    teamKill?: number
+    roundWin?: number
+    roundLoss?: number
+    /** Rewards for named objective actions, see Economy.objective(). */
+    objectives?: Record<string, number>
+    /** Set every balance back to startMoney when a round starts. */
+    resetEachRound?: boolean
+}
+
+/**
+ * CoreEconomy_Economy
+ *
+ * In-match currency owned by Core_AGameMode (gameMode.economy). Balances
+ * live on each APlayer (lp.wallet); rules decide what kills, assists,
+ * objective actions and round results pay:
+ *
+ *     this.economy.configure({
+ *         startMoney: 800,
+ *         maxMoney: 16000,
+ *         kill: 300,
+ *         assist: 100,
+ *         teamKill: -300,
+ *         roundWin: 3000,
+ *         roundLoss: 1900,
+ *         objectives: { plant: 300, defuse: 300 },
+ *     })
+ *
+ *     this.economy.objective(lp, 'plant')
+ *
+ * Kills and assists are paid from the routes before any listener runs,
+ * except while the phase blocks OnPlayerEarnedKill (e.g. warmup).
+ * Round results and resets are applied by Core_ARoundGameMode; a drawn
+ * round pays roundLoss to everyone. Every change fires OnMoneyChanged on
+ * the player and on the game mode bus. Spend it with CoreEconomy_BuyMenu
+ * or spend() / refund().
+ */
+export class CoreEconomy_Economy {
+    private gameMode: Core_AGameMode
+    private rules: CoreEconomy_IRules = {}
+    /** Players that already received startMoney. */
+    private funded = new Set<CorePlayer_APlayer>()
+
+    constructor(gameMode: Core_AGameMode) {
+        this.gameMode = gameMode
+    }
+
+    configure(rules: CoreEconomy_IRules): void {
+        this.rules = rules
+    }
+
+    /** Adds amount (may be negative), capped at maxMoney and floored at 0. */
+    earn(lp: CorePlayer_APlayer, amount: number, reason: string): void {
+        const wallet = lp.wallet
+        const max = this.rules.maxMoney ?? Infinity
+        const balance = Math.max(0, Math.min(max, wallet.balance + amount))
+        const delta = balance - wallet.balance
+        if (delta === 0) return
+
+        wallet.balance = balance
+        if (delta > 0) wallet.earned += delta
+        this.changed(lp, delta, reason)
+    }
+
+    /** Takes price from the balance. False (and no change) if too poor. */
+    spend(lp: CorePlayer_APlayer, price: number, reason: string): boolean {
+        if (!lp.wallet.canAfford(price)) return false
+        if (price === 0) return true
+
+        lp.wallet.balance -= price
+        lp.wallet.spent += price
+        this.changed(lp, -price, reason)
+        return true
+    }
+
+    /** Gives back a spent amount, ignoring maxMoney. */
+    refund(lp: CorePlayer_APlayer, amount: number, reason: string): void {
+        if (amount === 0) return
+        lp.wallet.balance += amount
+        lp.wallet.spent -= amount
+        this.changed(lp, amount, reason)
+    }
+
+    /** Pays the reward of a named objective action, if one is configured. */
+    objective(lp: CorePlayer_APlayer, action: string): void {
+        const reward = this.rules.objectives?.[action]
+        if (reward) this.earn(lp, reward, action)
+    }
+
+    /* ------------------------------------------------------------
+     * Routes
+     * ------------------------------------------------------------ */
+
+    OnPlayerJoinGame(lp: CorePlayer_APlayer): void {
+        if (this.funded.has(lp)) return
+        this.funded.add(lp)
+        this.earn(lp, this.rules.startMoney ?? 0, 'start')
+    }
+
+    OnPlayerLeaveGame(lp: CorePlayer_APlayer): void {
+        this.funded.delete(lp)
+    }
+
+    OnPlayerEarnedKill(
+        lp: CorePlayer_APlayer,
+        victim: CorePlayer_APlayer | undefined,
+        deathType: mod.DeathType,
+        weapon: mod.WeaponUnlock
+    ): void {
+        if (victim === lp) return
+
+        const teamKill =
+            victim?.team !== undefined &&
+            lp.team !== undefined &&
+            mod.GetObjId(victim.team) === mod.GetObjId(lp.team)
+        if (teamKill) {
+            this.earn(lp, this.rules.teamKill ?? 0, 'teamKill')
+            return
+        }
+
+        const kill = this.rules.kill ?? 0
+        const reward =
+            typeof kill === 'number'
+                ? kill
+                : kill(lp, victim, deathType, weapon)
+        this.earn(lp, reward, 'kill')
+    }
+
+    OnPlayerEarnedKillAssist(lp: CorePlayer_APlayer): void {
+        this.earn(lp, this.rules.assist ?? 0, 'assist')
+    }
+
+    OnRoundStarted(): void {
+        if (!this.rules.resetEachRound) return
+        const start = this.rules.startMoney ?? 0
+        for (const lp of this.gameMode.allPlayers()) {
+            this.setBalance(lp, start, 'reset')
+        }
+    }
+
+    OnRoundEnded(winner: mod.Team | undefined): void {
+        for (const lp of this.gameMode.allPlayers()) {
+            if (!lp.team) continue
+            const won =
+                winner !== undefined &&
+                mod.GetObjId(lp.team) === mod.GetObjId(winner)
+            if (won) {
+                this.earn(lp, this.rules.roundWin ?? 0, 'roundWin')
+            } else {
+                this.earn(lp, this.rules.roundLoss ?? 0, 'roundLoss')
+            }
+        }
+    }
+
+    /* ------------------------------------------------------------
+     * Internals
+     * ------------------------------------------------------------ */
+
+    /** Replaces the balance; counts as neither earned nor spent. */
+    private setBalance(
+        lp: CorePlayer_APlayer,
+        balance: number,
+        reason: string
+    ): void {
+        const delta = balance - lp.wallet.balance
+        if (delta === 0) return
+        lp.wallet.balance = balance
+        this.changed(lp, delta, reason)
+    }
+
+    private changed(
+        lp: CorePlayer_APlayer,
+        delta: number,
+        reason: string
+    ): void {
+        const balance = lp.wallet.balance
+        lp.emit('OnMoneyChanged', balance, delta, reason)
+        this.gameMode.dispatch('OnMoneyChanged', lp, balance, delta, reason)
+    }
+}
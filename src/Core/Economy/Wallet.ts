@@ -0,0 +1,16 @@
+/**
+ * CoreEconomy_Wallet
+ *
+ * Money of one player (lp.wallet). Read it freely; change it through
+ * gameMode.economy so OnMoneyChanged fires and the limits apply.
+ */
+export class CoreEconomy_Wallet {
+    balance = 0
+    /** Totals over the match, purchases and refunds included. */
+    earned = 0
+    spent = 0
+
+    canAfford(price: number): boolean {
+        return this.balance >= price
+    }
+}
@@ -0,0 +1,126 @@
+import { CoreObject_AObject } from './Object/AObject'
+import { CorePlayer_APlayer } from './Player/APlayer'
+
+/**
+ * Core_ErrorBoundary
+ *
+ * Keeps one failing listener or hook from aborting a whole engine event.
+ * Owned by Core_AGameMode (gameMode.errors) and used by:
+ *
+ * - every _internal route (guardRouter),
+ * - the game mode bus, APlayer.emit and logical object emit loops
+ *   (callListener),
+ * - protected hooks, scheduler callbacks and task failures (run / report).
+ *
+ * Failures are logged with the event name and the id of the player or object
+ * involved. Set reportToEngine to also forward them through
+ * mod.SendErrorReport. A listener that fails maxListenerFailures times is
+ * disabled for the rest of the match.
+ */
+export class Core_ErrorBoundary {
+    /** Failures after which a listener stops receiving events. */
+    maxListenerFailures = 5
+    /** Also send failures through mod.SendErrorReport. */
+    reportToEngine = false
+
+    private failures = new WeakMap<object, number>()
+    private disabled = new WeakSet<object>()
+
+    isDisabled(listener: object): boolean {
+        return this.disabled.has(listener)
+    }
+
+    /** Re-enables a listener and clears its failure counter. */
+    enable(listener: object): void {
+        this.disabled.delete(listener)
+        this.failures.delete(listener)
+    }
+
+    /** Runs fn; a thrown error is reported. Returns false if fn threw. */
+    run(event: string, subject: unknown, fn: () => void): boolean {
+        try {
+            fn()
+            return true
+        } catch (error) {
+            this.report(event, subject, error)
+            return false
+        }
+    }
+
+    /**
+     * Calls listener[event](...args) if present. Failures are reported and
+     * counted; the listener is disabled once it reaches maxListenerFailures.
+     */
+    callListener(
+        listener: object,
+        event: PropertyKey,
+        subject: unknown,
+        args: unknown[]
+    ): void {
+        if (this.disabled.has(listener)) return
+
+        const fn = (listener as Record<PropertyKey, unknown>)[event]
+        if (typeof fn !== 'function') return
+
+        try {
+            fn.apply(listener, args)
+        } catch (error) {
+            this.report(String(event), subject, error)
+
+            const count = (this.failures.get(listener) ?? 0) + 1
+            this.failures.set(listener, count)
+
+            if (count >= this.maxListenerFailures) {
+                this.disabled.add(listener)
+                console.log(
+                    `Listener disabled after ${count} failures (last in ${String(event)})`
+                )
+            }
+        }
+    }
+
+    /** Wraps every function of a router object in its own boundary. */
+    guardRouter<T extends object>(routes: T): T {
+        const guarded: Record<string, unknown> = {}
+
+        for (const [name, route] of Object.entries(routes)) {
+            const fn = route as (...args: unknown[]) => void
+            guarded[name] = (...args: unknown[]): void => {
+                this.run(name, args[0], () => fn(...args))
+            }
+        }
+        return guarded as T
+    }
+
+    report(event: string, subject: unknown, error: unknown): void {
+        const id = this.describe(subject)
+        const where = id === undefined ? event : `${event} (id ${id})`
+
+        console.log(`Error in ${where}: ${String(error)}`)
+
+        if (this.reportToEngine) {
+            mod.SendErrorReport(
+                mod.Message('core.error.route', event, id ?? -1)
+            )
+        }
+    }
+
+    /** Player / object id, the raw number for OnPlayerLeaveGame, or undefined. */
+    private describe(subject: unknown): number | undefined {
+        if (typeof subject === 'number') return subject
+        if (subject === null || typeof subject !== 'object') return undefined
+
+        // Logical players / objects carry the engine handle
+        if (subject instanceof CorePlayer_APlayer) {
+            subject = subject.player
+        } else if (subject instanceof CoreObject_AObject) {
+            return subject.id
+        }
+
+        try {
+            return mod.GetObjId(subject as mod.Object)
+        } catch {
+            return undefined
+        }
+    }
+}
@@ -0,0 +1,28 @@
+import { CorePlayer_IGameModeEvents } from './IGameModeEvents'
+
+/**
+ * Core_EventHandlers
+ *
+ * The engine event surface, taken straight from mod.EventHandlerSignatures in
+ * SDK/mod/index.d.ts. Core_AGameMode._internal is checked against it in the
+ * build, and the main.ts exports in test/Main_EventForwarders.ts (part of
+ * `npm test`), so after `npm run update-sdk`:
+ *
+ * - a new engine event fails until it is forwarded in main.ts, routed in
+ *   _internal and declared on CorePlayer_IGameModeEvents;
+ * - a changed event signature fails at the stale forwarder.
+ */
+export type Core_EventHandlers = typeof mod.EventHandlerSignatures
+
+export type Core_EventName = keyof Core_EventHandlers
+
+/** Resolves to T; fails to compile if T does not implement every event. */
+export type Core_ImplementsEventHandlers<T extends Core_EventHandlers> = T
+
+/** Resolves to T; fails to compile (naming the offenders) unless T is never. */
+export type Core_AssertNoMissingEvents<T extends never> = T
+
+// Every engine event must be broadcast on the game mode bus
+export type Core_GameModeBusCoversEvents = Core_AssertNoMissingEvents<
+    Exclude<Core_EventName, keyof CorePlayer_IGameModeEvents>
+>
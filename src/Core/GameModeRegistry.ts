@@ -0,0 +1,82 @@
+import { Core_AGameMode } from './AGameMode'
+
+export interface Core_IGameModeEntry {
+    /** Unique id, also used by the per-build override. */
+    id: string
+    create: () => Core_AGameMode
+    /** All predicates must pass for the mode to be selected. */
+    when?: (() => boolean)[]
+    /** Higher priority wins when several modes match. Defaults to 0. */
+    priority?: number
+    /** Used when no other mode matches. */
+    isDefault?: boolean
+}
+
+/**
+ * Core_GameModeRegistry
+ *
+ * Lets one repository ship several game modes. main.ts registers every mode
+ * the build ships and constructs the one that matches the running
+ * experience:
+ *
+ *     Core_GameModeRegistry.register({
+ *         id: 'tdm',
+ *         create: () => new TDM_GameMode(),
+ *         when: [Core_GameModeRegistry.onMap(mod.Maps.Abbasid)],
+ *     })
+ *
+ * Selection order:
+ *   1. The per-build override id (BuildConfig.gameModeOverride), if set.
+ *   2. The highest priority non-default mode whose predicates all pass.
+ *   3. The default mode, or the first registered mode.
+ */
+export class Core_GameModeRegistry {
+    private static entries: Core_IGameModeEntry[] = []
+
+    static register(entry: Core_IGameModeEntry): void {
+        if (this.entries.some((e) => e.id === entry.id)) {
+            console.log(`Game mode "${entry.id}" is already registered`)
+            return
+        }
+        this.entries.push(entry)
+    }
+
+    static all(): Core_IGameModeEntry[] {
+        return [...this.entries]
+    }
+
+    /** Predicate: the current map is one of the given maps. */
+    static onMap(...maps: mod.Maps[]): () => boolean {
+        return () => maps.some((map) => mod.IsCurrentMap(map))
+    }
+
+    static select(overrideId?: string): Core_IGameModeEntry {
+        if (overrideId !== undefined) {
+            const forced = this.entries.find((e) => e.id === overrideId)
+            if (forced) return forced
+            console.log(`Game mode override "${overrideId}" is not registered`)
+        }
+
+        let best: Core_IGameModeEntry | undefined
+        for (const entry of this.entries) {
+            if (entry.isDefault) continue
+            if (!(entry.when ?? []).every((predicate) => predicate())) continue
+            if (!best || (entry.priority ?? 0) > (best.priority ?? 0)) {
+                best = entry
+            }
+        }
+
+        const selected =
+            best ?? this.entries.find((e) => e.isDefault) ?? this.entries[0]
+        if (!selected) {
+            throw new Error('No game mode registered')
+        }
+        return selected
+    }
+
+    static create(overrideId?: string): Core_AGameMode {
+        const entry = this.select(overrideId)
+        console.log(`Selected game mode "${entry.id}"`)
+        return entry.create()
+    }
+}
@@ -0,0 +1,18 @@
+import { CoreObject_AObject } from '../Object/AObject'
+import { CoreHQ_IHQEvents } from './IHQEvents'
+
+/**
+ * CoreHQ_AHQ
+ *
+ * Logical wrapper around mod.HQ. The engine only reports OngoingHQ for
+ * headquarters, so this mostly serves as a stable home for per-HQ data.
+ */
+
+export abstract class CoreHQ_AHQ extends CoreObject_AObject<
+    mod.HQ,
+    CoreHQ_IHQEvents
+> {
+    get hq(): mod.HQ {
+        return this.object
+    }
+}
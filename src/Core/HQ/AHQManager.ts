@@ -0,0 +1,23 @@
+import { CoreObject_AObjectManager } from '../Object/AObjectManager'
+import { CoreHQ_AHQ } from './AHQ'
+
+/**
+ * CoreHQ_AHQManager
+ *
+ * Manages logical headquarters and dispatches HQ events.
+ */
+
+export abstract class CoreHQ_AHQManager extends CoreObject_AObjectManager<
+    mod.HQ,
+    CoreHQ_AHQ
+> {
+    abstract createHQ(hq: mod.HQ): CoreHQ_AHQ
+
+    protected createObject(hq: mod.HQ): CoreHQ_AHQ {
+        return this.createHQ(hq)
+    }
+
+    tick(lhq: CoreHQ_AHQ): void {
+        lhq.emit('OngoingHQ')
+    }
+}
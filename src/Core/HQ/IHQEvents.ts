@@ -0,0 +1,4 @@
+export interface CoreHQ_IHQEvents {
+    // Ongoing tick
+    OngoingHQ?(): void
+}
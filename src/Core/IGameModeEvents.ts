@@ -1,4 +1,232 @@
+import { CoreEconomy_PurchaseResult } from './Economy/BuyMenu'
+import { CorePlayer_APlayer } from './Player/APlayer'
+import { CorePlayer_IDeathCredit } from './Player/DamageLedger'
+import { CorePlayer_ISoldierStateChange } from './Player/SoldierState'
+import { CoreScoring_IDecision } from './Scoring/Scoring'
+
+/**
+ * CorePlayer_IGameModeEvents
+ *
+ * Game-mode-level event bus. Every engine event routed through
+ * Core_AGameMode._internal is broadcast to gameMode listeners with the same
+ * arguments as the matching protected hook, so mod.Player is already
+ * resolved into CorePlayer_APlayer.
+ *
+ * Listeners run after the player (and object) managers have processed the
+ * event and before the protected hook.
+ */
 export interface CorePlayer_IGameModeEvents {
-    // Lifecycle
+    // Ongoing
     OngoingGlobal?(): void
+    OngoingAreaTrigger?(eventAreaTrigger: mod.AreaTrigger): void
+    OngoingCapturePoint?(eventCapturePoint: mod.CapturePoint): void
+    OngoingEmplacementSpawner?(
+        eventEmplacementSpawner: mod.EmplacementSpawner
+    ): void
+    OngoingHQ?(eventHQ: mod.HQ): void
+    OngoingInteractPoint?(eventInteractPoint: mod.InteractPoint): void
+    OngoingLootSpawner?(eventLootSpawner: mod.LootSpawner): void
+    OngoingMCOM?(eventMCOM: mod.MCOM): void
+    OngoingPlayer?(lp: CorePlayer_APlayer): void
+    OngoingRingOfFire?(eventRingOfFire: mod.RingOfFire): void
+    OngoingSector?(eventSector: mod.Sector): void
+    OngoingSpawner?(eventSpawner: mod.Spawner): void
+    OngoingSpawnPoint?(eventSpawnPoint: mod.SpawnPoint): void
+    OngoingTeam?(eventTeam: mod.Team): void
+    OngoingVehicle?(eventVehicle: mod.Vehicle): void
+    OngoingVehicleSpawner?(eventVehicleSpawner: mod.VehicleSpawner): void
+    OngoingWaypointPath?(eventWaypointPath: mod.WaypointPath): void
+    OngoingWorldIcon?(eventWorldIcon: mod.WorldIcon): void
+
+    // AI movement and waypoint events
+    OnAIMoveToFailed?(lp: CorePlayer_APlayer): void
+    OnAIMoveToRunning?(lp: CorePlayer_APlayer): void
+    OnAIMoveToSucceeded?(lp: CorePlayer_APlayer): void
+    OnAIParachuteRunning?(lp: CorePlayer_APlayer): void
+    OnAIParachuteSucceeded?(lp: CorePlayer_APlayer): void
+    OnAIWaypointIdleFailed?(lp: CorePlayer_APlayer): void
+    OnAIWaypointIdleRunning?(lp: CorePlayer_APlayer): void
+    OnAIWaypointIdleSucceeded?(lp: CorePlayer_APlayer): void
+
+    // CapturePoint events
+    OnCapturePointCaptured?(eventCapturePoint: mod.CapturePoint): void
+    OnCapturePointCapturing?(eventCapturePoint: mod.CapturePoint): void
+    OnCapturePointLost?(eventCapturePoint: mod.CapturePoint): void
+
+    // Game mode lifecycle
+    OnGameModeEnding?(): void
+    OnGameModeStarted?(): void
+    OnPhaseChanged?(phase: string, previousPhase: string | undefined): void
+
+    // Match result (gameMode.scoring)
+    OnMatchDecided?(decision: CoreScoring_IDecision): void
+    OnOvertime?(suddenDeath: boolean): void
+
+    // Rounds (Core_ARoundGameMode only)
+    OnRoundStarted?(round: number): void
+    OnRoundEnded?(round: number, winner: mod.Team | undefined): void
+    OnHalfTime?(): void
+
+    // Player state events
+    OnMandown?(
+        lp: CorePlayer_APlayer,
+        eventOtherPlayer: CorePlayer_APlayer | undefined
+    ): void
+    OnPlayerDamaged?(
+        lp: CorePlayer_APlayer,
+        eventOtherPlayer: CorePlayer_APlayer | undefined,
+        eventDamageType: mod.DamageType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void
+    OnPlayerDeployed?(lp: CorePlayer_APlayer): void
+    OnPlayerDied?(
+        lp: CorePlayer_APlayer,
+        eventOtherPlayer: CorePlayer_APlayer | undefined,
+        eventDeathType: mod.DeathType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void
+    OnPlayerEarnedKill?(
+        lp: CorePlayer_APlayer,
+        eventOtherPlayer: CorePlayer_APlayer | undefined,
+        eventDeathType: mod.DeathType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void
+    OnPlayerEarnedKillAssist?(
+        lp: CorePlayer_APlayer,
+        eventOtherPlayer: CorePlayer_APlayer | undefined
+    ): void
+    OnRevived?(
+        lp: CorePlayer_APlayer,
+        eventOtherPlayer: CorePlayer_APlayer | undefined
+    ): void
+    OnSoldierStateChanged?(
+        lp: CorePlayer_APlayer,
+        change: CorePlayer_ISoldierStateChange
+    ): void
+    // Fired before OnPlayerDied with the damage ledger's credit
+    OnDeathCredit?(
+        lp: CorePlayer_APlayer,
+        credit: CorePlayer_IDeathCredit
+    ): void
+
+    // Derived combat events (CorePlayer_CombatEvents); lp is the killer,
+    // except for OnStreakEnded and OnSuicide where it is the victim
+    OnKillStreak?(lp: CorePlayer_APlayer, streak: number): void
+    OnStreakEnded?(
+        lp: CorePlayer_APlayer,
+        streak: number,
+        endedBy: CorePlayer_APlayer | undefined
+    ): void
+    OnMultiKill?(lp: CorePlayer_APlayer, count: number): void
+    OnRevengeKill?(lp: CorePlayer_APlayer, victim: CorePlayer_APlayer): void
+    OnFirstBlood?(lp: CorePlayer_APlayer, victim: CorePlayer_APlayer): void
+    OnTeamKill?(lp: CorePlayer_APlayer, victim: CorePlayer_APlayer): void
+    OnSuicide?(lp: CorePlayer_APlayer): void
+
+    // Economy (gameMode.economy, CoreEconomy_BuyMenu)
+    OnMoneyChanged?(
+        lp: CorePlayer_APlayer,
+        balance: number,
+        delta: number,
+        reason: string
+    ): void
+    OnPurchase?(
+        lp: CorePlayer_APlayer,
+        itemId: string,
+        result: CoreEconomy_PurchaseResult
+    ): void
+
+    // Abilities (gameMode.abilities)
+    OnAbilityActivated?(lp: CorePlayer_APlayer, abilityId: string): void
+    OnAbilityEnded?(lp: CorePlayer_APlayer, abilityId: string): void
+    // A used charge came back
+    OnAbilityReady?(lp: CorePlayer_APlayer, abilityId: string): void
+
+    // Respawn (gameMode.respawn)
+    // The wait is over and the player may deploy
+    OnRespawnReady?(lp: CorePlayer_APlayer): void
+    // The player (or their team) has no lives left
+    OnOutOfLives?(lp: CorePlayer_APlayer): void
+
+    // MCOM events
+    OnMCOMArmed?(eventMCOM: mod.MCOM): void
+    OnMCOMDefused?(eventMCOM: mod.MCOM): void
+    OnMCOMDestroyed?(eventMCOM: mod.MCOM): void
+
+    // Interaction and triggers
+    OnPlayerInteract?(
+        lp: CorePlayer_APlayer,
+        eventInteractPoint: mod.InteractPoint
+    ): void
+    OnPlayerEnterAreaTrigger?(
+        lp: CorePlayer_APlayer,
+        eventAreaTrigger: mod.AreaTrigger
+    ): void
+    OnPlayerExitAreaTrigger?(
+        lp: CorePlayer_APlayer,
+        eventAreaTrigger: mod.AreaTrigger
+    ): void
+    OnPlayerEnterCapturePoint?(
+        lp: CorePlayer_APlayer,
+        eventCapturePoint: mod.CapturePoint
+    ): void
+    OnPlayerExitCapturePoint?(
+        lp: CorePlayer_APlayer,
+        eventCapturePoint: mod.CapturePoint
+    ): void
+
+    // Vehicle events
+    OnPlayerEnterVehicle?(
+        lp: CorePlayer_APlayer,
+        eventVehicle: mod.Vehicle
+    ): void
+    OnPlayerExitVehicle?(
+        lp: CorePlayer_APlayer,
+        eventVehicle: mod.Vehicle
+    ): void
+    OnPlayerEnterVehicleSeat?(
+        lp: CorePlayer_APlayer,
+        eventVehicle: mod.Vehicle,
+        eventSeat: mod.Object
+    ): void
+    OnPlayerExitVehicleSeat?(
+        lp: CorePlayer_APlayer,
+        eventVehicle: mod.Vehicle,
+        eventSeat: mod.Object
+    ): void
+
+    // Player join/leave
+    OnPlayerJoinGame?(lp: CorePlayer_APlayer): void
+    OnPlayerLeaveGame?(lp: CorePlayer_APlayer): void
+
+    // Team / UI
+    OnPlayerSwitchTeam?(lp: CorePlayer_APlayer, eventTeam: mod.Team): void
+    OnPlayerUIButtonEvent?(
+        lp: CorePlayer_APlayer,
+        eventUIWidget: mod.UIWidget,
+        eventUIButtonEvent: mod.UIButtonEvent
+    ): void
+
+    // Undeploy
+    OnPlayerUndeploy?(lp: CorePlayer_APlayer): void
+
+    // Raycast
+    OnRayCastHit?(
+        lp: CorePlayer_APlayer,
+        eventPoint: mod.Vector,
+        eventNormal: mod.Vector
+    ): void
+    OnRayCastMissed?(lp: CorePlayer_APlayer): void
+
+    // Spawner
+    OnSpawnerSpawned?(lp: CorePlayer_APlayer, eventSpawner: mod.Spawner): void
+
+    // Ring of fire / time limit / vehicles
+    OnRingOfFireZoneSizeChange?(
+        eventRingOfFire: mod.RingOfFire,
+        eventNumber: number
+    ): void
+    OnTimeLimitReached?(): void
+    OnVehicleDestroyed?(eventVehicle: mod.Vehicle): void
+    OnVehicleSpawned?(eventVehicle: mod.Vehicle): void
 }
@@ -0,0 +1,61 @@
+/**
+ * Loadouts reference SDK enum members by name, so they can be checked
+ * against the running SDK at startup (CoreLoadout_LoadoutManager.validate)
+ * instead of silently equipping undefined.
+ */
+export type CoreLoadout_WeaponName = keyof typeof mod.Weapons
+export type CoreLoadout_AttachmentName = keyof typeof mod.WeaponAttachments
+export type CoreLoadout_GadgetName = keyof typeof mod.Gadgets
+export type CoreLoadout_ArmorName = keyof typeof mod.ArmorTypes
+export type CoreLoadout_ClassName = keyof typeof mod.SoldierClass
+
+export interface CoreLoadout_IWeapon {
+    weapon: CoreLoadout_WeaponName
+    /** Built into a weapon package with AddAttachmentToWeaponPackage. */
+    attachments?: CoreLoadout_AttachmentName[]
+    /** Reserve ammo (SetInventoryAmmo). */
+    ammo?: number
+    /** Loaded magazine (SetInventoryMagazineAmmo). */
+    magazineAmmo?: number
+}
+
+/**
+ * One loadout. Every field is optional: unset fields keep whatever the
+ * soldier has, so a team loadout can set weapons while a class loadout only
+ * sets gadgets.
+ */
+export interface CoreLoadout_ILoadout {
+    primary?: CoreLoadout_IWeapon
+    secondary?: CoreLoadout_IWeapon
+    /** GadgetOne and GadgetTwo, in that order. */
+    gadgets?: CoreLoadout_GadgetName[]
+    throwable?: CoreLoadout_GadgetName
+    /** A Melee_* gadget. */
+    melee?: CoreLoadout_GadgetName
+    armor?: CoreLoadout_ArmorName
+}
+
+/** Every enum member a loadout references, as [enum, member] pairs. */
+export function CoreLoadout_references(
+    loadout: CoreLoadout_ILoadout
+): [string, string][] {
+    const refs: [string, string][] = []
+
+    for (const weapon of [loadout.primary, loadout.secondary]) {
+        if (!weapon) continue
+        refs.push(['Weapons', weapon.weapon])
+        for (const attachment of weapon.attachments ?? []) {
+            refs.push(['WeaponAttachments', attachment])
+        }
+    }
+    for (const gadget of [
+        ...(loadout.gadgets ?? []),
+        loadout.throwable,
+        loadout.melee,
+    ]) {
+        if (gadget) refs.push(['Gadgets', gadget])
+    }
+    if (loadout.armor) refs.push(['ArmorTypes', loadout.armor])
+
+    return refs
+}
@@ -0,0 +1,298 @@
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import {
+    CoreLoadout_ClassName,
+    CoreLoadout_ILoadout,
+    CoreLoadout_IWeapon,
+    CoreLoadout_references,
+} from './Loadout'
+
+/**
+ * CoreLoadout_LoadoutManager
+ *
+ * Declarative loadouts owned by Core_AGameMode (gameMode.loadouts) and
+ * applied in the OnPlayerDeployed route, before any deploy listener runs.
+ * Loadouts are layered default < team < soldier class < player; each layer
+ * only overrides the fields it sets:
+ *
+ *     this.loadouts.setDefault({ melee: 'Melee_Combat_Knife' })
+ *     this.loadouts.setForTeam(1, {
+ *         primary: {
+ *             weapon: 'AssaultRifle_M433',
+ *             attachments: ['Ammo_FMJ'],
+ *         },
+ *     })
+ *     this.loadouts.setForClass('Support', { gadgets: ['Class_Supply_Bag'] })
+ *
+ * Register loadouts in OnGameModeStarted; they are validated against the
+ * running SDK right after that hook, and on registration afterwards.
+ * Missing members are logged and skipped when equipping.
+ *
+ * equip(lp, loadout) swaps equipment mid-life without waiting for a deploy;
+ * revert(lp, loadout) undoes such a swap.
+ */
+export class CoreLoadout_LoadoutManager {
+    private defaultLoadout: CoreLoadout_ILoadout | undefined
+    private byTeam = new Map<number, CoreLoadout_ILoadout>()
+    private byClass = new Map<CoreLoadout_ClassName, CoreLoadout_ILoadout>()
+    private byPlayer = new Map<CorePlayer_APlayer, CoreLoadout_ILoadout>()
+
+    private validated = false
+
+    setDefault(loadout: CoreLoadout_ILoadout | undefined): void {
+        this.defaultLoadout = loadout
+        this.validateLater(loadout)
+    }
+
+    setForTeam(teamId: number, loadout: CoreLoadout_ILoadout): void {
+        this.byTeam.set(teamId, loadout)
+        this.validateLater(loadout)
+    }
+
+    setForClass(
+        soldierClass: CoreLoadout_ClassName,
+        loadout: CoreLoadout_ILoadout
+    ): void {
+        this.byClass.set(soldierClass, loadout)
+        this.validateLater(loadout)
+    }
+
+    /**
+     * Per-player layer, kept until the player leaves. With equipNow the
+     * loadout is also applied immediately if the player is alive.
+     */
+    setForPlayer(
+        lp: CorePlayer_APlayer,
+        loadout: CoreLoadout_ILoadout | undefined,
+        equipNow = false
+    ): void {
+        if (loadout) {
+            this.byPlayer.set(lp, loadout)
+            this.validateLater(loadout)
+        } else {
+            this.byPlayer.delete(lp)
+        }
+        if (equipNow && lp.isAlive()) this.equip(lp, this.resolve(lp))
+    }
+
+    /** Layers that apply to lp, merged. */
+    resolve(lp: CorePlayer_APlayer): CoreLoadout_ILoadout {
+        const soldierClass = this.soldierClass(lp)
+        return {
+            ...this.defaultLoadout,
+            ...(lp.team && this.byTeam.get(mod.GetObjId(lp.team))),
+            ...(soldierClass && this.byClass.get(soldierClass)),
+            ...this.byPlayer.get(lp),
+        }
+    }
+
+    /** Replaces the slots the loadout sets, right now. */
+    equip(lp: CorePlayer_APlayer, loadout: CoreLoadout_ILoadout): void {
+        const player = lp.player
+
+        if (loadout.primary) {
+            this.equipWeapon(player, loadout.primary, 'PrimaryWeapon')
+        }
+        if (loadout.secondary) {
+            this.equipWeapon(player, loadout.secondary, 'SecondaryWeapon')
+        }
+
+        const gadgetSlots = ['GadgetOne', 'GadgetTwo'] as const
+        loadout.gadgets?.slice(0, 2).forEach((gadget, i) => {
+            this.equipGadget(player, gadget, gadgetSlots[i])
+        })
+        if (loadout.throwable) {
+            this.equipGadget(player, loadout.throwable, 'Throwable')
+        }
+        if (loadout.melee) {
+            this.equipGadget(player, loadout.melee, 'MeleeWeapon')
+        }
+
+        const armor = CoreLoadout_member(mod.ArmorTypes, loadout.armor)
+        if (armor !== undefined) mod.AddEquipment(player, armor)
+    }
+
+    /**
+     * Puts the slots the loadout sets back to what lp's registered loadouts
+     * give, emptying slots they leave unset; undoes a failed equip(). The
+     * engine cannot report what a slot held, so pickups are not restored.
+     */
+    revert(lp: CorePlayer_APlayer, loadout: CoreLoadout_ILoadout): void {
+        const player = lp.player
+        const own = this.resolve(lp)
+        const clear = (slotName: keyof typeof mod.InventorySlots): void =>
+            mod.RemoveEquipment(player, mod.InventorySlots[slotName])
+
+        if (loadout.primary) {
+            if (own.primary) {
+                this.equipWeapon(player, own.primary, 'PrimaryWeapon')
+            } else clear('PrimaryWeapon')
+        }
+        if (loadout.secondary) {
+            if (own.secondary) {
+                this.equipWeapon(player, own.secondary, 'SecondaryWeapon')
+            } else clear('SecondaryWeapon')
+        }
+
+        const gadgetSlots = ['GadgetOne', 'GadgetTwo'] as const
+        loadout.gadgets?.slice(0, 2).forEach((_, i) => {
+            const gadget = own.gadgets?.[i]
+            if (gadget) this.equipGadget(player, gadget, gadgetSlots[i])
+            else clear(gadgetSlots[i])
+        })
+        if (loadout.throwable) {
+            if (own.throwable) {
+                this.equipGadget(player, own.throwable, 'Throwable')
+            } else clear('Throwable')
+        }
+        if (loadout.melee) {
+            if (own.melee) this.equipGadget(player, own.melee, 'MeleeWeapon')
+            else clear('MeleeWeapon')
+        }
+
+        const armor = CoreLoadout_member(mod.ArmorTypes, own.armor)
+        if (loadout.armor && armor !== undefined) {
+            mod.AddEquipment(player, armor)
+        }
+    }
+
+    /** True if lp carries every weapon and gadget the loadout sets. */
+    has(lp: CorePlayer_APlayer, loadout: CoreLoadout_ILoadout): boolean {
+        for (const [enumName, member] of CoreLoadout_references(loadout)) {
+            if (enumName === 'Weapons') {
+                const weapon = CoreLoadout_member(mod.Weapons, member)
+                if (weapon === undefined) return false
+                if (!mod.HasEquipment(lp.player, weapon)) return false
+            } else if (enumName === 'Gadgets') {
+                const gadget = CoreLoadout_member(mod.Gadgets, member)
+                if (gadget === undefined) return false
+                if (!mod.HasEquipment(lp.player, gadget)) return false
+            }
+        }
+        return true
+    }
+
+    /**
+     * Logs every referenced enum member missing from the running SDK.
+     * Returns the missing names as 'Enum.Member'.
+     */
+    validate(): string[] {
+        this.validated = true
+
+        const loadouts = [
+            this.defaultLoadout,
+            ...this.byTeam.values(),
+            ...this.byClass.values(),
+            ...this.byPlayer.values(),
+        ]
+        const missing = new Set<string>()
+        for (const loadout of loadouts) {
+            for (const name of this.missingIn(loadout)) missing.add(name)
+        }
+        return [...missing]
+    }
+
+    /** Logs and returns the members of one loadout missing from the SDK. */
+    missingIn(loadout: CoreLoadout_ILoadout | undefined): string[] {
+        if (!loadout) return []
+
+        const missing: string[] = []
+        for (const [enumName, member] of CoreLoadout_references(loadout)) {
+            const values = (mod as unknown as Record<string, object>)[enumName]
+            if (CoreLoadout_member(values, member) === undefined) {
+                console.log(`Loadout references missing ${enumName}.${member}`)
+                missing.push(`${enumName}.${member}`)
+            }
+        }
+        return missing
+    }
+
+    /* ------------------------------------------------------------
+     * Routes
+     * ------------------------------------------------------------ */
+
+    OnGameModeStarted(): void {
+        this.validate()
+    }
+
+    OnPlayerDeployed(lp: CorePlayer_APlayer): void {
+        this.equip(lp, this.resolve(lp))
+    }
+
+    OnPlayerLeaveGame(lp: CorePlayer_APlayer): void {
+        this.byPlayer.delete(lp)
+    }
+
+    /* ------------------------------------------------------------
+     * Internals
+     * ------------------------------------------------------------ */
+
+    private soldierClass(
+        lp: CorePlayer_APlayer
+    ): CoreLoadout_ClassName | undefined {
+        for (const name of this.byClass.keys()) {
+            const soldierClass = CoreLoadout_member(mod.SoldierClass, name)
+            if (
+                soldierClass !== undefined &&
+                mod.IsSoldierClass(lp.player, soldierClass)
+            ) {
+                return name
+            }
+        }
+        return undefined
+    }
+
+    private equipWeapon(
+        player: mod.Player,
+        loadout: CoreLoadout_IWeapon,
+        slotName: keyof typeof mod.InventorySlots
+    ): void {
+        const weapon = CoreLoadout_member(mod.Weapons, loadout.weapon)
+        if (weapon === undefined) return
+        const slot = mod.InventorySlots[slotName]
+
+        const weaponPackage = mod.CreateNewWeaponPackage()
+        for (const name of loadout.attachments ?? []) {
+            const attachment = CoreLoadout_member(mod.WeaponAttachments, name)
+            if (attachment !== undefined) {
+                mod.AddAttachmentToWeaponPackage(attachment, weaponPackage)
+            }
+        }
+
+        mod.RemoveEquipment(player, slot)
+        mod.AddEquipment(player, weapon, weaponPackage, slot)
+
+        if (loadout.ammo !== undefined) {
+            mod.SetInventoryAmmo(player, slot, loadout.ammo)
+        }
+        if (loadout.magazineAmmo !== undefined) {
+            mod.SetInventoryMagazineAmmo(player, slot, loadout.magazineAmmo)
+        }
+    }
+
+    private equipGadget(
+        player: mod.Player,
+        name: keyof typeof mod.Gadgets,
+        slotName: keyof typeof mod.InventorySlots
+    ): void {
+        const gadget = CoreLoadout_member(mod.Gadgets, name)
+        if (gadget === undefined) return
+        const slot = mod.InventorySlots[slotName]
+
+        mod.RemoveEquipment(player, slot)
+        mod.AddEquipment(player, gadget, slot)
+    }
+
+    private validateLater(loadout: CoreLoadout_ILoadout | undefined): void {
+        // Before startup everything is validated at once
+        if (this.validated) this.missingIn(loadout)
+    }
+}
+
+/** Enum member by name, undefined if the running SDK does not have it. */
+function CoreLoadout_member<E>(
+    values: E,
+    name: string | undefined
+): E[keyof E] | undefined {
+    if (name === undefined) return undefined
+    return (values as Record<string, E[keyof E] | undefined>)[name]
+}
@@ -0,0 +1,19 @@
+import { CoreObject_AObject } from '../Object/AObject'
+import { CoreMCOM_IMCOMEvents } from './IMCOMEvents'
+
+/**
+ * CoreMCOM_AMCOM
+ *
+ * Logical wrapper around mod.MCOM. Subclasses store per-objective data
+ * (arming team, fuse state, etc) and react to events emitted by
+ * CoreMCOM_AMCOMManager.
+ */
+
+export abstract class CoreMCOM_AMCOM extends CoreObject_AObject<
+    mod.MCOM,
+    CoreMCOM_IMCOMEvents
+> {
+    get mcom(): mod.MCOM {
+        return this.object
+    }
+}
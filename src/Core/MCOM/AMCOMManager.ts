@@ -0,0 +1,38 @@
+import { CoreObject_AObjectManager } from '../Object/AObjectManager'
+import { CoreMCOM_AMCOM } from './AMCOM'
+
+/**
+ * CoreMCOM_AMCOMManager
+ *
+ * Manages logical MCOMs and dispatches all MCOM events.
+ *
+ * Lifecycle:
+ *   Engine Event -> GameMode._internal -> MCOMManager -> AMCOM.emit
+ */
+
+export abstract class CoreMCOM_AMCOMManager extends CoreObject_AObjectManager<
+    mod.MCOM,
+    CoreMCOM_AMCOM
+> {
+    abstract createMCOM(mcom: mod.MCOM): CoreMCOM_AMCOM
+
+    protected createObject(mcom: mod.MCOM): CoreMCOM_AMCOM {
+        return this.createMCOM(mcom)
+    }
+
+    tick(lmcom: CoreMCOM_AMCOM): void {
+        lmcom.emit('OngoingMCOM')
+    }
+
+    OnMCOMArmed(lmcom: CoreMCOM_AMCOM): void {
+        lmcom.emit('OnMCOMArmed')
+    }
+
+    OnMCOMDefused(lmcom: CoreMCOM_AMCOM): void {
+        lmcom.emit('OnMCOMDefused')
+    }
+
+    OnMCOMDestroyed(lmcom: CoreMCOM_AMCOM): void {
+        lmcom.emit('OnMCOMDestroyed')
+    }
+}
@@ -0,0 +1,9 @@
+export interface CoreMCOM_IMCOMEvents {
+    // Objective state
+    OnMCOMArmed?(): void
+    OnMCOMDefused?(): void
+    OnMCOMDestroyed?(): void
+
+    // Ongoing tick
+    OngoingMCOM?(): void
+}
@@ -0,0 +1,50 @@
+import { Core_AGameMode } from '../AGameMode'
+
+/**
+ * CoreObject_AObject
+ *
+ * Shared base for logical wrappers around non-player engine objects
+ * (mod.CapturePoint, mod.Vehicle, mod.MCOM, mod.Sector, mod.HQ).
+ *
+ * Like CorePlayer_APlayer, a logical object keeps a stable place to store
+ * gameplay data and owns a per-object listener list. Events are emitted by
+ * the matching object manager; subclasses only subscribe via addListener.
+ *
+ * Concrete wrappers (CoreCapturePoint_ACapturePoint, CoreVehicle_AVehicle,
+ * etc) expose the raw engine handle under a typed name and fix the event
+ * interface.
+ */
+
+export abstract class CoreObject_AObject<
+    TObject extends mod.Object,
+    TEvents extends object,
+> {
+    readonly id: number
+    object: TObject
+    gameMode: Core_AGameMode
+
+    listeners: TEvents[] = []
+
+    constructor(object: TObject, gameMode: Core_AGameMode) {
+        this.object = object
+        this.id = mod.GetObjId(object)
+        this.gameMode = gameMode
+    }
+
+    addListener(listener: TEvents): void {
+        this.listeners.push(listener)
+    }
+
+    removeListener(listener: TEvents): void {
+        this.listeners = this.listeners.filter((l) => l !== listener)
+    }
+
+    emit<E extends keyof TEvents>(
+        event: E,
+        ...args: Parameters<Extract<TEvents[E], (...a: any[]) => void>>
+    ): void {
+        for (const listener of this.listeners) {
+            this.gameMode.errors.callListener(listener, event, this.id, args)
+        }
+    }
+}
@@ -0,0 +1,57 @@
+import { Core_AGameMode } from '../AGameMode'
+import { CoreObject_AObject } from './AObject'
+
+/**
+ * CoreObject_AObjectManager
+ *
+ * Shared base for managers of logical engine objects. Keeps one logical
+ * wrapper per engine object id and creates it the first time the object is
+ * seen by any routed event.
+ *
+ * Lifecycle:
+ *   Engine Event -> GameMode._internal -> ObjectManager -> AObject.emit
+ */
+
+export abstract class CoreObject_AObjectManager<
+    TObject extends mod.Object,
+    TLogical extends CoreObject_AObject<TObject, object>,
+> {
+    protected objects = new Map<number, TLogical>()
+    protected gameMode: Core_AGameMode
+
+    constructor(gameMode: Core_AGameMode) {
+        this.gameMode = gameMode
+    }
+
+    protected abstract createObject(object: TObject): TLogical
+
+    /** Returns the logical object, creating it on first sight. */
+    get(object: TObject): TLogical {
+        const id = mod.GetObjId(object)
+        let lo = this.objects.get(id)
+
+        if (!lo) {
+            lo = this.createObject(object)
+            this.objects.set(id, lo)
+        }
+        return lo
+    }
+
+    getById(id: number): TLogical | undefined {
+        return this.objects.get(id)
+    }
+
+    all(): TLogical[] {
+        return [...this.objects.values()]
+    }
+
+    remove(id: number): void {
+        const lo = this.objects.get(id)
+
+        if (lo) {
+            lo.listeners = []
+        }
+
+        this.objects.delete(id)
+    }
+}
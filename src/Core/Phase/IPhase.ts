@@ -0,0 +1,47 @@
+import { CorePlayer_IGameModeEvents } from '../IGameModeEvents'
+import { CorePlayer_IPlayerEvents } from '../Player/IPlayerEvents'
+
+/** Suggested ids for the usual match phases. Any string id works. */
+export const CorePhase_Ids = {
+    Warmup: 'warmup',
+    PreRound: 'preround',
+    Live: 'live',
+    Overtime: 'overtime',
+    PostRound: 'postround',
+} as const
+
+export type CorePhase_EventName =
+    keyof CorePlayer_IGameModeEvents | keyof CorePlayer_IPlayerEvents
+
+/**
+ * CorePhase_IPhase
+ *
+ * Declarative match phase registered on Core_AGameMode.phases.
+ *
+ * - onEnter / onExit / onTick run on transitions and every OngoingGlobal.
+ * - canEnter / canExit are transition guards; returning false vetoes a
+ *   transition(). Forced transitions skip them.
+ * - duration + next turn the phase into a countdown that transitions on its
+ *   own (pre-round countdown, post-round screen, etc).
+ * - blockedEvents are not delivered to the game mode hooks, the game mode
+ *   bus or APlayer listeners while the phase is active. Core bookkeeping
+ *   (player/team managers) still sees them, but while OnPlayerEarnedKill
+ *   is blocked kills, assists and deaths are not counted in stats or combat
+ *   events.
+ */
+export interface CorePhase_IPhase {
+    id: string
+
+    onEnter?(previous: string | undefined): void
+    onExit?(next: string): void
+    onTick?(): void
+
+    canEnter?(from: string | undefined): boolean
+    canExit?(to: string): boolean
+
+    /** Seconds before automatically transitioning to next. */
+    duration?: number
+    next?: string
+
+    blockedEvents?: CorePhase_EventName[]
+}
@@ -0,0 +1,116 @@
+import { CoreScheduler_now } from '../Scheduler/Timer'
+import { CorePhase_EventName, CorePhase_IPhase } from './IPhase'
+
+/**
+ * CorePhase_PhaseMachine
+ *
+ * Match phase state machine owned by Core_AGameMode (gameMode.phases).
+ * Modes define their phases, then enter the first one:
+ *
+ *     this.phases.define({
+ *         id: CorePhase_Ids.Warmup,
+ *         blockedEvents: ['OnPlayerEarnedKill'],
+ *     })
+ *     this.phases.define({
+ *         id: CorePhase_Ids.PreRound,
+ *         duration: 10,
+ *         next: CorePhase_Ids.Live,
+ *     })
+ *     this.phases.define({ id: CorePhase_Ids.Live })
+ *
+ *     this.phases.transition(CorePhase_Ids.Warmup)
+ *
+ * With no phase active every event is allowed.
+ */
+export class CorePhase_PhaseMachine {
+    private phases = new Map<string, CorePhase_IPhase>()
+    private active: CorePhase_IPhase | undefined
+    private enteredAt = 0
+    private transitioning = false
+
+    constructor(
+        private onChanged: (phase: string, previous: string | undefined) => void
+    ) {}
+
+    define(phase: CorePhase_IPhase): void {
+        this.phases.set(phase.id, phase)
+    }
+
+    get(id: string): CorePhase_IPhase | undefined {
+        return this.phases.get(id)
+    }
+
+    /** Id of the active phase, or undefined before the first transition. */
+    get current(): string | undefined {
+        return this.active?.id
+    }
+
+    is(id: string): boolean {
+        return this.active?.id === id
+    }
+
+    /** Seconds spent in the active phase. */
+    elapsed(): number {
+        if (!this.active) return 0
+        return CoreScheduler_now('real') - this.enteredAt
+    }
+
+    /** Seconds left for a phase with a duration, otherwise undefined. */
+    remaining(): number | undefined {
+        if (this.active?.duration === undefined) return undefined
+        return Math.max(0, this.active.duration - this.elapsed())
+    }
+
+    /**
+     * Moves to the given phase. Returns false if the phase is unknown, a
+     * transition is already running, or a guard vetoed it (unless forced).
+     */
+    transition(to: string, force = false): boolean {
+        const next = this.phases.get(to)
+        if (!next || this.transitioning) return false
+
+        const previous = this.active
+        if (!force) {
+            if (previous?.canExit && !previous.canExit(to)) return false
+            if (next.canEnter && !next.canEnter(previous?.id)) return false
+        }
+
+        this.transitioning = true
+        try {
+            previous?.onExit?.(to)
+
+            this.active = next
+            this.enteredAt = CoreScheduler_now('real')
+
+            next.onEnter?.(previous?.id)
+        } finally {
+            this.transitioning = false
+        }
+
+        this.onChanged(next.id, previous?.id)
+        return true
+    }
+
+    /** False if the active phase blocks the event. */
+    allows(event: CorePhase_EventName): boolean {
+        const blocked = this.active?.blockedEvents
+        return !blocked || !blocked.includes(event)
+    }
+
+    /** Called by Core_AGameMode on every OngoingGlobal. */
+    tick(): void {
+        const phase = this.active
+        if (!phase) return
+
+        phase.onTick?.()
+
+        if (
+            this.active === phase &&
+            phase.next !== undefined &&
+            phase.duration !== undefined &&
+            this.elapsed() >= phase.duration
+        ) {
+            this.transition(phase.next, true)
+        }
+    }
+}
@@ -1,5 +1,9 @@
+import { CoreAbility_PlayerAbilities } from '../Ability/Ability'
 import { Core_AGameMode } from '../AGameMode'
 import { CorePlayer_IPlayerEvents } from './IPlayerEvents'
+import { CorePlayer_SoldierState } from './SoldierState'
+import { CoreStats_PlayerStats } from '../Stats/Stats'
+import { CoreEconomy_Wallet } from '../Economy/Wallet'
 
 /**
  * CorePlayer_APlayer
@@ -45,6 +49,22 @@ import { CorePlayer_IPlayerEvents } from './IPlayerEvents'
  *         }
  *     }
  *
+ * Tracked state:
+ * --------------
+ * PlayerManager keeps soldierState (notDeployed, alive, mandown, dead,
+ * inVehicle), the current team and vehicle / seat, the time of the last
+ * state change and the last attacker up to date before any listener runs.
+ * Treat these fields as read-only. Every transition fires
+ * OnSoldierStateChanged; unexpected transitions are logged and flagged with
+ * valid = false.
+ *
+ * Managed resources:
+ * ------------------
+ * UI widgets, spawned objects and anything else tied to the player can be
+ * registered with trackUIWidget(), trackObject() or onDispose(). They are
+ * torn down by PlayerManager after the final OnPlayerLeaveGame has been
+ * delivered.
+ *
  * Summary:
  * --------
  * APlayer represents the logical player. It does not emit events; it only
@@ -57,11 +77,44 @@ export abstract class CorePlayer_APlayer {
 
     listeners: CorePlayer_IPlayerEvents[] = []
 
+    /* ---- Tracked state, maintained by PlayerManager ---- */
+    soldierState: CorePlayer_SoldierState = 'notDeployed'
+    /** mod.GetMatchTimeElapsed() of the last soldierState change. */
+    stateChangedAt = 0
+    team: mod.Team | undefined
+    vehicle: mod.Vehicle | undefined
+    seat: mod.Object | undefined
+    /** Last other player that damaged, downed or killed this player. */
+    lastAttacker: CorePlayer_APlayer | undefined
+
+    /** Match statistics, fed by gameMode.stats. */
+    stats = new CoreStats_PlayerStats()
+    /** In-match money, changed through gameMode.economy. */
+    wallet = new CoreEconomy_Wallet()
+    /** Abilities, perks and modifiers, maintained by gameMode.abilities. */
+    abilities = new CoreAbility_PlayerAbilities()
+
+    private disposers: (() => void)[] = []
+
     constructor(player: mod.Player, gameMode: Core_AGameMode) {
         this.player = player
         this.gameMode = gameMode
     }
 
+    /** Alive on foot or in a vehicle. */
+    isAlive(): boolean {
+        return (
+            this.soldierState === 'alive' || this.soldierState === 'inVehicle'
+        )
+    }
+
+    /** On the battlefield: alive, mandown or in a vehicle. */
+    isDeployed(): boolean {
+        return (
+            this.soldierState !== 'notDeployed' && this.soldierState !== 'dead'
+        )
+    }
+
     addListener(listener: CorePlayer_IPlayerEvents): void {
         this.listeners.push(listener)
     }
@@ -70,15 +123,57 @@ export abstract class CorePlayer_APlayer {
         this.listeners = this.listeners.filter((l) => l !== listener)
     }
 
+    /**
+     * Called by Core_ARoundGameMode before every round. Override to reset
+     * per-round fields (alive flag, money, round kills, etc).
+     */
+    resetRoundState(round: number): void {}
+
+    /** Registers cleanup that runs once when the player leaves the game. */
+    onDispose(disposer: () => void): void {
+        this.disposers.push(disposer)
+    }
+
+    /** Deletes the widget when the player leaves. Returns the widget. */
+    trackUIWidget(widget: mod.UIWidget): mod.UIWidget {
+        this.onDispose(() => mod.DeleteUIWidget(widget))
+        return widget
+    }
+
+    /** Unspawns the object when the player leaves. Returns the object. */
+    trackObject<T extends mod.Object>(object: T): T {
+        this.onDispose(() => mod.UnspawnObject(object))
+        return object
+    }
+
+    /**
+     * Runs all registered disposers (last registered first) and drops every
+     * listener. Called by PlayerManager; game code should not call it.
+     */
+    dispose(): void {
+        const disposers = this.disposers
+        this.disposers = []
+
+        for (let i = disposers.length - 1; i >= 0; i--) {
+            disposers[i]()
+        }
+
+        this.listeners = []
+    }
+
     emit<E extends keyof CorePlayer_IPlayerEvents>(
         event: E,
         ...args: Parameters<NonNullable<CorePlayer_IPlayerEvents[E]>>
     ): void {
+        if (!this.gameMode.phases.allows(event)) return
+
         for (const listener of this.listeners) {
-            const fn = listener[event]
-            if (typeof fn === 'function') {
-                ;(fn as (...a: any[]) => void)(...args)
-            }
+            this.gameMode.errors.callListener(
+                listener,
+                event,
+                this.player,
+                args
+            )
         }
     }
 }
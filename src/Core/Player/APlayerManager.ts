@@ -1,5 +1,12 @@
 import { CorePlayer_APlayer } from './APlayer'
 import { Core_AGameMode } from '../AGameMode'
+import { CorePlayer_CombatEvents } from './CombatEvents'
+import { CorePlayer_DamageLedger } from './DamageLedger'
+import {
+    CorePlayer_isValidTransition,
+    CorePlayer_ISoldierStateChange,
+    CorePlayer_SoldierState,
+} from './SoldierState'
 
 /**
  * CorePlayer_APlayerManager
@@ -11,14 +18,36 @@ import { Core_AGameMode } from '../AGameMode'
  *   Engine Event -> GameMode._internal -> PlayerManager -> APlayer.emit
  *
  * APlayer subclasses never call emit; they only subscribe to events.
+ *
+ * State tracking:
+ *   Deploy, death, mandown, revive, vehicle and team events update the
+ *   tracked state on APlayer (soldierState, team, vehicle, seat,
+ *   lastAttacker) and fire OnSoldierStateChanged, on the player and on the
+ *   game mode bus, before the engine event itself is emitted.
+ *
+ * Damage ledger:
+ *   The game mode records each hit in damageLedger before the stats and
+ *   OnPlayerDamaged run; tick() keeps the ledger's health up to date for
+ *   healing. OnPlayerDied works out the death credit (finisher, most
+ *   damage, assists, shares) and fires OnDeathCredit on the victim and on
+ *   the game mode bus, before OnPlayerDied. Tune damageLedger.window /
+ *   assistWindow per mode.
+ *
+ * Combat events:
+ *   Kill / death routes feed combatEvents, which fires streak, multi-kill,
+ *   revenge, first blood, team kill and suicide events, see
+ *   CorePlayer_CombatEvents.
  */
 
 export abstract class CorePlayer_APlayerManager {
     protected players = new Map<number, CorePlayer_APlayer>()
     protected gameMode: Core_AGameMode
+    readonly damageLedger = new CorePlayer_DamageLedger()
+    readonly combatEvents: CorePlayer_CombatEvents
 
     constructor(gameMode: Core_AGameMode) {
         this.gameMode = gameMode
+        this.combatEvents = new CorePlayer_CombatEvents(gameMode)
     }
 
     abstract createPlayer(player: mod.Player): CorePlayer_APlayer
@@ -29,6 +58,12 @@ export abstract class CorePlayer_APlayerManager {
 
         if (!lp) {
             lp = this.createPlayer(player)
+            lp.team = mod.GetTeam(player)
+            // Players already on the battlefield (e.g. after a script reload)
+            if (mod.GetSoldierState(player, mod.SoldierStateBool.IsAlive)) {
+                lp.soldierState = 'alive'
+                lp.stateChangedAt = mod.GetMatchTimeElapsed()
+            }
             this.players.set(id, lp)
 
             // Notify other players that someone joined
@@ -41,14 +76,20 @@ export abstract class CorePlayer_APlayerManager {
         return lp
     }
 
+    /**
+     * Final teardown of a player that left: forgets the player and disposes
+     * its managed resources. Runs after OnPlayerLeaveGame has been emitted.
+     */
     removePlayer(playerId: number): void {
         const lp = this.players.get(playerId)
 
+        this.players.delete(playerId)
+
         if (lp) {
-            lp.listeners = []
+            this.damageLedger.forget(lp)
+            this.combatEvents.forget(lp)
+            lp.dispose()
         }
-
-        this.players.delete(playerId)
     }
 
     get(player: mod.Player): CorePlayer_APlayer | undefined {
@@ -71,6 +112,7 @@ export abstract class CorePlayer_APlayerManager {
 
     tick(eventPlayer: mod.Player): void {
         const lp = this.get(eventPlayer)
+        if (lp?.isAlive()) this.damageLedger.sample(lp)
         lp?.emit('OngoingPlayer')
     }
 
@@ -78,7 +120,28 @@ export abstract class CorePlayer_APlayerManager {
      * Lifecycle
      * ------------------------------------------------------------ */
 
+    OnPlayerLeaveGame(lp: CorePlayer_APlayer): void {
+        // Final event for the leaving player itself
+        lp.emit('OnPlayerLeaveGame', lp)
+
+        // Notify remaining players that someone left
+        for (const other of this.players.values()) {
+            if (other !== lp) {
+                other.emit('OnPlayerLeaveGame', lp)
+            }
+        }
+    }
+
+    OnPhaseChanged(phase: string, previousPhase: string | undefined): void {
+        for (const lp of this.players.values()) {
+            lp.emit('OnPhaseChanged', phase, previousPhase)
+        }
+    }
+
     OnPlayerDeployed(lp: CorePlayer_APlayer): void {
+        lp.lastAttacker = undefined
+        this.damageLedger.clear(lp)
+        this.setSoldierState(lp, 'alive')
         lp.emit('OnPlayerDeployed')
     }
 
@@ -88,10 +151,19 @@ export abstract class CorePlayer_APlayerManager {
         eventDeathType: mod.DeathType,
         eventWeaponUnlock: mod.WeaponUnlock
     ): void {
+        this.setAttacker(lp, other)
+        this.setSoldierState(lp, 'dead', { attacker: lp.lastAttacker })
+
+        const credit = this.damageLedger.credit(lp, other)
+        lp.emit('OnDeathCredit', credit)
+        this.gameMode.dispatch('OnDeathCredit', lp, credit)
+        this.combatEvents.OnPlayerDied(lp, other)
+
         lp.emit('OnPlayerDied', other, eventDeathType, eventWeaponUnlock)
     }
 
     OnPlayerUndeploy(lp: CorePlayer_APlayer): void {
+        this.setSoldierState(lp, 'notDeployed')
         lp.emit('OnPlayerUndeploy')
     }
 
@@ -105,6 +177,7 @@ export abstract class CorePlayer_APlayerManager {
         eventDamageType: mod.DamageType,
         eventWeaponUnlock: mod.WeaponUnlock
     ): void {
+        this.setAttacker(lp, other)
         lp.emit('OnPlayerDamaged', other, eventDamageType, eventWeaponUnlock)
     }
 
@@ -114,6 +187,7 @@ export abstract class CorePlayer_APlayerManager {
         eventDeathType: mod.DeathType,
         eventWeaponUnlock: mod.WeaponUnlock
     ): void {
+        this.combatEvents.OnPlayerEarnedKill(lp, other)
         lp.emit('OnPlayerEarnedKill', other, eventDeathType, eventWeaponUnlock)
     }
 
@@ -128,6 +202,8 @@ export abstract class CorePlayer_APlayerManager {
         lp: CorePlayer_APlayer,
         other: CorePlayer_APlayer | undefined
     ): void {
+        this.setAttacker(lp, other)
+        this.setSoldierState(lp, 'mandown', { attacker: lp.lastAttacker })
         lp.emit('OnMandown', other)
     }
 
@@ -135,6 +211,7 @@ export abstract class CorePlayer_APlayerManager {
         lp: CorePlayer_APlayer,
         other: CorePlayer_APlayer | undefined
     ): void {
+        this.setSoldierState(lp, 'alive')
         lp.emit('OnRevived', other)
     }
 
@@ -185,6 +262,13 @@ export abstract class CorePlayer_APlayerManager {
         lp: CorePlayer_APlayer,
         eventVehicle: mod.Vehicle
     ): void {
+        // Usually followed by OnPlayerEnterVehicleSeat, which sets the seat
+        if (
+            lp.soldierState !== 'inVehicle' ||
+            !CorePlayer_sameObject(lp.vehicle, eventVehicle)
+        ) {
+            this.setSoldierState(lp, 'inVehicle', { vehicle: eventVehicle })
+        }
         lp.emit('OnPlayerEnterVehicle', eventVehicle)
     }
 
@@ -192,6 +276,9 @@ export abstract class CorePlayer_APlayerManager {
         lp: CorePlayer_APlayer,
         eventVehicle: mod.Vehicle
     ): void {
+        if (lp.soldierState === 'inVehicle') {
+            this.setSoldierState(lp, 'alive')
+        }
         lp.emit('OnPlayerExitVehicle', eventVehicle)
     }
 
@@ -200,6 +287,10 @@ export abstract class CorePlayer_APlayerManager {
         eventVehicle: mod.Vehicle,
         eventSeat: mod.Object
     ): void {
+        this.setSoldierState(lp, 'inVehicle', {
+            vehicle: eventVehicle,
+            seat: eventSeat,
+        })
         lp.emit('OnPlayerEnterVehicleSeat', eventVehicle, eventSeat)
     }
 
@@ -208,6 +299,8 @@ export abstract class CorePlayer_APlayerManager {
         eventVehicle: mod.Vehicle,
         eventSeat: mod.Object
     ): void {
+        // Seat switches exit one seat and enter the next; stay inVehicle
+        if (CorePlayer_sameObject(lp.seat, eventSeat)) lp.seat = undefined
         lp.emit('OnPlayerExitVehicleSeat', eventVehicle, eventSeat)
     }
 
@@ -216,6 +309,7 @@ export abstract class CorePlayer_APlayerManager {
      * ------------------------------------------------------------ */
 
     OnPlayerSwitchTeam(lp: CorePlayer_APlayer, eventTeam: mod.Team): void {
+        lp.team = eventTeam
         lp.emit('OnPlayerSwitchTeam', eventTeam)
     }
 
@@ -294,4 +388,63 @@ export abstract class CorePlayer_APlayerManager {
     OnAIWaypointIdleSucceeded(lp: CorePlayer_APlayer): void {
         lp.emit('OnAIWaypointIdleSucceeded')
     }
+
+    /* ------------------------------------------------------------
+     * Tracked state
+     * ------------------------------------------------------------ */
+
+    private setAttacker(
+        lp: CorePlayer_APlayer,
+        other: CorePlayer_APlayer | undefined
+    ): void {
+        if (other && other !== lp) lp.lastAttacker = other
+    }
+
+    /**
+     * Applies a soldier state transition and fires OnSoldierStateChanged.
+     * Repeats of the current state are ignored, except seat changes inside a
+     * vehicle. Unexpected transitions are applied anyway and logged.
+     */
+    private setSoldierState(
+        lp: CorePlayer_APlayer,
+        state: CorePlayer_SoldierState,
+        details: Pick<
+            CorePlayer_ISoldierStateChange,
+            'vehicle' | 'seat' | 'attacker'
+        > = {}
+    ): void {
+        const previousState = lp.soldierState
+        if (state === previousState && state !== 'inVehicle') return
+
+        const valid = CorePlayer_isValidTransition(previousState, state)
+        if (!valid) {
+            console.log(
+                `Invalid soldier state transition ${previousState} -> ${state}` +
+                    ` (player ${mod.GetObjId(lp.player)})`
+            )
+        }
+
+        lp.soldierState = state
+        lp.stateChangedAt = mod.GetMatchTimeElapsed()
+        lp.vehicle = state === 'inVehicle' ? details.vehicle : undefined
+        lp.seat = state === 'inVehicle' ? details.seat : undefined
+
+        const change: CorePlayer_ISoldierStateChange = {
+            state,
+            previousState,
+            time: lp.stateChangedAt,
+            valid,
+            ...details,
+        }
+        lp.emit('OnSoldierStateChanged', change)
+        this.gameMode.dispatch('OnSoldierStateChanged', lp, change)
+    }
+}
+
+/** Handles may be new objects per event; compare by engine id. */
+function CorePlayer_sameObject(
+    a: mod.Object | undefined,
+    b: mod.Object
+): boolean {
+    return a !== undefined && mod.GetObjId(a) === mod.GetObjId(b)
 }
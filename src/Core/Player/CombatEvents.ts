@@ -0,0 +1,124 @@
+import { Core_AGameMode } from '../AGameMode'
+import { CorePlayer_APlayer } from './APlayer'
+
+/**
+ * CorePlayer_CombatEvents
+ *
+ * Derives announcer-level events from the raw kill / death routes so modes
+ * and UI do not rebuild the bookkeeping. Owned by CorePlayer_APlayerManager
+ * (playerManager.combatEvents) and fired on the player and on the game mode
+ * bus, before the engine event that caused them:
+ *
+ *   OnPlayerDied        OnSuicide, OnTeamKill, OnFirstBlood, OnRevengeKill,
+ *                       OnStreakEnded
+ *   OnPlayerEarnedKill  OnKillStreak, OnMultiKill
+ *
+ * Streaks come from lp.stats, which is updated before this runs. Team kills
+ * and suicides never count as first blood, revenge, streak or multi-kill.
+ * Neither do kills in a phase that blocks OnPlayerEarnedKill, e.g. warmup.
+ * Core_ARoundGameMode calls reset() at the start of every round.
+ */
+export class CorePlayer_CombatEvents {
+    /** Streaks below this fire neither OnKillStreak nor OnStreakEnded. */
+    minKillStreak = 2
+    /** Max seconds between two kills of the same multi-kill. */
+    multiKillWindow = 4
+
+    private firstBloodTaken = false
+    /** Victim -> player that killed it last, cleared by revenge. */
+    private killedBy = new Map<CorePlayer_APlayer, CorePlayer_APlayer>()
+    private multiKills = new Map<
+        CorePlayer_APlayer,
+        { count: number; lastKillAt: number }
+    >()
+
+    private gameMode: Core_AGameMode
+
+    constructor(gameMode: Core_AGameMode) {
+        this.gameMode = gameMode
+    }
+
+    /** Re-arms first blood and drops revenge / multi-kill state. */
+    reset(): void {
+        this.firstBloodTaken = false
+        this.killedBy.clear()
+        this.multiKills.clear()
+    }
+
+    /** Drops a player that left. */
+    forget(lp: CorePlayer_APlayer): void {
+        this.killedBy.delete(lp)
+        this.multiKills.delete(lp)
+        for (const [victim, killer] of this.killedBy) {
+            if (killer === lp) this.killedBy.delete(victim)
+        }
+    }
+
+    /* ------------------------------------------------------------
+     * Routes
+     * ------------------------------------------------------------ */
+
+    OnPlayerDied(
+        lp: CorePlayer_APlayer,
+        other: CorePlayer_APlayer | undefined
+    ): void {
+        const endedStreak = lp.stats.endedStreak
+        const killer = other && other !== lp ? other : undefined
+
+        if (!killer) {
+            lp.emit('OnSuicide')
+            this.gameMode.dispatch('OnSuicide', lp)
+        } else if (lp.team && CorePlayer_sameTeam(lp.team, killer.team)) {
+            killer.emit('OnTeamKill', lp)
+            this.gameMode.dispatch('OnTeamKill', killer, lp)
+        } else if (this.gameMode.phases.allows('OnPlayerEarnedKill')) {
+            if (!this.firstBloodTaken) {
+                this.firstBloodTaken = true
+                killer.emit('OnFirstBlood', lp)
+                this.gameMode.dispatch('OnFirstBlood', killer, lp)
+            }
+            if (this.killedBy.get(killer) === lp) {
+                this.killedBy.delete(killer)
+                killer.emit('OnRevengeKill', lp)
+                this.gameMode.dispatch('OnRevengeKill', killer, lp)
+            }
+            this.killedBy.set(lp, killer)
+        }
+
+        if (endedStreak >= this.minKillStreak) {
+            lp.emit('OnStreakEnded', endedStreak, killer)
+            this.gameMode.dispatch('OnStreakEnded', lp, endedStreak, killer)
+        }
+    }
+
+    OnPlayerEarnedKill(
+        lp: CorePlayer_APlayer,
+        other: CorePlayer_APlayer | undefined
+    ): void {
+        if (other === lp) return
+        if (lp.team && CorePlayer_sameTeam(lp.team, other?.team)) return
+        if (!this.gameMode.phases.allows('OnPlayerEarnedKill')) return
+
+        const streak = lp.stats.currentStreak
+        if (streak >= this.minKillStreak) {
+            lp.emit('OnKillStreak', streak)
+            this.gameMode.dispatch('OnKillStreak', lp, streak)
+        }
+
+        const now = mod.GetMatchTimeElapsed()
+        const chain = this.multiKills.get(lp)
+        if (!chain || now - chain.lastKillAt > this.multiKillWindow) {
+            this.multiKills.set(lp, { count: 1, lastKillAt: now })
+            return
+        }
+
+        chain.count++
+        chain.lastKillAt = now
+        lp.emit('OnMultiKill', chain.count)
+        this.gameMode.dispatch('OnMultiKill', lp, chain.count)
+    }
+}
+
+function CorePlayer_sameTeam(a: mod.Team, b: mod.Team | undefined): boolean {
+    return b !== undefined && mod.GetObjId(a) === mod.GetObjId(b)
+}
@@ -0,0 +1,182 @@
+import { CorePlayer_APlayer } from './APlayer'
+
+/** One OnPlayerDamaged event on a victim. */
+export interface CorePlayer_IDamageHit {
+    /** Undefined for world / self damage. */
+    attacker: CorePlayer_APlayer | undefined
+    /** mod.GetMatchTimeElapsed() of the hit. */
+    time: number
+    /** Health the hit took, 0 when it did not lower CurrentHealth. */
+    damage: number
+    damageType: mod.DamageType
+    weapon: mod.WeaponUnlock
+}
+
+/** Contribution of one attacker to a death. */
+export interface CorePlayer_IDamageShare {
+    attacker: CorePlayer_APlayer
+    hits: number
+    damage: number
+    /**
+     * damage / all damage by players in the window, 0..1. Counted in hits
+     * when none of the hits lowered the victim's health.
+     */
+    share: number
+    lastHitAt: number
+}
+
+/** Credit for a death, worked out by CorePlayer_DamageLedger.credit. */
+export interface CorePlayer_IDeathCredit {
+    victim: CorePlayer_APlayer
+    /** The killer, or the most recent attacker for world / self deaths. */
+    finisher: CorePlayer_APlayer | undefined
+    /** Attacker with the largest share (latest hit breaks ties). */
+    mostDamage: CorePlayer_APlayer | undefined
+    /** Other attackers that hit the victim within assistWindow. */
+    assists: CorePlayer_APlayer[]
+    /** Every attacker in the window, largest share first. */
+    shares: CorePlayer_IDamageShare[]
+}
+
+/**
+ * CorePlayer_DamageLedger
+ *
+ * Recent hits on each victim, kept by CorePlayer_APlayerManager from
+ * OnPlayerDamaged. On OnPlayerDied the manager asks for the death credit and
+ * emits it as OnDeathCredit (before OnPlayerDied itself), so modes can award
+ * points for contribution instead of relying only on OnPlayerEarnedKillAssist.
+ *
+ * The engine does not report damage amounts, so each hit is measured as the
+ * drop in the victim's CurrentHealth since the previous hit. Healing in
+ * between is picked up by sample(), which the manager calls every tick. A
+ * victim's hits are cleared when it deploys again.
+ */
+export class CorePlayer_DamageLedger {
+    /** Seconds a hit counts towards the death credit. */
+    window = 15
+    /** Seconds before the death a hit must land to count as an assist. */
+    assistWindow = 10
+
+    private hits = new Map<CorePlayer_APlayer, CorePlayer_IDamageHit[]>()
+    /** Health of each victim after its last hit, raised by healing. */
+    private health = new Map<CorePlayer_APlayer, number>()
+
+    /** Records a hit, measuring its damage from the victim's health. */
+    record(
+        victim: CorePlayer_APlayer,
+        attacker: CorePlayer_APlayer | undefined,
+        damageType: mod.DamageType,
+        weapon: mod.WeaponUnlock
+    ): CorePlayer_IDamageHit {
+        const health = CorePlayer_health(victim)
+        const before =
+            this.health.get(victim) ??
+            mod.GetSoldierState(victim.player, mod.SoldierStateNumber.MaxHealth)
+        this.health.set(victim, health)
+
+        const hit: CorePlayer_IDamageHit = {
+            attacker: attacker === victim ? undefined : attacker,
+            time: mod.GetMatchTimeElapsed(),
+            damage: Math.max(0, before - health),
+            damageType,
+            weapon,
+        }
+        const hits = this.hitsOn(victim)
+        hits.push(hit)
+        this.hits.set(victim, hits)
+        return hit
+    }
+
+    /** Picks up healing since the last hit. Only call for alive players. */
+    sample(victim: CorePlayer_APlayer): void {
+        const before = this.health.get(victim)
+        if (before === undefined) return
+        const health = CorePlayer_health(victim)
+        if (health > before) this.health.set(victim, health)
+    }
+
+    /** Hits on the victim within the window, oldest first. */
+    hitsOn(victim: CorePlayer_APlayer): CorePlayer_IDamageHit[] {
+        const since = mod.GetMatchTimeElapsed() - this.window
+        const hits = (this.hits.get(victim) ?? []).filter(
+            (hit) => hit.time >= since
+        )
+        this.hits.set(victim, hits)
+        return hits
+    }
+
+    credit(
+        victim: CorePlayer_APlayer,
+        killer: CorePlayer_APlayer | undefined
+    ): CorePlayer_IDeathCredit {
+        const hits = this.hitsOn(victim).filter((hit) => hit.attacker)
+        const byAttacker = new Map<
+            CorePlayer_APlayer,
+            CorePlayer_IDamageShare
+        >()
+
+        for (const hit of hits) {
+            const attacker = hit.attacker!
+            const share = byAttacker.get(attacker) ?? {
+                attacker,
+                hits: 0,
+                damage: 0,
+                share: 0,
+                lastHitAt: hit.time,
+            }
+            share.hits++
+            share.damage += hit.damage
+            share.lastHitAt = hit.time
+            byAttacker.set(attacker, share)
+        }
+
+        const shares = [...byAttacker.values()]
+        const damage = hits.reduce((sum, hit) => sum + hit.damage, 0)
+        for (const share of shares) {
+            share.share =
+                damage > 0 ? share.damage / damage : share.hits / hits.length
+        }
+        shares.sort((a, b) => b.share - a.share || b.lastHitAt - a.lastHitAt)
+
+        const finisher =
+            killer && killer !== victim
+                ? killer
+                : hits[hits.length - 1]?.attacker
+
+        const assistSince = mod.GetMatchTimeElapsed() - this.assistWindow
+        const assists = shares
+            .filter((s) => s.attacker !== finisher)
+            .filter((s) => s.lastHitAt >= assistSince)
+            .map((s) => s.attacker)
+
+        return {
+            victim,
+            finisher,
+            mostDamage: shares[0]?.attacker,
+            assists,
+            shares,
+        }
+    }
+
+    /** Starts a new life: no hits, health measured from now. */
+    clear(victim: CorePlayer_APlayer): void {
+        this.hits.delete(victim)
+        this.health.set(victim, CorePlayer_health(victim))
+    }
+
+    /** Drops a player that left, as victim and as attacker. */
+    forget(lp: CorePlayer_APlayer): void {
+        this.hits.delete(lp)
+        this.health.delete(lp)
+        for (const [victim, hits] of this.hits) {
+            this.hits.set(
+                victim,
+                hits.filter((hit) => hit.attacker !== lp)
+            )
+        }
+    }
+}
+
+function CorePlayer_health(lp: CorePlayer_APlayer): number {
+    return mod.GetSoldierState(lp.player, mod.SoldierStateNumber.CurrentHealth)
+}
@@ -1,9 +1,14 @@
+import { CoreEconomy_PurchaseResult } from '../Economy/BuyMenu'
 import { CorePlayer_APlayer } from './APlayer'
+import { CorePlayer_IDeathCredit } from './DamageLedger'
+import { CorePlayer_ISoldierStateChange } from './SoldierState'
 
 export interface CorePlayer_IPlayerEvents {
     // Lifecycle
     OnPlayerJoinGame?(joinedPlayer: CorePlayer_APlayer): void
-    OnPlayerLeaveGame?(): void
+    // Fired on the leaving player itself (leftPlayer === this) and on every
+    // remaining player.
+    OnPlayerLeaveGame?(leftPlayer: CorePlayer_APlayer): void
 
     OnPlayerDeployed?(): void
     OnPlayerDied?(
@@ -12,6 +17,13 @@ export interface CorePlayer_IPlayerEvents {
         eventWeaponUnlock: mod.WeaponUnlock
     ): void
     OnPlayerUndeploy?(): void
+    // Fired before the engine event that caused the transition
+    OnSoldierStateChanged?(change: CorePlayer_ISoldierStateChange): void
+    // Fired on the victim before OnPlayerDied
+    OnDeathCredit?(credit: CorePlayer_IDeathCredit): void
+
+    // Match phase
+    OnPhaseChanged?(phase: string, previousPhase: string | undefined): void
 
     // Damage / kills
     OnPlayerDamaged?(
@@ -30,6 +42,35 @@ export interface CorePlayer_IPlayerEvents {
     OnMandown?(eventOtherPlayer: CorePlayer_APlayer | undefined): void
     OnRevived?(eventOtherPlayer: CorePlayer_APlayer | undefined): void
 
+    // Derived combat events (CorePlayer_CombatEvents), fired before the
+    // OnPlayerDied / OnPlayerEarnedKill that caused them
+    OnKillStreak?(streak: number): void
+    OnStreakEnded?(
+        streak: number,
+        endedBy: CorePlayer_APlayer | undefined
+    ): void
+    OnMultiKill?(count: number): void
+    OnRevengeKill?(victim: CorePlayer_APlayer): void
+    OnFirstBlood?(victim: CorePlayer_APlayer): void
+    OnTeamKill?(victim: CorePlayer_APlayer): void
+    OnSuicide?(): void
+
+    // Economy (gameMode.economy, CoreEconomy_BuyMenu)
+    OnMoneyChanged?(balance: number, delta: number, reason: string): void
+    OnPurchase?(itemId: string, result: CoreEconomy_PurchaseResult): void
+
+    // Abilities (gameMode.abilities)
+    OnAbilityActivated?(abilityId: string): void
+    OnAbilityEnded?(abilityId: string): void
+    // A used charge came back
+    OnAbilityReady?(abilityId: string): void
+
+    // Respawn (gameMode.respawn)
+    // The wait is over and the player may deploy
+    OnRespawnReady?(): void
+    // The player (or their team) has no lives left
+    OnOutOfLives?(): void
+
     // Interactions / triggers
     OnPlayerInteract?(eventInteractPoint: mod.InteractPoint): void
     OnPlayerEnterAreaTrigger?(eventAreaTrigger: mod.AreaTrigger): void
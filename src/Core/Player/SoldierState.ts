@@ -0,0 +1,57 @@
+import { CorePlayer_APlayer } from './APlayer'
+
+/** Lifecycle states tracked on every CorePlayer_APlayer. */
+export const CorePlayer_SoldierStates = {
+    NotDeployed: 'notDeployed',
+    Alive: 'alive',
+    Mandown: 'mandown',
+    Dead: 'dead',
+    InVehicle: 'inVehicle',
+} as const
+
+export type CorePlayer_SoldierState =
+    (typeof CorePlayer_SoldierStates)[keyof typeof CorePlayer_SoldierStates]
+
+/**
+ * Transitions the engine events are expected to produce. Anything else is
+ * still applied (the engine is authoritative) but flagged as invalid.
+ *
+ *   notDeployed -> alive                            OnPlayerDeployed
+ *   alive       -> mandown / dead / inVehicle       OnMandown, OnPlayerDied,
+ *                                                   OnPlayerEnterVehicle(Seat)
+ *   mandown     -> alive / dead                     OnRevived, OnPlayerDied
+ *   inVehicle   -> inVehicle / alive / dead         seat change, exit, death
+ *   any deployed state -> notDeployed               OnPlayerUndeploy
+ */
+const CorePlayer_allowedTransitions: {
+    [S in CorePlayer_SoldierState]: readonly CorePlayer_SoldierState[]
+} = {
+    notDeployed: ['alive'],
+    alive: ['mandown', 'dead', 'inVehicle', 'notDeployed'],
+    mandown: ['alive', 'dead', 'notDeployed'],
+    dead: ['notDeployed'],
+    inVehicle: ['inVehicle', 'alive', 'dead', 'notDeployed'],
+}
+
+export function CorePlayer_isValidTransition(
+    from: CorePlayer_SoldierState,
+    to: CorePlayer_SoldierState
+): boolean {
+    return CorePlayer_allowedTransitions[from].includes(to)
+}
+
+/** Payload of OnSoldierStateChanged. */
+export interface CorePlayer_ISoldierStateChange {
+    state: CorePlayer_SoldierState
+    previousState: CorePlayer_SoldierState
+    /** mod.GetMatchTimeElapsed() at the transition. */
+    time: number
+    /** False when the transition is not in the expected table above. */
+    valid: boolean
+    /** Set while state is 'inVehicle'. */
+    vehicle?: mod.Vehicle
+    /** Set while state is 'inVehicle' and the seat is known. */
+    seat?: mod.Object
+    /** Player responsible for mandown / dead, when known. */
+    attacker?: CorePlayer_APlayer
+}
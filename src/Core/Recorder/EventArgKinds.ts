@@ -0,0 +1,122 @@
+import { Core_EventHandlers, Core_EventName } from '../EventHandlers'
+
+/** Engine argument types the recorder knows how to serialize. */
+export interface CoreRecorder_Kinds {
+    AreaTrigger: mod.AreaTrigger
+    CapturePoint: mod.CapturePoint
+    EmplacementSpawner: mod.EmplacementSpawner
+    HQ: mod.HQ
+    InteractPoint: mod.InteractPoint
+    LootSpawner: mod.LootSpawner
+    MCOM: mod.MCOM
+    Player: mod.Player
+    RingOfFire: mod.RingOfFire
+    Sector: mod.Sector
+    Spawner: mod.Spawner
+    SpawnPoint: mod.SpawnPoint
+    Team: mod.Team
+    Vehicle: mod.Vehicle
+    VehicleSpawner: mod.VehicleSpawner
+    WaypointPath: mod.WaypointPath
+    WorldIcon: mod.WorldIcon
+    Object: mod.Object
+    Vector: mod.Vector
+    UIWidget: mod.UIWidget
+    DeathType: mod.DeathType
+    DamageType: mod.DamageType
+    WeaponUnlock: mod.WeaponUnlock
+    UIButtonEvent: mod.UIButtonEvent
+    number: number
+}
+
+export type CoreRecorder_Kind = keyof CoreRecorder_Kinds
+
+/** Kind whose type is exactly T (mod.Object is the union, not a member). */
+type CoreRecorder_KindOf<T> = {
+    [K in CoreRecorder_Kind]: [T] extends [CoreRecorder_Kinds[K]]
+        ? [CoreRecorder_Kinds[K]] extends [T]
+            ? K
+            : never
+        : never
+}[CoreRecorder_Kind]
+
+type CoreRecorder_KindsOf<P extends unknown[]> = {
+    [I in keyof P]: CoreRecorder_KindOf<P[I]>
+}
+
+type CoreRecorder_ArgKindsOf<E extends Core_EventName> = CoreRecorder_KindsOf<
+    Parameters<Core_EventHandlers[E]>
+>
+
+/**
+ * Argument kinds of every engine event, in parameter order.
+ *
+ * Checked against mod.EventHandlerSignatures: a new event or a changed
+ * parameter type fails the build here after `npm run update-sdk`.
+ */
+export const CoreRecorder_eventArgKinds: {
+    [E in Core_EventName]: CoreRecorder_ArgKindsOf<E>
+} = {
+    OngoingGlobal: [],
+    OngoingAreaTrigger: ['AreaTrigger'],
+    OngoingCapturePoint: ['CapturePoint'],
+    OngoingEmplacementSpawner: ['EmplacementSpawner'],
+    OngoingHQ: ['HQ'],
+    OngoingInteractPoint: ['InteractPoint'],
+    OngoingLootSpawner: ['LootSpawner'],
+    OngoingMCOM: ['MCOM'],
+    OngoingPlayer: ['Player'],
+    OngoingRingOfFire: ['RingOfFire'],
+    OngoingSector: ['Sector'],
+    OngoingSpawner: ['Spawner'],
+    OngoingSpawnPoint: ['SpawnPoint'],
+    OngoingTeam: ['Team'],
+    OngoingVehicle: ['Vehicle'],
+    OngoingVehicleSpawner: ['VehicleSpawner'],
+    OngoingWaypointPath: ['WaypointPath'],
+    OngoingWorldIcon: ['WorldIcon'],
+    OnAIMoveToFailed: ['Player'],
+    OnAIMoveToRunning: ['Player'],
+    OnAIMoveToSucceeded: ['Player'],
+    OnAIParachuteRunning: ['Player'],
+    OnAIParachuteSucceeded: ['Player'],
+    OnAIWaypointIdleFailed: ['Player'],
+    OnAIWaypointIdleRunning: ['Player'],
+    OnAIWaypointIdleSucceeded: ['Player'],
+    OnCapturePointCaptured: ['CapturePoint'],
+    OnCapturePointCapturing: ['CapturePoint'],
+    OnCapturePointLost: ['CapturePoint'],
+    OnGameModeEnding: [],
+    OnGameModeStarted: [],
+    OnMandown: ['Player', 'Player'],
+    OnMCOMArmed: ['MCOM'],
+    OnMCOMDefused: ['MCOM'],
+    OnMCOMDestroyed: ['MCOM'],
+    OnPlayerDamaged: ['Player', 'Player', 'DamageType', 'WeaponUnlock'],
+    OnPlayerDeployed: ['Player'],
+    OnPlayerDied: ['Player', 'Player', 'DeathType', 'WeaponUnlock'],
+    OnPlayerEarnedKill: ['Player', 'Player', 'DeathType', 'WeaponUnlock'],
+    OnPlayerEarnedKillAssist: ['Player', 'Player'],
+    OnPlayerEnterAreaTrigger: ['Player', 'AreaTrigger'],
+    OnPlayerEnterCapturePoint: ['Player', 'CapturePoint'],
+    OnPlayerEnterVehicle: ['Player', 'Vehicle'],
+    OnPlayerEnterVehicleSeat: ['Player', 'Vehicle', 'Object'],
+    OnPlayerExitAreaTrigger: ['Player', 'AreaTrigger'],
+    OnPlayerExitCapturePoint: ['Player', 'CapturePoint'],
+    OnPlayerExitVehicle: ['Player', 'Vehicle'],
+    OnPlayerExitVehicleSeat: ['Player', 'Vehicle', 'Object'],
+    OnPlayerInteract: ['Player', 'InteractPoint'],
+    OnPlayerJoinGame: ['Player'],
+    OnPlayerLeaveGame: ['number'],
+    OnPlayerSwitchTeam: ['Player', 'Team'],
+    OnPlayerUIButtonEvent: ['Player', 'UIWidget', 'UIButtonEvent'],
+    OnPlayerUndeploy: ['Player'],
+    OnRayCastHit: ['Player', 'Vector', 'Vector'],
+    OnRayCastMissed: ['Player'],
+    OnRevived: ['Player', 'Player'],
+    OnRingOfFireZoneSizeChange: ['RingOfFire', 'number'],
+    OnSpawnerSpawned: ['Player', 'Spawner'],
+    OnTimeLimitReached: [],
+    OnVehicleDestroyed: ['Vehicle'],
+    OnVehicleSpawned: ['Vehicle'],
+}
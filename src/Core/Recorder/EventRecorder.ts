@@ -0,0 +1,140 @@
+import { Core_EventName } from '../EventHandlers'
+import { CoreRecorder_eventArgKinds, CoreRecorder_Kind } from './EventArgKinds'
+
+/**
+ * One serialized engine argument, keyed by its kind:
+ *
+ *     { "Player": 3, "team": 1, "alive": true }
+ *     { "Vehicle": 12 }
+ *     { "Vector": [10, 0, 4.5] }
+ *     { "UIWidget": "buy_menu_rifle" }
+ *     { "DeathType": 10 }
+ *     7                                    (plain numbers)
+ *
+ * Objects are stored by mod.GetObjId, widgets by name, engine enums as-is.
+ * Players also carry their team id and alive state at the time of the event.
+ */
+export type CoreRecorder_Arg = number | { [kind: string]: unknown }
+
+export interface CoreRecorder_IRecord {
+    /** Position in the log, starting at 0. */
+    seq: number
+    /** mod.GetMatchTimeElapsed() when the event arrived. */
+    time: number
+    event: Core_EventName
+    args: CoreRecorder_Arg[]
+}
+
+/** Marks recorder lines in the console log. */
+export const CoreRecorder_LINE_PREFIX = '[rec] '
+
+/**
+ * CoreRecorder_EventRecorder
+ *
+ * Opt-in recorder on Core_AGameMode._internal. When enabled, every engine
+ * event is written to the console as one JSON line before it is routed:
+ *
+ *     [rec] {"seq":4,"time":12.5,"event":"OnPlayerDied","args":[...]}
+ *
+ * Copy the lines from the server log and feed them to the headless replay
+ * driver (test/Headless/Replay.ts) to reproduce the same event sequence.
+ *
+ * Enable per build with BuildConfig.recordEvents, or from a game mode
+ * constructor with `this.recorder.enabled = true`. Ongoing* events fire
+ * every tick and are skipped unless includeOngoing is set; replay then
+ * synthesizes the ticks between recorded events.
+ */
+export class CoreRecorder_EventRecorder {
+    enabled = false
+    includeOngoing = false
+
+    private seq = 0
+
+    /** Wraps a router so each call is recorded before it runs. */
+    wrap<T extends object>(routes: T): T {
+        const wrapped: Record<string, unknown> = {}
+
+        for (const [name, route] of Object.entries(routes)) {
+            const fn = route as (...args: unknown[]) => void
+            wrapped[name] = (...args: unknown[]): void => {
+                if (this.enabled) this.record(name as Core_EventName, args)
+                fn(...args)
+            }
+        }
+        return wrapped as T
+    }
+
+    record(event: Core_EventName, args: unknown[]): void {
+        if (!this.includeOngoing && event.startsWith('Ongoing')) return
+
+        // Recording must never break routing
+        try {
+            const kinds: readonly CoreRecorder_Kind[] =
+                CoreRecorder_eventArgKinds[event]
+            const record: CoreRecorder_IRecord = {
+                seq: this.seq++,
+                time: mod.GetMatchTimeElapsed(),
+                event,
+                args: kinds.map((kind, i) => this.serialize(kind, args[i])),
+            }
+            console.log(CoreRecorder_LINE_PREFIX + JSON.stringify(record))
+        } catch (error) {
+            console.log(`Recorder failed on ${event}: ${String(error)}`)
+        }
+    }
+
+    /* ------------------------------------------------------------
+     * Serialization
+     * ------------------------------------------------------------ */
+
+    private serialize(
+        kind: CoreRecorder_Kind,
+        value: unknown
+    ): CoreRecorder_Arg {
+        switch (kind) {
+            case 'number':
+                return value as number
+            case 'Player':
+                return this.serializePlayer(value as mod.Player)
+            case 'Vector': {
+                const v = value as mod.Vector
+                return {
+                    Vector: [
+                        mod.XComponentOf(v),
+                        mod.YComponentOf(v),
+                        mod.ZComponentOf(v),
+                    ],
+                }
+            }
+            case 'UIWidget':
+                return { UIWidget: mod.GetUIWidgetName(value as mod.UIWidget) }
+            case 'DeathType':
+            case 'DamageType':
+            case 'WeaponUnlock':
+            case 'UIButtonEvent':
+                return { [kind]: this.serializeValue(value) }
+            default:
+                return { [kind]: mod.GetObjId(value as mod.Object) }
+        }
+    }
+
+    private serializePlayer(player: mod.Player): CoreRecorder_Arg {
+        const id = mod.GetObjId(player)
+        if (!mod.IsPlayerValid(player)) return { Player: id }
+
+        return {
+            Player: id,
+            team: mod.GetObjId(mod.GetTeam(player)),
+            alive: mod.GetSoldierState(player, mod.SoldierStateBool.IsAlive),
+        }
+    }
+
+    /** Engine enum values are kept when JSON-safe, otherwise stringified. */
+    private serializeValue(value: unknown): unknown {
+        const type = typeof value
+        if (type === 'number' || type === 'string' || type === 'boolean') {
+            return value
+        }
+        return String(value)
+    }
+}
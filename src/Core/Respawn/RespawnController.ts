@@ -0,0 +1,367 @@
+import { Core_AGameMode } from '../AGameMode'
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import { CoreScheduler_now, CoreScheduler_Timer } from '../Scheduler/Timer'
+
+/**
+ * Respawn rules. configure() sets the defaults; setPhaseRules() overrides
+ * single fields while a phase is active.
+ */
+export interface CoreRespawn_IRules {
+    /** False blocks deploying altogether, e.g. after a round. Default true. */
+    deploy?: boolean
+    /** Seconds from death until the player may deploy again. */
+    delay?: number
+    /** Release waiting players together every waveInterval seconds. */
+    waveInterval?: number
+    /** Lives of each player. Unset for unlimited. */
+    livesPerPlayer?: number
+    /** Lives shared by each team. Unset for unlimited. */
+    livesPerTeam?: number
+    /** Deploy players as soon as they may instead of letting them pick. */
+    autoDeploy?: boolean
+    /** Spawn point for autoDeploy. Unset (or undefined) uses DeployPlayer. */
+    spawnPoint?: (lp: CorePlayer_APlayer) => number | mod.SpawnPoint | undefined
+    /** Camera while waiting to respawn, reset to first person on deploy. */
+    spectateCamera?: keyof typeof mod.Cameras
+}
+
+/** A player between death (or undeploy) and the next deploy. */
+interface CoreRespawn_IWait {
+    /** Match time the player may deploy, undefined while blocked. */
+    readyAt: number | undefined
+    released: boolean
+    timer: CoreScheduler_Timer | undefined
+}
+
+/**
+ * CoreRespawn_RespawnController
+ *
+ * Respawn control owned by Core_AGameMode (gameMode.respawn), fed by the
+ * OnPlayerDied / OnPlayerUndeploy / OnPlayerDeployed routes:
+ *
+ *     this.respawn.configure({
+ *         waveInterval: 20,
+ *         livesPerTeam: 50,
+ *         spectateCamera: 'Free',
+ *     })
+ *     this.respawn.setPhaseRules(CorePhase_Ids.PostRound, { deploy: false })
+ *
+ * Deaths use up lives before any listener runs. While waiting, the
+ * engine's redeploy countdown shows the remaining time (SetRedeployTime);
+ * players out of lives, or in a phase with deploy: false, cannot deploy
+ * (EnablePlayerDeploy). waitFor() and livesLeft() expose the same numbers
+ * to mode UI.
+ *
+ * Until configure() or setPhaseRules() is first called the engine's own
+ * respawn behaviour is left alone.
+ *
+ * Lives are refilled when a Core_ARoundGameMode round starts. isStanding()
+ * is what gameMode.scoring checks for lastTeamStanding, so players waiting
+ * to respawn are not counted as eliminated.
+ */
+export class CoreRespawn_RespawnController {
+    private gameMode: Core_AGameMode
+    private defaults: CoreRespawn_IRules = {}
+    private phaseRules = new Map<string, CoreRespawn_IRules>()
+    private enabled = false
+
+    private lives = new Map<CorePlayer_APlayer, number>()
+    private teamLives = new Map<number, number>()
+    private waiting = new Map<CorePlayer_APlayer, CoreRespawn_IWait>()
+
+    private waveTimer: CoreScheduler_Timer | undefined
+    private waveInterval: number | undefined
+    private nextWaveAt = 0
+
+    constructor(gameMode: Core_AGameMode) {
+        this.gameMode = gameMode
+    }
+
+    configure(rules: CoreRespawn_IRules): void {
+        this.defaults = rules
+        this.enabled = true
+        this.apply()
+    }
+
+    /** Overrides fields of the defaults while phaseId is active. */
+    setPhaseRules(phaseId: string, rules: CoreRespawn_IRules): void {
+        this.phaseRules.set(phaseId, rules)
+        this.enabled = true
+        if (this.gameMode.phases.is(phaseId)) this.apply()
+    }
+
+    /** Rules in effect for the current phase. */
+    rules(): CoreRespawn_IRules {
+        const phase = this.gameMode.phases.current
+        return {
+            ...this.defaults,
+            ...(phase !== undefined ? this.phaseRules.get(phase) : undefined),
+        }
+    }
+
+    /* ------------------------------------------------------------
+     * Lives
+     * ------------------------------------------------------------ */
+
+    /** Lives left of the player, undefined if unlimited. */
+    livesLeft(lp: CorePlayer_APlayer): number | undefined {
+        const max = this.rules().livesPerPlayer
+        if (max === undefined) return undefined
+        return this.lives.get(lp) ?? max
+    }
+
+    /** Lives left of the team, undefined if unlimited. */
+    teamLivesLeft(team: mod.Team): number | undefined {
+        const max = this.rules().livesPerTeam
+        if (max === undefined) return undefined
+        return this.teamLives.get(mod.GetObjId(team)) ?? max
+    }
+
+    setLives(lp: CorePlayer_APlayer, lives: number): void {
+        this.lives.set(lp, lives)
+        this.refresh(lp)
+    }
+
+    setTeamLives(team: mod.Team, lives: number): void {
+        this.teamLives.set(mod.GetObjId(team), lives)
+        for (const lp of this.gameMode.allPlayers()) {
+            if (lp.team && mod.GetObjId(lp.team) === mod.GetObjId(team)) {
+                this.refresh(lp)
+            }
+        }
+    }
+
+    /** Refills every player and team. */
+    resetLives(): void {
+        this.lives.clear()
+        this.teamLives.clear()
+        for (const lp of this.waiting.keys()) this.refresh(lp)
+    }
+
+    /** Neither the player nor the team ran out of lives. */
+    hasLives(lp: CorePlayer_APlayer): boolean {
+        const own = this.livesLeft(lp)
+        const team = lp.team ? this.teamLivesLeft(lp.team) : undefined
+        return (
+            (own === undefined || own > 0) && (team === undefined || team > 0)
+        )
+    }
+
+    /** On the battlefield, or still able to come back. */
+    isStanding(lp: CorePlayer_APlayer): boolean {
+        return lp.isDeployed() || this.hasLives(lp)
+    }
+
+    /* ------------------------------------------------------------
+     * Waiting
+     * ------------------------------------------------------------ */
+
+    /**
+     * Seconds until lp may deploy: 0 if they may now (or are deployed),
+     * undefined if they cannot respawn at all right now.
+     */
+    waitFor(lp: CorePlayer_APlayer): number | undefined {
+        const wait = this.waiting.get(lp)
+        if (!wait) return lp.isDeployed() || this.allowed(lp) ? 0 : undefined
+        if (wait.readyAt === undefined) return undefined
+        return Math.max(0, wait.readyAt - this.now())
+    }
+
+    isWaiting(lp: CorePlayer_APlayer): boolean {
+        return this.waiting.has(lp)
+    }
+
+    /* ------------------------------------------------------------
+     * Routes
+     * ------------------------------------------------------------ */
+
+    OnPlayerJoinGame(lp: CorePlayer_APlayer): void {
+        if (this.enabled && !this.allowed(lp)) {
+            mod.EnablePlayerDeploy(lp.player, false)
+        }
+    }
+
+    OnPlayerDeployed(lp: CorePlayer_APlayer): void {
+        const wait = this.waiting.get(lp)
+        if (!wait) return
+        wait.timer?.cancel()
+        this.waiting.delete(lp)
+
+        if (this.rules().spectateCamera !== undefined) {
+            mod.SetCameraTypeForPlayer(lp.player, mod.Cameras.FirstPerson)
+        }
+    }
+
+    OnPlayerDied(lp: CorePlayer_APlayer): void {
+        if (!this.enabled) return
+        this.useLife(lp)
+        this.startWait(lp)
+    }
+
+    /** Undeploy without dying (e.g. redeploy from the menu) costs no life. */
+    OnPlayerUndeploy(lp: CorePlayer_APlayer): void {
+        if (this.enabled && !this.waiting.has(lp)) this.startWait(lp)
+    }
+
+    OnPlayerLeaveGame(lp: CorePlayer_APlayer): void {
+        this.waiting.get(lp)?.timer?.cancel()
+        this.waiting.delete(lp)
+        this.lives.delete(lp)
+    }
+
+    OnPhaseChanged(): void {
+        if (this.enabled) this.apply()
+    }
+
+    OnRoundStarted(): void {
+        this.resetLives()
+    }
+
+    /* ------------------------------------------------------------
+     * Internals
+     * ------------------------------------------------------------ */
+
+    private now(): number {
+        return CoreScheduler_now('match')
+    }
+
+    /** Deploying is allowed in this phase and lp has lives left. */
+    private allowed(lp: CorePlayer_APlayer): boolean {
+        return (this.rules().deploy ?? true) && this.hasLives(lp)
+    }
+
+    private useLife(lp: CorePlayer_APlayer): void {
+        const own = this.livesLeft(lp)
+        if (own !== undefined) this.lives.set(lp, Math.max(0, own - 1))
+
+        const team = lp.team
+        const shared = team ? this.teamLivesLeft(team) : undefined
+        if (team && shared !== undefined) {
+            this.teamLives.set(mod.GetObjId(team), Math.max(0, shared - 1))
+        }
+
+        if (!this.hasLives(lp)) {
+            lp.emit('OnOutOfLives')
+            this.gameMode.dispatch('OnOutOfLives', lp)
+        }
+    }
+
+    private startWait(lp: CorePlayer_APlayer): void {
+        const wait: CoreRespawn_IWait = {
+            readyAt: undefined,
+            released: false,
+            timer: undefined,
+        }
+        this.waiting.set(lp, wait)
+
+        const camera = this.rules().spectateCamera
+        if (camera !== undefined) {
+            mod.SetCameraTypeForPlayer(lp.player, mod.Cameras[camera])
+        }
+        this.refresh(lp)
+    }
+
+    /**
+     * Works out when a waiting player may deploy under the current rules
+     * and lives, and pushes that to the engine.
+     */
+    private refresh(lp: CorePlayer_APlayer): void {
+        const wait = this.waiting.get(lp)
+        if (!wait) {
+            if (!lp.isDeployed()) {
+                mod.EnablePlayerDeploy(lp.player, this.allowed(lp))
+            }
+            return
+        }
+
+        wait.timer?.cancel()
+        wait.timer = undefined
+        if (!this.allowed(lp)) {
+            wait.readyAt = undefined
+            wait.released = false
+            mod.EnablePlayerDeploy(lp.player, false)
+            return
+        }
+        if (wait.released) return
+
+        const rules = this.rules()
+        const now = this.now()
+        if (this.waveTimer) {
+            wait.readyAt = this.nextWaveAt
+            // Released by the wave
+        } else {
+            wait.readyAt = now + (rules.delay ?? 0)
+            if (wait.readyAt > now) {
+                wait.timer = this.gameMode.scheduler.setTimeout(
+                    () => this.release(lp),
+                    wait.readyAt - now,
+                    { owner: lp, clock: 'match' }
+                )
+            }
+        }
+
+        const seconds = wait.readyAt - now
+        this.showCountdown(lp, seconds)
+        if (seconds <= 0) this.release(lp)
+        else mod.EnablePlayerDeploy(lp.player, !this.waveTimer)
+    }
+
+    /** The wait is over: allow deploying and auto deploy if asked. */
+    private release(lp: CorePlayer_APlayer): void {
+        const wait = this.waiting.get(lp)
+        if (!wait || wait.released || !this.allowed(lp)) return
+        wait.released = true
+        wait.timer = undefined
+
+        mod.EnablePlayerDeploy(lp.player, true)
+        lp.emit('OnRespawnReady')
+        this.gameMode.dispatch('OnRespawnReady', lp)
+
+        const rules = this.rules()
+        if (!rules.autoDeploy) return
+        const chosen = rules.spawnPoint?.(lp)
+        if (chosen === undefined) {
+            mod.DeployPlayer(lp.player)
+            return
+        }
+        const spawnPoint: mod.SpawnPoint =
+            typeof chosen === 'number' ? mod.GetSpawnPoint(chosen) : chosen
+        mod.SpawnPlayerFromSpawnPoint(lp.player, spawnPoint)
+    }
+
+    private wave(): void {
+        this.nextWaveAt = this.now() + this.waveInterval!
+        for (const lp of [...this.waiting.keys()]) this.release(lp)
+        // Players still waiting count down to the next wave
+        for (const [lp, wait] of this.waiting) {
+            if (wait.released || wait.readyAt === undefined) continue
+            wait.readyAt = this.nextWaveAt
+            this.showCountdown(lp, this.waveInterval!)
+        }
+    }
+
+    /** The engine only takes redeploy times from 0 to 60 seconds. */
+    private showCountdown(lp: CorePlayer_APlayer, seconds: number): void {
+        mod.SetRedeployTime(lp.player, Math.min(60, Math.max(0, seconds)))
+    }
+
+    /** Re-applies the rules after configure or a phase change. */
+    private apply(): void {
+        const interval = this.rules().waveInterval
+        if (interval !== this.waveInterval) {
+            this.waveTimer?.cancel()
+            this.waveTimer = undefined
+            this.waveInterval = interval
+            if (interval !== undefined) {
+                this.nextWaveAt = this.now() + interval
+                this.waveTimer = this.gameMode.scheduler.setInterval(
+                    () => this.wave(),
+                    interval,
+                    { clock: 'match' }
+                )
+            }
+        }
+
+        for (const lp of this.gameMode.allPlayers()) this.refresh(lp)
+    }
+}
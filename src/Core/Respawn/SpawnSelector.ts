@@ -0,0 +1,330 @@
+import { Core_AGameMode } from '../AGameMode'
+import { CorePlayer_IGameModeEvents } from '../IGameModeEvents'
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import { CoreScheduler_now, CoreScheduler_Timer } from '../Scheduler/Timer'
+
+/** How much each factor counts toward a spawn point's score. */
+export interface CoreRespawn_ISpawnWeights {
+    /** Per enemy in enemyRadius, scaled by closeness. */
+    enemy: number
+    /** Per teammate in teammateRadius, scaled by closeness. */
+    teammate: number
+    /** Per recent death in deathRadius, scaled by closeness. */
+    death: number
+    /** Per enemy that is likely to see the spawn point. */
+    sight: number
+}
+
+export interface CoreRespawn_ISpawnProtection {
+    /** Seconds of protection after deploying. */
+    seconds: number
+    /** Share of damage taken while protected. Default 0. */
+    factor?: number
+    /** Meters the player may move before protection ends. Default 2. */
+    moveTolerance?: number
+}
+
+export interface CoreRespawn_ISpawnSelectorConfig {
+    /** Spawn point ids open to every team. */
+    spawns?: number[]
+    /** Meters. Default 40. */
+    enemyRadius?: number
+    /** Meters. Default 25. */
+    teammateRadius?: number
+    /** Meters. Default 15. */
+    deathRadius?: number
+    /** Seconds deaths are remembered. Default 10. */
+    deathMemory?: number
+    /** Enemies farther away are not checked for sight lines. Default 80. */
+    sightRange?: number
+    weights?: Partial<CoreRespawn_ISpawnWeights>
+    /** Brief damage protection after every deploy. Off when unset. */
+    protection?: CoreRespawn_ISpawnProtection
+}
+
+interface CoreRespawn_IDeath {
+    position: mod.Vector
+    time: number
+}
+
+interface CoreRespawn_IProtected {
+    origin: mod.Vector
+    timer: CoreScheduler_Timer
+}
+
+const CoreRespawn_DEFAULT_WEIGHTS: CoreRespawn_ISpawnWeights = {
+    enemy: 10,
+    teammate: 2,
+    death: 4,
+    sight: 6,
+}
+
+/** An enemy looking within 45 degrees of a spawn point may see it. */
+const CoreRespawn_SIGHT_COS = Math.cos(Math.PI / 4)
+
+/** Modifier source on gameMode.abilities. */
+const CoreRespawn_PROTECTION = 'spawnProtection'
+
+/**
+ * CoreRespawn_SpawnSelector
+ *
+ * Picks the safest spawn point for a player instead of a random one. Every
+ * candidate (the shared spawns plus the player's team set) is scored by
+ * nearby enemies and teammates, recent deaths and enemies facing it:
+ *
+ *     this.spawns = new CoreRespawn_SpawnSelector(this, {
+ *         spawns: [100, 101, 102],
+ *         protection: { seconds: 3 },
+ *     })
+ *     this.spawns.setTeamSpawns(mod.GetTeam(1), [110, 111])
+ *     this.respawn.configure({
+ *         autoDeploy: true,
+ *         spawnPoint: (lp) => this.spawns.select(lp),
+ *     })
+ *
+ * Sight lines are a hint from facing direction and distance only; the
+ * engine's RayCast answers too late to be used while choosing.
+ *
+ * Spawn protection lowers damage taken through gameMode.abilities (so it
+ * combines with perks) and ends after protection.seconds, or as soon as
+ * the player fires or moves away from where they deployed.
+ */
+export class CoreRespawn_SpawnSelector {
+    private gameMode: Core_AGameMode
+    private config: CoreRespawn_ISpawnSelectorConfig
+    private weights: CoreRespawn_ISpawnWeights
+    private teamSpawns = new Map<number, number[]>()
+    private lastUsed = new Map<number, number>()
+    private deaths: CoreRespawn_IDeath[] = []
+    private protections = new Map<CorePlayer_APlayer, CoreRespawn_IProtected>()
+
+    constructor(
+        gameMode: Core_AGameMode,
+        config: CoreRespawn_ISpawnSelectorConfig = {}
+    ) {
+        this.gameMode = gameMode
+        this.config = config
+        this.weights = { ...CoreRespawn_DEFAULT_WEIGHTS, ...config.weights }
+
+        gameMode.addListener(this.listener)
+    }
+
+    /** Replaces the spawn points owned by team, e.g. after a capture. */
+    setTeamSpawns(team: mod.Team, spawnPointIds: number[]): void {
+        this.teamSpawns.set(mod.GetObjId(team), spawnPointIds)
+    }
+
+    setSharedSpawns(spawnPointIds: number[]): void {
+        this.config.spawns = spawnPointIds
+    }
+
+    /** Spawn point ids lp may use. */
+    candidates(lp: CorePlayer_APlayer): number[] {
+        const own = lp.team ? this.teamSpawns.get(mod.GetObjId(lp.team)) : []
+        return [...(this.config.spawns ?? []), ...(own ?? [])]
+    }
+
+    /** Higher is safer. */
+    score(lp: CorePlayer_APlayer, spawnPointId: number): number {
+        const position = mod.GetObjectPosition(mod.GetSpawnPoint(spawnPointId))
+        const weights = this.weights
+        let score = 0
+
+        for (const other of this.gameMode.allPlayers()) {
+            if (other === lp || !other.isAlive()) continue
+            const at = CoreRespawn_position(other)
+            const distance = mod.DistanceBetween(position, at)
+
+            if (CoreRespawn_sameTeam(lp, other)) {
+                score +=
+                    weights.teammate *
+                    CoreRespawn_closeness(
+                        distance,
+                        this.config.teammateRadius ?? 25
+                    )
+                continue
+            }
+            score -=
+                weights.enemy *
+                CoreRespawn_closeness(distance, this.config.enemyRadius ?? 40)
+            if (this.canSee(other, at, position, distance)) {
+                score -= weights.sight
+            }
+        }
+
+        for (const death of this.recentDeaths()) {
+            const distance = mod.DistanceBetween(position, death.position)
+            score -=
+                weights.death *
+                CoreRespawn_closeness(distance, this.config.deathRadius ?? 15)
+        }
+        return score
+    }
+
+    /**
+     * The best scoring candidate for lp, or undefined if there are none.
+     * Ties go to the spawn point used least recently.
+     */
+    select(lp: CorePlayer_APlayer): number | undefined {
+        let best: number | undefined
+        let bestScore = -Infinity
+        for (const spawnPointId of this.candidates(lp)) {
+            const score = this.score(lp, spawnPointId)
+            const older =
+                best !== undefined &&
+                (this.lastUsed.get(spawnPointId) ?? -Infinity) <
+                    (this.lastUsed.get(best) ?? -Infinity)
+            if (score > bestScore || (score === bestScore && older)) {
+                best = spawnPointId
+                bestScore = score
+            }
+        }
+
+        if (best !== undefined) {
+            this.lastUsed.set(best, CoreScheduler_now('match'))
+        }
+        return best
+    }
+
+    /** Deploys lp at the selected spawn point. False if there was none. */
+    spawn(lp: CorePlayer_APlayer): boolean {
+        const spawnPointId = this.select(lp)
+        if (spawnPointId === undefined) return false
+        mod.SpawnPlayerFromSpawnPoint(lp.player, spawnPointId)
+        return true
+    }
+
+    /** Starts (or restarts) spawn protection for a deployed player. */
+    protect(lp: CorePlayer_APlayer, seconds?: number): void {
+        const protection = this.config.protection
+        this.protections.get(lp)?.timer.cancel()
+
+        this.protections.set(lp, {
+            origin: CoreRespawn_position(lp),
+            timer: this.gameMode.scheduler.setTimeout(
+                () => this.unprotect(lp),
+                seconds ?? protection?.seconds ?? 3,
+                { owner: lp, clock: 'match' }
+            ),
+        })
+        this.gameMode.abilities.modify(
+            lp,
+            'damageTaken',
+            CoreRespawn_PROTECTION,
+            protection?.factor ?? 0
+        )
+    }
+
+    isProtected(lp: CorePlayer_APlayer): boolean {
+        return this.protections.has(lp)
+    }
+
+    /** Ends spawn protection early. */
+    unprotect(lp: CorePlayer_APlayer): void {
+        const state = this.protections.get(lp)
+        if (!state) return
+        state.timer.cancel()
+        this.protections.delete(lp)
+        this.gameMode.abilities.modify(
+            lp,
+            'damageTaken',
+            CoreRespawn_PROTECTION,
+            undefined
+        )
+    }
+
+    /** Stops listening and ends all protection. */
+    dispose(): void {
+        this.gameMode.removeListener(this.listener)
+        for (const lp of [...this.protections.keys()]) this.unprotect(lp)
+    }
+
+    /* ------------------------------------------------------------
+     * Internals
+     * ------------------------------------------------------------ */
+
+    private listener: CorePlayer_IGameModeEvents = {
+        OnPlayerDeployed: (lp) => {
+            if (this.config.protection) this.protect(lp)
+        },
+        OnPlayerDied: (lp) => {
+            this.deaths.push({
+                position: CoreRespawn_position(lp),
+                time: CoreScheduler_now('match'),
+            })
+            this.drop(lp)
+        },
+        OnPlayerUndeploy: (lp) => this.drop(lp),
+        OnPlayerLeaveGame: (lp) => this.drop(lp),
+        OngoingPlayer: (lp) => this.checkProtection(lp),
+    }
+
+    /**
+     * Forgets protection without touching the modifier; gameMode.abilities
+     * already reset it on death, undeploy and leave.
+     */
+    private drop(lp: CorePlayer_APlayer): void {
+        this.protections.get(lp)?.timer.cancel()
+        this.protections.delete(lp)
+    }
+
+    private checkProtection(lp: CorePlayer_APlayer): void {
+        const state = this.protections.get(lp)
+        if (!state) return
+
+        const firing = mod.GetSoldierState(
+            lp.player,
+            mod.SoldierStateBool.IsFiring
+        )
+        const moved = mod.DistanceBetween(
+            state.origin,
+            CoreRespawn_position(lp)
+        )
+        const tolerance = this.config.protection?.moveTolerance ?? 2
+        if (firing || moved > tolerance) this.unprotect(lp)
+    }
+
+    /** Enemy in sight range and facing toward the spawn point. */
+    private canSee(
+        enemy: CorePlayer_APlayer,
+        from: mod.Vector,
+        to: mod.Vector,
+        distance: number
+    ): boolean {
+        if (distance > (this.config.sightRange ?? 80) || distance === 0) {
+            return false
+        }
+        const facing = mod.GetSoldierState(
+            enemy.player,
+            mod.SoldierStateVector.GetFacingDirection
+        )
+        const direction = mod.Normalize(mod.Subtract(to, from))
+        return (
+            mod.DotProduct(mod.Normalize(facing), direction) >=
+            CoreRespawn_SIGHT_COS
+        )
+    }
+
+    private recentDeaths(): CoreRespawn_IDeath[] {
+        const since =
+            CoreScheduler_now('match') - (this.config.deathMemory ?? 10)
+        this.deaths = this.deaths.filter((death) => death.time >= since)
+        return this.deaths
+    }
+}
+
+/** 1 on top of the point, falling to 0 at radius. */
+function CoreRespawn_closeness(distance: number, radius: number): number {
+    return Math.max(0, 1 - distance / radius)
+}
+
+function CoreRespawn_sameTeam(
+    a: CorePlayer_APlayer,
+    b: CorePlayer_APlayer
+): boolean {
+    return !!a.team && !!b.team && mod.GetObjId(a.team) === mod.GetObjId(b.team)
+}
+
+function CoreRespawn_position(lp: CorePlayer_APlayer): mod.Vector {
+    return mod.GetSoldierState(lp.player, mod.SoldierStateVector.GetPosition)
+}
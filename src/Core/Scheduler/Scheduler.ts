@@ -0,0 +1,169 @@
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import {
+    CoreScheduler_Clock,
+    CoreScheduler_now,
+    CoreScheduler_Timer,
+} from './Timer'
+
+export interface CoreScheduler_ITimerOptions {
+    /** Timer is cancelled automatically when this player leaves. */
+    owner?: CorePlayer_APlayer
+    /** Defaults to 'real'. Use 'match' to follow PauseGameModeTime. */
+    clock?: CoreScheduler_Clock
+}
+
+/**
+ * CoreScheduler_Scheduler
+ *
+ * Tick-based timer service owned by Core_AGameMode and driven by
+ * OngoingGlobal. Replaces hand-written Date.now() throttles inside
+ * OngoingGlobal listeners.
+ *
+ *     const timer = this.scheduler.setInterval(() => {
+ *         console.log("every 4 seconds")
+ *     }, 4)
+ *
+ *     timer.pause()
+ *     timer.resume()
+ *     timer.cancel()
+ *
+ * Durations are in seconds. Timers fire on the first tick at or after their
+ * due time, so resolution is one engine tick.
+ */
+export class CoreScheduler_Scheduler {
+    private timers: CoreScheduler_Timer[] = []
+    private owned = new Map<CorePlayer_APlayer, Set<CoreScheduler_Timer>>()
+    private paused = false
+    /** Timers pause() paused, so resume() leaves the caller's own alone. */
+    private pausedByScheduler = new Set<CoreScheduler_Timer>()
+
+    /** Called when a timer callback throws. Other timers still run. */
+    onError: (error: unknown) => void = (error) => {
+        console.log(`Timer failed: ${String(error)}`)
+    }
+
+    setTimeout(
+        callback: () => void,
+        seconds: number,
+        options: CoreScheduler_ITimerOptions = {}
+    ): CoreScheduler_Timer {
+        return this.add(callback, seconds, undefined, options)
+    }
+
+    setInterval(
+        callback: () => void,
+        seconds: number,
+        options: CoreScheduler_ITimerOptions = {}
+    ): CoreScheduler_Timer {
+        return this.add(callback, seconds, seconds, options)
+    }
+
+    /** Pauses every timer. Timers keep their remaining time. */
+    pause(): void {
+        if (this.paused) return
+        this.paused = true
+        for (const timer of this.timers) this.pauseTimer(timer)
+    }
+
+    /** Resumes the timers pause() paused; timers paused before stay so. */
+    resume(): void {
+        if (!this.paused) return
+        this.paused = false
+        for (const timer of this.pausedByScheduler) timer.resume()
+        this.pausedByScheduler.clear()
+    }
+
+    isPaused(): boolean {
+        return this.paused
+    }
+
+    /** Cancels every timer owned by the player. */
+    cancelOwnedBy(owner: CorePlayer_APlayer): void {
+        const timers = this.owned.get(owner)
+        if (!timers) return
+
+        for (const timer of timers) timer.cancel()
+        this.owned.delete(owner)
+    }
+
+    cancelAll(): void {
+        for (const timer of this.timers) timer.cancel()
+        this.timers = []
+        this.owned.clear()
+        this.pausedByScheduler.clear()
+    }
+
+    /** Called by Core_AGameMode on every OngoingGlobal. */
+    tick(): void {
+        if (this.timers.length === 0) return
+
+        const real = CoreScheduler_now('real')
+        let match: number | undefined
+
+        // Snapshot: callbacks may add timers, or cancel and pause any of
+        // them through the list itself
+        for (const timer of [...this.timers]) {
+            let now = real
+            if (timer.clock === 'match') {
+                match ??= CoreScheduler_now('match')
+                now = match
+            }
+
+            try {
+                timer.update(now)
+            } catch (error) {
+                this.onError(error)
+            }
+        }
+
+        this.timers = this.timers.filter((timer) => timer.isActive())
+        this.pruneOwned()
+    }
+
+    private add(
+        callback: () => void,
+        seconds: number,
+        interval: number | undefined,
+        options: CoreScheduler_ITimerOptions
+    ): CoreScheduler_Timer {
+        const clock = options.clock ?? 'real'
+        const timer = new CoreScheduler_Timer(
+            callback,
+            clock,
+            CoreScheduler_now(clock) + seconds,
+            interval
+        )
+
+        if (this.paused) this.pauseTimer(timer)
+        this.timers.push(timer)
+
+        if (options.owner) {
+            this.own(options.owner, timer)
+        }
+        return timer
+    }
+
+    private pauseTimer(timer: CoreScheduler_Timer): void {
+        if (timer.isPaused() || !timer.isActive()) return
+        timer.pause()
+        this.pausedByScheduler.add(timer)
+    }
+
+    private own(owner: CorePlayer_APlayer, timer: CoreScheduler_Timer): void {
+        let timers = this.owned.get(owner)
+        if (!timers) {
+            timers = new Set()
+            this.owned.set(owner, timers)
+            owner.onDispose(() => this.cancelOwnedBy(owner))
+        }
+        timers.add(timer)
+    }
+
+    private pruneOwned(): void {
+        for (const timers of this.owned.values()) {
+            for (const timer of timers) {
+                if (!timer.isActive()) timers.delete(timer)
+            }
+        }
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * CoreScheduler_Clock
+ *
+ * - 'real':  wall-clock seconds, keeps running while game mode time is paused.
+ * - 'match': mod.GetMatchTimeElapsed(), stops while PauseGameModeTime(true).
+ */
+export type CoreScheduler_Clock = 'real' | 'match'
+
+export function CoreScheduler_now(clock: CoreScheduler_Clock): number {
+    return clock === 'match' ? mod.GetMatchTimeElapsed() : Date.now() / 1000
+}
+
+/**
+ * CoreScheduler_Timer
+ *
+ * Handle returned by CoreScheduler_Scheduler.setTimeout / setInterval.
+ * All durations are in seconds, like mod.Wait.
+ */
+export class CoreScheduler_Timer {
+    private cancelled = false
+    private pausedRemaining: number | undefined
+
+    constructor(
+        readonly callback: () => void,
+        readonly clock: CoreScheduler_Clock,
+        public dueAt: number,
+        readonly interval: number | undefined
+    ) {}
+
+    /** True until the timer fired (timeouts) or was cancelled. */
+    isActive(): boolean {
+        return !this.cancelled
+    }
+
+    isPaused(): boolean {
+        return this.pausedRemaining !== undefined
+    }
+
+    /** Seconds left until the next fire. */
+    remaining(): number {
+        if (this.pausedRemaining !== undefined) return this.pausedRemaining
+        return Math.max(0, this.dueAt - CoreScheduler_now(this.clock))
+    }
+
+    cancel(): void {
+        this.cancelled = true
+    }
+
+    pause(): void {
+        if (this.cancelled || this.isPaused()) return
+        this.pausedRemaining = this.remaining()
+    }
+
+    resume(): void {
+        if (this.pausedRemaining === undefined) return
+        this.dueAt = CoreScheduler_now(this.clock) + this.pausedRemaining
+        this.pausedRemaining = undefined
+    }
+
+    /** Called by the scheduler every tick. Returns false once finished. */
+    update(now: number): boolean {
+        if (this.cancelled) return false
+        if (this.isPaused() || now < this.dueAt) return true
+
+        if (this.interval === undefined) {
+            this.cancelled = true
+        } else {
+            this.dueAt += this.interval
+            if (this.dueAt <= now) {
+                this.dueAt = now + this.interval
+            }
+        }
+
+        this.callback()
+        return !this.cancelled
+    }
+}
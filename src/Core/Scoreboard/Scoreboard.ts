@@ -0,0 +1,189 @@
+import { Core_AGameMode } from '../AGameMode'
+import { CorePlayer_IGameModeEvents } from '../IGameModeEvents'
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import { CoreScheduler_Timer } from '../Scheduler/Timer'
+
+/** One scoreboard column. label is a __STRINGS.json key. */
+export interface CoreScoreboard_IColumn<P extends CorePlayer_APlayer> {
+    label: string
+    /** Relative width, see mod.SetScoreboardColumnWidths. */
+    width: number
+    value: (lp: P) => number
+}
+
+export type CoreScoreboard_Type = 'team' | 'ffa'
+
+export interface CoreScoreboard_IConfig<P extends CorePlayer_APlayer> {
+    type: CoreScoreboard_Type
+    /** Up to five columns, left to right. */
+    columns: CoreScoreboard_IColumn<P>[]
+    /** Label of the column to sort on. */
+    sortBy?: string
+    /** Sort ascending instead of the engine default. */
+    reverseSort?: boolean
+    /** String keys shown in the top-left corner, one per team for 'team'. */
+    header?: string | [string, string]
+    /** Seconds between change checks. Default 1. */
+    refreshInterval?: number
+}
+
+/** Engine limit of mod.SetScoreboardPlayerValues. */
+const CoreScoreboard_MAX_COLUMNS = 5
+
+/**
+ * CoreScoreboard_Scoreboard
+ *
+ * Declarative custom scoreboard. The mode declares columns with a value
+ * getter on its APlayer subclass; the scoreboard sets up the engine layout
+ * and pushes each player's values on join, after kill / death / assist /
+ * revive events and on a refresh interval. Values are only sent to the
+ * engine when they changed.
+ *
+ *     this.scoreboard = new CoreScoreboard_Scoreboard<TDM_Player>(this, {
+ *         type: 'team',
+ *         columns: [
+ *             { label: 'sb.score', width: 2, value: (lp) => lp.score },
+ *             { label: 'sb.kills', width: 1, value: (lp) => lp.stats.kills },
+ *             { label: 'sb.deaths', width: 1, value: (lp) => lp.stats.deaths },
+ *         ],
+ *         sortBy: 'sb.score',
+ *     })
+ *
+ * Create it in OnGameModeStarted, before players join. Call refresh() right
+ * after changing a value from a hook to skip the interval.
+ */
+export class CoreScoreboard_Scoreboard<P extends CorePlayer_APlayer> {
+    private gameMode: Core_AGameMode
+    private config: CoreScoreboard_IConfig<P>
+    private timer: CoreScheduler_Timer
+    /** Last values sent per player. */
+    private sent = new Map<CorePlayer_APlayer, number[]>()
+
+    constructor(gameMode: Core_AGameMode, config: CoreScoreboard_IConfig<P>) {
+        this.gameMode = gameMode
+        this.config = config
+
+        const extra = config.columns.length - CoreScoreboard_MAX_COLUMNS
+        if (extra > 0) {
+            console.log(`Scoreboard has ${extra} columns too many, ignored`)
+            config.columns = config.columns.slice(0, CoreScoreboard_MAX_COLUMNS)
+        }
+
+        gameMode.addListener(this.listener)
+        this.timer = gameMode.scheduler.setInterval(
+            () => this.refresh(),
+            config.refreshInterval ?? 1
+        )
+        this.applyLayout()
+        this.refresh()
+    }
+
+    get type(): CoreScoreboard_Type {
+        return this.config.type
+    }
+
+    /** Switches between the team and FFA scoreboards and resends values. */
+    setType(type: CoreScoreboard_Type): void {
+        if (type === this.config.type) return
+        this.config.type = type
+        this.applyLayout()
+        this.sent.clear()
+        this.refresh()
+    }
+
+    /** Pushes changed values of one player, or of everyone. */
+    refresh(lp?: CorePlayer_APlayer): void {
+        const players = lp ? [lp] : this.gameMode.allPlayers()
+        for (const player of players) this.push(player, false)
+    }
+
+    /** Stops pushing values. The engine keeps the last scoreboard shown. */
+    dispose(): void {
+        this.timer.cancel()
+        this.gameMode.removeListener(this.listener)
+        this.sent.clear()
+    }
+
+    /* ------------------------------------------------------------
+     * Internals
+     * ------------------------------------------------------------ */
+
+    private listener: CorePlayer_IGameModeEvents = {
+        OnPlayerJoinGame: (lp) => this.push(lp, true),
+        OnPlayerLeaveGame: (lp) => void this.sent.delete(lp),
+        OnPlayerDied: (lp, other) => this.refreshPair(lp, other),
+        OnPlayerEarnedKill: (lp, other) => this.refreshPair(lp, other),
+        OnPlayerEarnedKillAssist: (lp) => this.refresh(lp),
+        OnRevived: (lp, other) => this.refreshPair(lp, other),
+    }
+
+    private refreshPair(
+        lp: CorePlayer_APlayer,
+        other: CorePlayer_APlayer | undefined
+    ): void {
+        this.refresh(lp)
+        if (other && other !== lp) this.refresh(other)
+    }
+
+    private applyLayout(): void {
+        const { type, columns, sortBy, reverseSort, header } = this.config
+
+        mod.SetScoreboardType(
+            type === 'team'
+                ? mod.ScoreboardType.CustomTwoTeams
+                : mod.ScoreboardType.CustomFFA
+        )
+
+        // The engine functions are overloaded per column count
+        const setNames = mod.SetScoreboardColumnNames as (
+            ...names: mod.Message[]
+        ) => void
+        const setWidths = mod.SetScoreboardColumnWidths as (
+            ...widths: number[]
+        ) => void
+        setNames(...columns.map((column) => mod.Message(column.label)))
+        setWidths(...columns.map((column) => column.width))
+
+        if (typeof header === 'string') {
+            mod.SetScoreboardHeader(mod.Message(header))
+        } else if (header) {
+            mod.SetScoreboardHeader(
+                mod.Message(header[0]),
+                mod.Message(header[1])
+            )
+        }
+
+        if (sortBy !== undefined) {
+            const index = columns.findIndex((c) => c.label === sortBy)
+            if (index < 0) {
+                console.log(`Scoreboard sort column "${sortBy}" not found`)
+            } else {
+                // Engine columns are numbered from 1
+                mod.SetScoreboardSorting(index + 1, reverseSort ?? false)
+            }
+        }
+    }
+
+    private push(lp: CorePlayer_APlayer, force: boolean): void {
+        if (!mod.IsPlayerValid(lp.player)) return
+
+        const values = this.config.columns.map((column) =>
+            column.value(lp as P)
+        )
+        const previous = this.sent.get(lp)
+        if (
+            !force &&
+            previous &&
+            previous.every((value, i) => value === values[i])
+        ) {
+            return
+        }
+
+        this.sent.set(lp, values)
+        const setValues = mod.SetScoreboardPlayerValues as (
+            player: mod.Player,
+            ...values: number[]
+        ) => void
+        setValues(lp.player, ...values)
+    }
+}
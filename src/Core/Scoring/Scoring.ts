@@ -0,0 +1,311 @@
+import { CorePlayer_APlayer } from '../Player/APlayer'
+
+/** Ways a match can be won, see CoreScoring_IConfig.conditions. */
+export const CoreScoring_Conditions = {
+    /** First team to reach targetScore. */
+    TargetScore: 'targetScore',
+    /** Highest score when the time limit is reached. */
+    MostScoreAtTimeLimit: 'mostScoreAtTimeLimit',
+    /** Only one team has players standing. */
+    LastTeamStanding: 'lastTeamStanding',
+    /** The mode called completeObjective(team). */
+    ObjectiveComplete: 'objectiveComplete',
+    /** A Core_ARoundGameMode team won roundsToWin rounds. */
+    RoundsWon: 'roundsWon',
+} as const
+
+export type CoreScoring_Condition =
+    (typeof CoreScoring_Conditions)[keyof typeof CoreScoring_Conditions]
+
+/**
+ * What happens when the leading teams are tied at the time limit or both
+ * reach the target score:
+ *   draw         decide with no winner
+ *   overtime     extend by overtimeSeconds once, then draw if still tied
+ *   suddenDeath  extend by overtimeSeconds, the first team to lead wins
+ */
+export type CoreScoring_TieBreak = 'draw' | 'overtime' | 'suddenDeath'
+
+export interface CoreScoring_IConfig {
+    conditions: CoreScoring_Condition[]
+    /** Competing team ids. Default [1, 2]. */
+    teamIds?: number[]
+    targetScore?: number
+    /** Match duration in seconds. */
+    timeLimit?: number
+    /** Default 'draw'. */
+    onTie?: CoreScoring_TieBreak
+    /** Seconds added to the clock for overtime / sudden death. Default 60. */
+    overtimeSeconds?: number
+    /**
+     * Whether a player still counts for lastTeamStanding. Default
+     * gameMode.respawn.isStanding(lp): deployed (mandown included) or able
+     * to respawn.
+     */
+    isStanding?: (lp: CorePlayer_APlayer) => boolean
+    /** Call mod.EndGameMode once decided. Default true. */
+    endGame?: boolean
+}
+
+/** Payload of OnMatchDecided. */
+export interface CoreScoring_IDecision {
+    /** Undefined for a draw. */
+    winner: mod.Team | undefined
+    condition: CoreScoring_Condition
+    /** mod.GetMatchTimeElapsed() of the decision. */
+    time: number
+    /** True if decided during overtime or sudden death. */
+    overtime: boolean
+}
+
+/** Hooks into the owning game mode. */
+export interface CoreScoring_IHost {
+    players(): CorePlayer_APlayer[]
+    /** True while the match is in play; lastTeamStanding waits otherwise. */
+    isLive(): boolean
+    /** Default of CoreScoring_IConfig.isStanding. */
+    isStanding(lp: CorePlayer_APlayer): boolean
+    decided(decision: CoreScoring_IDecision): void
+    overtime(suddenDeath: boolean): void
+    /** Called on every score change, before conditions are evaluated. */
+    scoreChanged(team: mod.Team, score: number, previousScore: number): void
+}
+
+/**
+ * CoreScoring_Scoring
+ *
+ * Declarative win conditions owned by Core_AGameMode (gameMode.scoring).
+ * Modes declare how the match is won and change scores through this class
+ * instead of calling SetGameModeScore / EndGameMode by hand:
+ *
+ *     this.scoring.configure({
+ *         conditions: ['targetScore', 'mostScoreAtTimeLimit'],
+ *         targetScore: 100,
+ *         timeLimit: 600,
+ *         onTie: 'overtime',
+ *     })
+ *
+ *     this.scoring.addScore(lp.team!, 1)
+ *
+ * Conditions are evaluated on every score change, in OnTimeLimitReached and
+ * (lastTeamStanding) after deaths and leaves. lastTeamStanding is only
+ * evaluated while the match is live, and only among teams that have
+ * players. The first decision fires OnMatchDecided once; later changes are
+ * ignored.
+ */
+export class CoreScoring_Scoring {
+    private config: CoreScoring_IConfig = { conditions: [] }
+    private host: CoreScoring_IHost
+
+    private _decision: CoreScoring_IDecision | undefined
+    /** Condition that ended in a tie, set while in overtime. */
+    private tiedOn: CoreScoring_Condition | undefined
+    private suddenDeath = false
+
+    constructor(host: CoreScoring_IHost) {
+        this.host = host
+    }
+
+    /** Sets the conditions and pushes target score / time limit. */
+    configure(config: CoreScoring_IConfig): void {
+        this.config = config
+        if (config.targetScore !== undefined) {
+            this.setTargetScore(config.targetScore)
+        }
+        if (config.timeLimit !== undefined) {
+            this.setTimeLimit(config.timeLimit)
+        }
+    }
+
+    get decision(): CoreScoring_IDecision | undefined {
+        return this._decision
+    }
+
+    isDecided(): boolean {
+        return this._decision !== undefined
+    }
+
+    /** True during overtime or sudden death. */
+    isOvertime(): boolean {
+        return this.tiedOn !== undefined
+    }
+
+    /* ------------------------------------------------------------
+     * Scores
+     * ------------------------------------------------------------ */
+
+    score(team: mod.Team): number {
+        return mod.GetGameModeScore(team)
+    }
+
+    setScore(team: mod.Team, score: number): void {
+        const previousScore = this.score(team)
+        mod.SetGameModeScore(team, score)
+        if (score !== previousScore) {
+            this.host.scoreChanged(team, score, previousScore)
+        }
+        this.evaluateScores()
+    }
+
+    addScore(team: mod.Team, delta: number): void {
+        this.setScore(team, this.score(team) + delta)
+    }
+
+    setTargetScore(score: number): void {
+        this.config.targetScore = score
+        mod.SetGameModeTargetScore(score)
+    }
+
+    /** Match duration in seconds, counted from the start of the match. */
+    setTimeLimit(seconds: number): void {
+        this.config.timeLimit = seconds
+        mod.SetGameModeTimeLimit(seconds)
+    }
+
+    /** Decides the match for team if objectiveComplete is declared. */
+    completeObjective(team: mod.Team): void {
+        if (!this.declares('objectiveComplete')) return
+        this.decide(team, 'objectiveComplete')
+    }
+
+    /**
+     * Decides the match for winner (undefined for a draw) whatever the
+     * declared conditions. Ignored once the match is decided.
+     */
+    decide(
+        winner: mod.Team | undefined,
+        condition: CoreScoring_Condition
+    ): void {
+        if (this.isDecided()) return
+
+        this._decision = {
+            winner,
+            condition,
+            time: mod.GetMatchTimeElapsed(),
+            overtime: this.isOvertime(),
+        }
+        this.host.decided(this._decision)
+
+        if (this.config.endGame ?? true) {
+            mod.EndGameMode(winner ?? mod.GetTeam(0))
+        }
+    }
+
+    /* ------------------------------------------------------------
+     * Routes
+     * ------------------------------------------------------------ */
+
+    OnTimeLimitReached(): void {
+        if (this.isDecided()) return
+
+        const leaders = this.leaders()
+        if (this.tiedOn) {
+            // Overtime ran out; sudden death only gets here still tied
+            const winner = leaders.length === 1 ? leaders[0] : undefined
+            this.decide(winner, this.tiedOn)
+            return
+        }
+
+        if (!this.declares('mostScoreAtTimeLimit')) return
+        if (leaders.length === 1) {
+            this.decide(leaders[0], 'mostScoreAtTimeLimit')
+        } else {
+            this.tie('mostScoreAtTimeLimit')
+        }
+    }
+
+    OnPlayerDied(): void {
+        this.evaluateStanding()
+    }
+
+    OnPlayerLeaveGame(): void {
+        this.evaluateStanding()
+    }
+
+    /* ------------------------------------------------------------
+     * Internals
+     * ------------------------------------------------------------ */
+
+    private declares(condition: CoreScoring_Condition): boolean {
+        return this.config.conditions.includes(condition)
+    }
+
+    private teams(): mod.Team[] {
+        return (this.config.teamIds ?? [1, 2]).map((id) => mod.GetTeam(id))
+    }
+
+    /** Teams sharing the highest score. */
+    private leaders(): mod.Team[] {
+        const teams = this.teams()
+        const best = Math.max(...teams.map((team) => this.score(team)))
+        return teams.filter((team) => this.score(team) === best)
+    }
+
+    private evaluateScores(): void {
+        if (this.isDecided()) return
+
+        if (this.suddenDeath) {
+            const leaders = this.leaders()
+            if (leaders.length === 1) {
+                this.decide(leaders[0], this.tiedOn!)
+            }
+            return
+        }
+
+        const target = this.config.targetScore
+        if (!this.declares('targetScore') || target === undefined) return
+
+        const reached = this.leaders().filter(
+            (team) => this.score(team) >= target
+        )
+        if (reached.length === 1) {
+            this.decide(reached[0], 'targetScore')
+        } else if (reached.length > 1) {
+            this.tie('targetScore')
+        }
+    }
+
+    private evaluateStanding(): void {
+        if (this.isDecided() || !this.declares('lastTeamStanding')) return
+        if (!this.host.isLive()) return
+
+        const isStanding =
+            this.config.isStanding ??
+            ((lp: CorePlayer_APlayer) => this.host.isStanding(lp))
+        const players = this.host.players().filter((lp) => lp.team)
+        const idsOf = (list: CorePlayer_APlayer[]): number[] =>
+            list.map((lp) => mod.GetObjId(lp.team!))
+        const teamIds = idsOf(players)
+        const standingIds = idsOf(players.filter(isStanding))
+
+        // Teams without players, e.g. before anyone joined, are not counted
+        const teams = this.teams().filter((team) =>
+            teamIds.includes(mod.GetObjId(team))
+        )
+        if (teams.length < 2) return
+        const standing = teams.filter((team) =>
+            standingIds.includes(mod.GetObjId(team))
+        )
+
+        if (standing.length === 1) {
+            this.decide(standing[0], 'lastTeamStanding')
+        } else if (standing.length === 0) {
+            this.decide(undefined, 'lastTeamStanding')
+        }
+    }
+
+    private tie(condition: CoreScoring_Condition): void {
+        const onTie = this.config.onTie ?? 'draw'
+        if (onTie === 'draw' || this.isOvertime()) {
+            this.decide(undefined, condition)
+            return
+        }
+
+        this.tiedOn = condition
+        this.suddenDeath = onTie === 'suddenDeath'
+        mod.SetGameModeTimeLimit(
+            mod.GetMatchTimeElapsed() + (this.config.overtimeSeconds ?? 60)
+        )
+        this.host.overtime(this.suddenDeath)
+    }
+}
@@ -0,0 +1,18 @@
+import { CoreObject_AObject } from '../Object/AObject'
+import { CoreSector_ISectorEvents } from './ISectorEvents'
+
+/**
+ * CoreSector_ASector
+ *
+ * Logical wrapper around mod.Sector. The engine only reports OngoingSector
+ * for sectors, so this mostly serves as a stable home for per-sector data.
+ */
+
+export abstract class CoreSector_ASector extends CoreObject_AObject<
+    mod.Sector,
+    CoreSector_ISectorEvents
+> {
+    get sector(): mod.Sector {
+        return this.object
+    }
+}
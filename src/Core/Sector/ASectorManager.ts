@@ -0,0 +1,23 @@
+import { CoreObject_AObjectManager } from '../Object/AObjectManager'
+import { CoreSector_ASector } from './ASector'
+
+/**
+ * CoreSector_ASectorManager
+ *
+ * Manages logical sectors and dispatches sector events.
+ */
+
+export abstract class CoreSector_ASectorManager extends CoreObject_AObjectManager<
+    mod.Sector,
+    CoreSector_ASector
+> {
+    abstract createSector(sector: mod.Sector): CoreSector_ASector
+
+    protected createObject(sector: mod.Sector): CoreSector_ASector {
+        return this.createSector(sector)
+    }
+
+    tick(lsector: CoreSector_ASector): void {
+        lsector.emit('OngoingSector')
+    }
+}
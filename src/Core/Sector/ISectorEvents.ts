@@ -0,0 +1,4 @@
+export interface CoreSector_ISectorEvents {
+    // Ongoing tick
+    OngoingSector?(): void
+}
@@ -0,0 +1,95 @@
+/**
+ * CoreStats_Counters
+ *
+ * Combat counters shared by players and teams. Weapon and death type
+ * breakdowns are keyed by the engine values from the kill / death events.
+ *
+ * Damage is in health points, measured by CorePlayer_DamageLedger from the
+ * victim's CurrentHealth around each OnPlayerDamaged.
+ */
+export class CoreStats_Counters {
+    kills = 0
+    deaths = 0
+    assists = 0
+    /** Revives given to teammates. */
+    revives = 0
+    damageDealt = 0
+    damageTaken = 0
+
+    readonly killsByWeapon = new Map<mod.WeaponUnlock, number>()
+    readonly deathsByWeapon = new Map<mod.WeaponUnlock, number>()
+    readonly killsByDeathType = new Map<mod.DeathType, number>()
+    readonly deathsByDeathType = new Map<mod.DeathType, number>()
+
+    /** Kills per death; kills when there are no deaths yet. */
+    kd(): number {
+        return this.deaths === 0 ? this.kills : this.kills / this.deaths
+    }
+
+    addKill(deathType: mod.DeathType, weapon: mod.WeaponUnlock): void {
+        this.kills++
+        CoreStats_increment(this.killsByWeapon, weapon)
+        CoreStats_increment(this.killsByDeathType, deathType)
+    }
+
+    addDeath(deathType: mod.DeathType, weapon: mod.WeaponUnlock): void {
+        this.deaths++
+        CoreStats_increment(this.deathsByWeapon, weapon)
+        CoreStats_increment(this.deathsByDeathType, deathType)
+    }
+}
+
+/**
+ * CoreStats_PlayerStats
+ *
+ * Counters of one player plus life and streak tracking. Lives are measured
+ * in match seconds from OnPlayerDeployed to OnPlayerDied / OnPlayerUndeploy.
+ */
+export class CoreStats_PlayerStats extends CoreStats_Counters {
+    timesRevived = 0
+
+    /** Kills since the last death. */
+    currentStreak = 0
+    bestStreak = 0
+    /** Streak ended by the last death. */
+    endedStreak = 0
+
+    longestLife = 0
+    /** Match time of the current deploy, undefined while not deployed. */
+    lifeStartedAt: number | undefined
+
+    /** Seconds alive in the current life, 0 while not deployed. */
+    currentLife(): number {
+        if (this.lifeStartedAt === undefined) return 0
+        return mod.GetMatchTimeElapsed() - this.lifeStartedAt
+    }
+
+    /** Counts a kill toward the streak; kills of enemies only. */
+    addStreakKill(): void {
+        this.currentStreak++
+        this.bestStreak = Math.max(this.bestStreak, this.currentStreak)
+    }
+
+    override addDeath(
+        deathType: mod.DeathType,
+        weapon: mod.WeaponUnlock
+    ): void {
+        super.addDeath(deathType, weapon)
+        this.endedStreak = this.currentStreak
+        this.currentStreak = 0
+        this.endLife()
+    }
+
+    startLife(): void {
+        this.lifeStartedAt = mod.GetMatchTimeElapsed()
+    }
+
+    endLife(): void {
+        this.longestLife = Math.max(this.longestLife, this.currentLife())
+        this.lifeStartedAt = undefined
+    }
+}
+
+function CoreStats_increment<K>(map: Map<K, number>, key: K): void {
+    map.set(key, (map.get(key) ?? 0) + 1)
+}
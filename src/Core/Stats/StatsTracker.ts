@@ -0,0 +1,122 @@
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import { CoreStats_Counters } from './Stats'
+
+/**
+ * CoreStats_StatsTracker
+ *
+ * Owned by Core_AGameMode (gameMode.stats) and fed by the player routes
+ * before PlayerManager, so lp.stats already counts an event when listeners
+ * and the derived combat events see it. Player numbers live on each APlayer
+ * (lp.stats); team numbers are aggregated here, credited to the team the
+ * player was on when the event happened, so they survive team switches and
+ * leaves.
+ *
+ *     const kd = lp.stats.kd()
+ *     const rifleKills = lp.stats.killsByWeapon.get(weapon) ?? 0
+ *     const teamKills = this.stats.team(mod.GetTeam(1)).kills
+ */
+export class CoreStats_StatsTracker {
+    private teams = new Map<number, CoreStats_Counters>()
+
+    /** Aggregated counters of a team; zeroed counters if nothing happened. */
+    team(team: mod.Team): CoreStats_Counters {
+        return this.teamById(mod.GetObjId(team))
+    }
+
+    teamById(teamId: number): CoreStats_Counters {
+        let counters = this.teams.get(teamId)
+        if (!counters) {
+            counters = new CoreStats_Counters()
+            this.teams.set(teamId, counters)
+        }
+        return counters
+    }
+
+    /** Clears team totals. Player stats are reset by replacing lp.stats. */
+    resetTeams(): void {
+        this.teams.clear()
+    }
+
+    /* ------------------------------------------------------------
+     * Routes
+     * ------------------------------------------------------------ */
+
+    OnPlayerDeployed(lp: CorePlayer_APlayer): void {
+        lp.stats.startLife()
+    }
+
+    OnPlayerUndeploy(lp: CorePlayer_APlayer): void {
+        lp.stats.endLife()
+    }
+
+    OnPlayerDied(
+        lp: CorePlayer_APlayer,
+        eventDeathType: mod.DeathType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void {
+        lp.stats.addDeath(eventDeathType, eventWeaponUnlock)
+        this.teamOf(lp)?.addDeath(eventDeathType, eventWeaponUnlock)
+    }
+
+    OnPlayerEarnedKill(
+        lp: CorePlayer_APlayer,
+        victim: CorePlayer_APlayer | undefined,
+        eventDeathType: mod.DeathType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void {
+        lp.stats.addKill(eventDeathType, eventWeaponUnlock)
+        this.teamOf(lp)?.addKill(eventDeathType, eventWeaponUnlock)
+        // Team kills and suicides do not extend the streak
+        if (victim !== lp && !CoreStats_sameTeam(lp, victim)) {
+            lp.stats.addStreakKill()
+        }
+    }
+
+    OnPlayerEarnedKillAssist(lp: CorePlayer_APlayer): void {
+        lp.stats.assists++
+        const team = this.teamOf(lp)
+        if (team) team.assists++
+    }
+
+    OnRevived(
+        lp: CorePlayer_APlayer,
+        reviver: CorePlayer_APlayer | undefined
+    ): void {
+        lp.stats.timesRevived++
+        if (!reviver || reviver === lp) return
+
+        reviver.stats.revives++
+        const team = this.teamOf(reviver)
+        if (team) team.revives++
+    }
+
+    /** damage is the health the hit took, see CorePlayer_DamageLedger. */
+    OnPlayerDamaged(
+        lp: CorePlayer_APlayer,
+        attacker: CorePlayer_APlayer | undefined,
+        damage: number
+    ): void {
+        lp.stats.damageTaken += damage
+        const victimTeam = this.teamOf(lp)
+        if (victimTeam) victimTeam.damageTaken += damage
+
+        if (!attacker || attacker === lp) return
+
+        attacker.stats.damageDealt += damage
+        const attackerTeam = this.teamOf(attacker)
+        if (attackerTeam) attackerTeam.damageDealt += damage
+    }
+
+    private teamOf(lp: CorePlayer_APlayer): CoreStats_Counters | undefined {
+        return lp.team ? this.team(lp.team) : undefined
+    }
+}
+
+function CoreStats_sameTeam(
+    a: CorePlayer_APlayer,
+    b: CorePlayer_APlayer | undefined
+): boolean {
+    return (
+        !!a.team && !!b?.team && mod.GetObjId(a.team) === mod.GetObjId(b.team)
+    )
+}
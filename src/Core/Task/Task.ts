@@ -0,0 +1,129 @@
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import { CoreTask_TaskRunner } from './TaskRunner'
+
+export type CoreTask_State = 'running' | 'completed' | 'cancelled' | 'failed'
+
+/**
+ * CoreTask_Scope
+ *
+ * - 'match': lives until it finishes or is cancelled explicitly.
+ * - 'round': additionally cancelled when the current round ends.
+ */
+export type CoreTask_Scope = 'match' | 'round'
+
+/** Thrown from task waits once the task has been cancelled. */
+export class CoreTask_CancelledError extends Error {
+    constructor(taskName: string) {
+        super(`Task "${taskName}" was cancelled`)
+        this.name = 'CoreTask_CancelledError'
+    }
+}
+
+export interface CoreTask_IWaitUntilOptions {
+    /** Seconds before giving up. waitUntil then resolves to false. */
+    timeout?: number
+}
+
+/**
+ * CoreTask_Task
+ *
+ * A running coroutine started by CoreTask_TaskRunner.run(). The task is also
+ * the context passed to the coroutine body, so sequences read top to bottom:
+ *
+ *     this.tasks.run(async (task) => {
+ *         const owned = await task.waitUntil(
+ *             () => mod.GetCurrentOwnerTeam(point) === team,
+ *             { timeout: 120 }
+ *         )
+ *         if (!owned) return
+ *
+ *         await task.wait(5)
+ *         announce()
+ *     })
+ *
+ * Every wait throws CoreTask_CancelledError once the task is cancelled, which
+ * the runner swallows. result never rejects: it resolves to the return value,
+ * or undefined if the task was cancelled or failed.
+ */
+export class CoreTask_Task<T = void> {
+    state: CoreTask_State = 'running'
+    readonly result: Promise<T | undefined>
+
+    constructor(
+        private runner: CoreTask_TaskRunner,
+        readonly name: string,
+        readonly scope: CoreTask_Scope,
+        readonly owner: CorePlayer_APlayer | undefined,
+        body: (task: CoreTask_Task<T>) => Promise<T>
+    ) {
+        this.result = this.start(body)
+    }
+
+    isRunning(): boolean {
+        return this.state === 'running'
+    }
+
+    cancel(): void {
+        if (this.state !== 'running') return
+        this.state = 'cancelled'
+        this.runner._internal.cancelWaiters(this)
+    }
+
+    throwIfCancelled(): void {
+        if (this.state === 'cancelled') {
+            throw new CoreTask_CancelledError(this.name)
+        }
+    }
+
+    /** Waits the given number of seconds through mod.Wait. */
+    async wait(seconds: number): Promise<void> {
+        this.throwIfCancelled()
+        await mod.Wait(seconds)
+        this.throwIfCancelled()
+    }
+
+    /**
+     * Resolves true on the first tick the condition holds, or false once
+     * the timeout elapses. The condition is checked every OngoingGlobal.
+     */
+    async waitUntil(
+        condition: () => boolean,
+        options: CoreTask_IWaitUntilOptions = {}
+    ): Promise<boolean> {
+        this.throwIfCancelled()
+        if (condition()) return true
+
+        return this.runner._internal.addWaiter(this, condition, options.timeout)
+    }
+
+    /** Resumes on the next OngoingGlobal tick. */
+    async nextTick(): Promise<void> {
+        this.throwIfCancelled()
+        await this.runner._internal.addWaiter(this, () => true, undefined)
+    }
+
+    private async start(
+        body: (task: CoreTask_Task<T>) => Promise<T>
+    ): Promise<T | undefined> {
+        try {
+            const value = await body(this)
+            if (this.state === 'running') {
+                this.state = 'completed'
+            }
+            return value
+        } catch (error) {
+            if (
+                this.state === 'cancelled' ||
+                error instanceof CoreTask_CancelledError
+            ) {
+                this.state = 'cancelled'
+                return undefined
+            }
+            this.state = 'failed'
+            this.runner._internal.reportError(this, error)
+            return undefined
+        } finally {
+            this.runner._internal.finished(this)
+        }
+    }
+}
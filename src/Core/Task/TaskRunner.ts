@@ -0,0 +1,174 @@
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import { CoreScheduler_now } from '../Scheduler/Timer'
+import { CoreTask_CancelledError, CoreTask_Scope, CoreTask_Task } from './Task'
+
+export interface CoreTask_IRunOptions {
+    /** Shown in error reports. */
+    name?: string
+    /** Task is cancelled automatically when this player leaves. */
+    owner?: CorePlayer_APlayer
+    /** Defaults to 'match'. */
+    scope?: CoreTask_Scope
+}
+
+type CoreTask_Waiter = {
+    task: CoreTask_Task<unknown>
+    condition: () => boolean
+    deadline: number | undefined
+    resolve: (met: boolean) => void
+    reject: (error: unknown) => void
+}
+
+/**
+ * CoreTask_TaskRunner
+ *
+ * Cancellable coroutine runner owned by Core_AGameMode (gameMode.tasks).
+ * Timed waits go through mod.Wait; waitUntil conditions are polled on every
+ * OngoingGlobal tick, so they resume on the exact tick they become true.
+ *
+ * Errors thrown inside a task are reported through onError (console by
+ * default) instead of becoming silent unhandled rejections.
+ */
+export class CoreTask_TaskRunner {
+    private tasks = new Set<CoreTask_Task<unknown>>()
+    private waiters: CoreTask_Waiter[] = []
+    private owned = new Map<CorePlayer_APlayer, Set<CoreTask_Task<unknown>>>()
+
+    /** Called when a task body throws. Replace to route errors elsewhere. */
+    onError: (task: CoreTask_Task<unknown>, error: unknown) => void = (
+        task,
+        error
+    ) => {
+        console.log(`Task "${task.name}" failed: ${String(error)}`)
+    }
+
+    run<T>(
+        body: (task: CoreTask_Task<T>) => Promise<T>,
+        options: CoreTask_IRunOptions = {}
+    ): CoreTask_Task<T> {
+        const task = new CoreTask_Task<T>(
+            this,
+            options.name ?? 'task',
+            options.scope ?? 'match',
+            options.owner,
+            body
+        )
+
+        if (task.isRunning()) {
+            this.tasks.add(task)
+            if (options.owner) {
+                this.own(options.owner, task)
+            }
+        }
+        return task
+    }
+
+    running(): CoreTask_Task<unknown>[] {
+        return [...this.tasks]
+    }
+
+    cancelScope(scope: CoreTask_Scope): void {
+        for (const task of [...this.tasks]) {
+            if (task.scope === scope) task.cancel()
+        }
+    }
+
+    cancelOwnedBy(owner: CorePlayer_APlayer): void {
+        const tasks = this.owned.get(owner)
+        if (!tasks) return
+
+        for (const task of [...tasks]) task.cancel()
+    }
+
+    cancelAll(): void {
+        for (const task of [...this.tasks]) task.cancel()
+    }
+
+    /** Called by Core_AGameMode on every OngoingGlobal. */
+    tick(): void {
+        if (this.waiters.length === 0) return
+
+        const now = CoreScheduler_now('real')
+        const waiters = this.waiters
+        this.waiters = []
+
+        for (const waiter of waiters) {
+            let met: boolean
+            try {
+                met = waiter.condition()
+            } catch (error) {
+                waiter.reject(error)
+                continue
+            }
+
+            if (met) {
+                waiter.resolve(true)
+            } else if (
+                waiter.deadline !== undefined &&
+                now >= waiter.deadline
+            ) {
+                waiter.resolve(false)
+            } else {
+                this.waiters.push(waiter)
+            }
+        }
+    }
+
+    /**
+     * Used by CoreTask_Task only. Kept in a child object so it does not
+     * show up next to the public runner API.
+     */
+    readonly _internal = {
+        addWaiter: (
+            task: CoreTask_Task<unknown>,
+            condition: () => boolean,
+            timeout: number | undefined
+        ): Promise<boolean> => {
+            return new Promise<boolean>((resolve, reject) => {
+                this.waiters.push({
+                    task,
+                    condition,
+                    deadline:
+                        timeout === undefined
+                            ? undefined
+                            : CoreScheduler_now('real') + timeout,
+                    resolve,
+                    reject,
+                })
+            })
+        },
+
+        cancelWaiters: (task: CoreTask_Task<unknown>): void => {
+            const error = new CoreTask_CancelledError(task.name)
+            this.waiters = this.waiters.filter((waiter) => {
+                if (waiter.task !== task) return true
+                waiter.reject(error)
+                return false
+            })
+        },
+
+        finished: (task: CoreTask_Task<unknown>): void => {
+            this.tasks.delete(task)
+            if (task.owner) {
+                this.owned.get(task.owner)?.delete(task)
+            }
+        },
+
+        reportError: (task: CoreTask_Task<unknown>, error: unknown): void => {
+            this.onError(task, error)
+        },
+    }
+
+    private own(owner: CorePlayer_APlayer, task: CoreTask_Task<unknown>): void {
+        let tasks = this.owned.get(owner)
+        if (!tasks) {
+            tasks = new Set()
+            this.owned.set(owner, tasks)
+            owner.onDispose(() => {
+                this.cancelOwnedBy(owner)
+                this.owned.delete(owner)
+            })
+        }
+        tasks.add(task)
+    }
+}
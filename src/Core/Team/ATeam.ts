@@ -0,0 +1,86 @@
+import { CoreObject_AObject } from '../Object/AObject'
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import { CoreTeam_ITeamEvents } from './ITeamEvents'
+
+/**
+ * CoreTeam_ATeam
+ *
+ * Logical wrapper around mod.Team. Keeps the current member list and the set
+ * of members that are alive, and exposes the team score. Subclasses add their own fields
+ * for custom per-team data and subscribe to events emitted by
+ * CoreTeam_ATeamManager.
+ *
+ * Membership is maintained by the manager from OnPlayerJoinGame,
+ * OnPlayerSwitchTeam and OnPlayerLeaveGame, so members() never has to
+ * rescan mod.AllPlayers.
+ *
+ *     class MyTeam extends CoreTeam_ATeam {
+ *         constructor(team: mod.Team, gameMode: Core_AGameMode) {
+ *             super(team, gameMode)
+ *
+ *             this.addListener({
+ *                 OnLastMemberAlive: (lp) => {
+ *                     console.log("last alive:", mod.GetObjId(lp.player))
+ *                 },
+ *             })
+ *         }
+ *     }
+ */
+
+export abstract class CoreTeam_ATeam extends CoreObject_AObject<
+    mod.Team,
+    CoreTeam_ITeamEvents
+> {
+    /** Maintained by CoreTeam_ATeamManager; read through the helpers below. */
+    membersById = new Map<number, CorePlayer_APlayer>()
+    aliveIds = new Set<number>()
+
+    get team(): mod.Team {
+        return this.object
+    }
+
+    /** The team score, owned by gameMode.scoring. */
+    get score(): number {
+        return this.gameMode.scoring.score(this.team)
+    }
+
+    /**
+     * Called by Core_ARoundGameMode before every round. Override to reset
+     * per-round team data.
+     */
+    resetRoundState(round: number): void {}
+
+    members(): CorePlayer_APlayer[] {
+        return [...this.membersById.values()]
+    }
+
+    aliveMembers(): CorePlayer_APlayer[] {
+        return this.members().filter((lp) =>
+            this.aliveIds.has(mod.GetObjId(lp.player))
+        )
+    }
+
+    hasMember(playerId: number): boolean {
+        return this.membersById.has(playerId)
+    }
+
+    memberCount(): number {
+        return this.membersById.size
+    }
+
+    aliveCount(): number {
+        return this.aliveIds.size
+    }
+
+    /**
+     * Sets the team score through gameMode.scoring, which checks the win
+     * conditions; listeners get OnTeamScoreChanged.
+     */
+    setScore(score: number): void {
+        this.gameMode.scoring.setScore(this.team, score)
+    }
+
+    addScore(delta: number): void {
+        this.gameMode.scoring.addScore(this.team, delta)
+    }
+}
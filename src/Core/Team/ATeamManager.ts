@@ -0,0 +1,180 @@
+import { CoreObject_AObjectManager } from '../Object/AObjectManager'
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import { CoreTeam_ATeam } from './ATeam'
+
+/**
+ * CoreTeam_ATeamManager
+ *
+ * Manages logical teams, keeps team membership and alive state up to date
+ * and dispatches team events, including derived ones such as
+ * OnLastMemberAlive and OnTeamEliminated.
+ *
+ * Lifecycle:
+ *   Engine Event -> GameMode._internal -> TeamManager -> ATeam.emit
+ */
+
+export abstract class CoreTeam_ATeamManager extends CoreObject_AObjectManager<
+    mod.Team,
+    CoreTeam_ATeam
+> {
+    /** Player id -> team the player is currently a member of. */
+    protected playerTeams = new Map<number, CoreTeam_ATeam>()
+
+    abstract createTeam(team: mod.Team): CoreTeam_ATeam
+
+    protected createObject(team: mod.Team): CoreTeam_ATeam {
+        return this.createTeam(team)
+    }
+
+    /** Returns the team the logical player currently belongs to. */
+    teamOf(lp: CorePlayer_APlayer): CoreTeam_ATeam | undefined {
+        return this.playerTeams.get(mod.GetObjId(lp.player))
+    }
+
+    teamOfId(playerId: number): CoreTeam_ATeam | undefined {
+        return this.playerTeams.get(playerId)
+    }
+
+    /* ------------------------------------------------------------
+     * Ongoing
+     * ------------------------------------------------------------ */
+
+    tick(lt: CoreTeam_ATeam): void {
+        lt.emit('OngoingTeam')
+    }
+
+    /* ------------------------------------------------------------
+     * Membership
+     * ------------------------------------------------------------ */
+
+    OnPlayerJoinGame(lp: CorePlayer_APlayer): void {
+        this.addMember(this.get(mod.GetTeam(lp.player)), lp)
+    }
+
+    OnPlayerSwitchTeam(lp: CorePlayer_APlayer, eventTeam: mod.Team): void {
+        const playerId = mod.GetObjId(lp.player)
+        const next = this.get(eventTeam)
+        if (this.playerTeams.get(playerId) === next) return
+
+        this.removeMember(playerId)
+        this.addMember(next, lp)
+    }
+
+    OnPlayerLeaveGame(playerId: number): void {
+        this.removeMember(playerId)
+    }
+
+    /* ------------------------------------------------------------
+     * Score
+     * ------------------------------------------------------------ */
+
+    /** Called by gameMode.scoring on every score change. */
+    OnTeamScoreChanged(
+        team: mod.Team,
+        score: number,
+        previousScore: number
+    ): void {
+        this.get(team).emit('OnTeamScoreChanged', score, previousScore)
+    }
+
+    /* ------------------------------------------------------------
+     * Member lifecycle
+     * ------------------------------------------------------------ */
+
+    OnPlayerDeployed(lp: CorePlayer_APlayer): void {
+        const lt = this.teamOf(lp)
+        if (!lt) return
+
+        this.setAlive(lt, mod.GetObjId(lp.player), true)
+        lt.emit('OnMemberDeployed', lp)
+    }
+
+    OnPlayerDied(
+        lp: CorePlayer_APlayer,
+        other: CorePlayer_APlayer | undefined,
+        eventDeathType: mod.DeathType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void {
+        const lt = this.teamOf(lp)
+        if (!lt) return
+
+        lt.emit('OnMemberDied', lp, other, eventDeathType, eventWeaponUnlock)
+        this.setAlive(lt, mod.GetObjId(lp.player), false)
+    }
+
+    OnMandown(lp: CorePlayer_APlayer): void {
+        const lt = this.teamOf(lp)
+        if (!lt) return
+        this.setAlive(lt, mod.GetObjId(lp.player), false)
+    }
+
+    OnRevived(lp: CorePlayer_APlayer): void {
+        const lt = this.teamOf(lp)
+        if (!lt) return
+        this.setAlive(lt, mod.GetObjId(lp.player), true)
+    }
+
+    OnPlayerUndeploy(lp: CorePlayer_APlayer): void {
+        const lt = this.teamOf(lp)
+        if (!lt) return
+        this.setAlive(lt, mod.GetObjId(lp.player), false)
+    }
+
+    /* ------------------------------------------------------------
+     * Internals
+     * ------------------------------------------------------------ */
+
+    private addMember(lt: CoreTeam_ATeam, lp: CorePlayer_APlayer): void {
+        const playerId = mod.GetObjId(lp.player)
+        lt.membersById.set(playerId, lp)
+        this.playerTeams.set(playerId, lt)
+
+        lt.emit('OnMemberJoined', lp)
+
+        if (mod.GetSoldierState(lp.player, mod.SoldierStateBool.IsAlive)) {
+            this.setAlive(lt, playerId, true)
+        }
+    }
+
+    private removeMember(playerId: number): void {
+        const lt = this.playerTeams.get(playerId)
+        if (!lt) return
+
+        const lp = lt.membersById.get(playerId)
+
+        this.setAlive(lt, playerId, false)
+        lt.membersById.delete(playerId)
+        this.playerTeams.delete(playerId)
+
+        if (lp) {
+            lt.emit('OnMemberLeft', lp)
+        }
+    }
+
+    private setAlive(
+        lt: CoreTeam_ATeam,
+        playerId: number,
+        alive: boolean
+    ): void {
+        const aliveIds = lt.aliveIds
+        const before = aliveIds.size
+
+        if (alive) {
+            aliveIds.add(playerId)
+            return
+        }
+
+        aliveIds.delete(playerId)
+        if (aliveIds.size === before) return
+
+        if (aliveIds.size === 1) {
+            const [lastId] = aliveIds
+            const last = lt.membersById.get(lastId)
+            if (last) {
+                lt.emit('OnLastMemberAlive', last)
+            }
+        } else if (aliveIds.size === 0) {
+            lt.emit('OnTeamEliminated')
+        }
+    }
+}
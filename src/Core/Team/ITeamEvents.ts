@@ -0,0 +1,24 @@
+import { CorePlayer_APlayer } from '../Player/APlayer'
+
+export interface CoreTeam_ITeamEvents {
+    // Membership
+    OnMemberJoined?(lp: CorePlayer_APlayer): void
+    OnMemberLeft?(lp: CorePlayer_APlayer): void
+
+    // Member lifecycle
+    OnMemberDeployed?(lp: CorePlayer_APlayer): void
+    OnMemberDied?(
+        lp: CorePlayer_APlayer,
+        eventOtherPlayer: CorePlayer_APlayer | undefined,
+        eventDeathType: mod.DeathType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void
+    OnLastMemberAlive?(lp: CorePlayer_APlayer): void
+    OnTeamEliminated?(): void
+
+    // Score
+    OnTeamScoreChanged?(score: number, previousScore: number): void
+
+    // Ongoing tick
+    OngoingTeam?(): void
+}
@@ -0,0 +1,338 @@
+import { Core_AGameMode } from '../AGameMode'
+import { CorePhase_Ids } from '../Phase/IPhase'
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import { CoreScheduler_now, CoreScheduler_Timer } from '../Scheduler/Timer'
+
+/** Balancing rules. Balancing is off until configure() is called. */
+export interface CoreTeam_IBalanceRules {
+    /** Teams to keep even. Default [1, 2]. */
+    teamIds?: number[]
+    /** Largest accepted difference in team size. Default 1. */
+    maxDifference?: number
+    /**
+     * Also even out skill when choosing who moves: true uses the session
+     * K/D from lp.stats, or pass a score of your own.
+     */
+    skill?: true | ((lp: CorePlayer_APlayer) => number)
+    /** Seconds between the warning and the move. Default 5. */
+    warnSeconds?: number
+    /** Players who joined within this many seconds go first. Default 60. */
+    recentSeconds?: number
+    /** Balance when a player joins. Default true. */
+    onJoin?: boolean
+    /** Balance when a player leaves. Default true. */
+    onLeave?: boolean
+    /** Balance between rounds of a Core_ARoundGameMode. Default true. */
+    betweenRounds?: boolean
+    /**
+     * Also move players while a Core_ARoundGameMode round is being played.
+     * Default false: joins and leaves are balanced between rounds.
+     */
+    midRound?: boolean
+}
+
+/** Players that move together: a squad, or a player without squadmates. */
+interface CoreTeam_IUnit {
+    members: CorePlayer_APlayer[]
+    /** Lower moves first. */
+    preference: number
+    joinedAt: number
+    skill: number
+}
+
+/** A warned unit and the team it moves to. */
+interface CoreTeam_IPendingMove {
+    members: CorePlayer_APlayer[]
+    team: number
+    timer: CoreScheduler_Timer
+}
+
+/**
+ * CoreTeam_TeamBalancer
+ *
+ * Automatic team balancing owned by Core_AGameMode (gameMode.balancer):
+ *
+ *     this.balancer.configure({ maxDifference: 1, skill: true })
+ *
+ * When the teams drift further apart than maxDifference after a join or a
+ * leave, players on the largest team are warned and moved to the smallest
+ * after warnSeconds, if the teams are still uneven by then. Between rounds
+ * they are moved right away. Squads are moved whole or not at all.
+ *
+ * Players who are dead or not deployed, then recently joined players, are
+ * picked first; with skill set the pick that best evens the total skill
+ * wins among them.
+ *
+ * Players are only moved while nobody is fighting over the result: in the
+ * Warmup, PreRound, Live or Overtime phases (or any time without phases),
+ * and in a Core_ARoundGameMode only between rounds unless midRound is set.
+ * Balancing asked for at another time waits for the next phase that allows
+ * it or for the next round intermission.
+ *
+ * Moves go through gameMode.moveToTeam(), so OnPlayerSwitchTeam fires once
+ * per move whether or not the engine reports it.
+ */
+export class CoreTeam_TeamBalancer {
+    private gameMode: Core_AGameMode
+    private rules: CoreTeam_IBalanceRules | undefined
+    private joinedAt = new Map<CorePlayer_APlayer, number>()
+    /** Warned players by the move they are part of. */
+    private pending = new Map<CorePlayer_APlayer, CoreTeam_IPendingMove>()
+    /** Balancing was asked for while players could not be moved. */
+    private deferred = false
+    /** Set once a Core_ARoundGameMode round started. */
+    private rounds = false
+
+    constructor(gameMode: Core_AGameMode) {
+        this.gameMode = gameMode
+    }
+
+    configure(rules: CoreTeam_IBalanceRules): void {
+        this.rules = rules
+    }
+
+    /** Players per team id, counting warned players on their new team. */
+    sizes(): Map<number, number> {
+        const sizes = new Map<number, number>()
+        for (const id of this.rules?.teamIds ?? [1, 2]) sizes.set(id, 0)
+        for (const lp of this.gameMode.allPlayers()) {
+            const id = this.teamId(lp)
+            if (id !== undefined && sizes.has(id)) {
+                sizes.set(id, sizes.get(id)! + 1)
+            }
+        }
+        return sizes
+    }
+
+    /** Warned and about to be moved. */
+    isPending(lp: CorePlayer_APlayer): boolean {
+        return this.pending.has(lp)
+    }
+
+    /**
+     * Evens out the teams. Players are warned and moved after warnSeconds,
+     * or moved at once when immediate is set.
+     */
+    balance(immediate = false): void {
+        const rules = this.rules
+        if (!rules) return
+
+        for (;;) {
+            const sizes = [...this.sizes()].sort((a, b) => b[1] - a[1])
+            const [from, largest] = sizes[0]
+            const [to, smallest] = sizes[sizes.length - 1]
+            const excess = Math.floor((largest - smallest) / 2)
+            if (largest - smallest <= (rules.maxDifference ?? 1)) return
+
+            const unit = this.pick(from, to, excess)
+            if (!unit) return
+            if (!immediate) this.warn(unit, to)
+            else for (const lp of unit.members) this.move(lp, to)
+        }
+    }
+
+    /* ------------------------------------------------------------
+     * Routes
+     * ------------------------------------------------------------ */
+
+    OnPlayerJoinGame(lp: CorePlayer_APlayer): void {
+        this.joinedAt.set(lp, CoreScheduler_now('match'))
+        if (this.rules?.onJoin ?? true) this.request()
+    }
+
+    OnPlayerLeaveGame(lp: CorePlayer_APlayer): void {
+        this.cancel(lp)
+        this.joinedAt.delete(lp)
+        if (this.rules?.onLeave ?? true) this.request()
+    }
+
+    OnPhaseChanged(): void {
+        if (!this.deferred || !this.canMove()) return
+        this.deferred = false
+        this.balance()
+    }
+
+    /** Called by Core_ARoundGameMode when a round starts. */
+    OnRoundStarted(): void {
+        this.rounds = true
+    }
+
+    /** Called by Core_ARoundGameMode while everyone is undeployed. */
+    OnRoundIntermission(): void {
+        const deferred = this.deferred
+        this.deferred = false
+        if (!deferred && !(this.rules?.betweenRounds ?? true)) return
+        // Players already warned go now, with everyone else
+        for (const [lp, move] of [...this.pending]) this.move(lp, move.team)
+        this.balance(true)
+    }
+
+    /* ------------------------------------------------------------
+     * Internals
+     * ------------------------------------------------------------ */
+
+    /** Balances now if players may be moved, or once they may. */
+    private request(): void {
+        if (this.canMove()) this.balance()
+        else if (this.rules) this.deferred = true
+    }
+
+    private canMove(): boolean {
+        if (this.rounds) {
+            return (this.rules?.midRound ?? false) && this.gameMode.isLive()
+        }
+        const phase = this.gameMode.phases.current
+        return (
+            this.gameMode.isLive() ||
+            phase === CorePhase_Ids.Warmup ||
+            phase === CorePhase_Ids.PreRound
+        )
+    }
+
+    private teamId(lp: CorePlayer_APlayer): number | undefined {
+        const pending = this.pending.get(lp)
+        if (pending) return pending.team
+        return lp.team ? mod.GetObjId(lp.team) : undefined
+    }
+
+    /**
+     * The unit on team from to move to team to: no more than excess
+     * players, preferred players first, best skill fit among them.
+     */
+    private pick(
+        from: number,
+        to: number,
+        excess: number
+    ): CoreTeam_IUnit | undefined {
+        const units = this.units(from).filter(
+            (unit) => unit.members.length <= excess
+        )
+        if (units.length === 0) return undefined
+
+        const skill = this.rules?.skill
+        // Skill gap left after moving the unit; 0 when skill is off
+        const gap = (unit: CoreTeam_IUnit): number => {
+            if (!skill) return 0
+            const fromSkill = this.teamSkill(from) - unit.skill
+            const toSkill = this.teamSkill(to) + unit.skill
+            return Math.abs(fromSkill - toSkill)
+        }
+
+        units.sort(
+            (a, b) =>
+                a.preference - b.preference ||
+                gap(a) - gap(b) ||
+                b.joinedAt - a.joinedAt
+        )
+        return units[0]
+    }
+
+    /** Players on the team grouped by squad, skipping warned players. */
+    private units(teamId: number): CoreTeam_IUnit[] {
+        const players = this.gameMode
+            .allPlayers()
+            .filter((lp) => !this.pending.has(lp) && this.teamId(lp) === teamId)
+
+        const squads: CorePlayer_APlayer[][] = []
+        for (const lp of players) {
+            const squad = mod.GetSquad(lp.player)
+            const same = squads.find((members) =>
+                mod.Equals(mod.GetSquad(members[0].player), squad)
+            )
+            if (same) same.push(lp)
+            else squads.push([lp])
+        }
+
+        const now = CoreScheduler_now('match')
+        const recent = this.rules?.recentSeconds ?? 60
+        return squads.map((members) => {
+            const joinedAt = Math.max(
+                ...members.map((lp) => this.joinedAt.get(lp) ?? 0)
+            )
+            const idle = members.every((lp) => !lp.isAlive())
+            const isRecent = now - joinedAt <= recent
+            return {
+                members,
+                preference: idle ? 0 : isRecent ? 1 : 2,
+                joinedAt,
+                skill: members.reduce((sum, lp) => sum + this.skillOf(lp), 0),
+            }
+        })
+    }
+
+    private teamSkill(teamId: number): number {
+        return this.gameMode
+            .allPlayers()
+            .filter((lp) => this.teamId(lp) === teamId)
+            .reduce((sum, lp) => sum + this.skillOf(lp), 0)
+    }
+
+    private skillOf(lp: CorePlayer_APlayer): number {
+        const skill = this.rules?.skill
+        if (!skill) return 0
+        return skill === true ? lp.stats.kd() : skill(lp)
+    }
+
+    /** Warns every member now and moves them together after warnSeconds. */
+    private warn(unit: CoreTeam_IUnit, teamId: number): void {
+        const seconds = this.rules?.warnSeconds ?? 5
+        const move: CoreTeam_IPendingMove = {
+            members: [...unit.members],
+            team: teamId,
+            timer: this.gameMode.scheduler.setTimeout(
+                () => this.confirm(move),
+                seconds
+            ),
+        }
+        for (const lp of move.members) {
+            this.pending.set(lp, move)
+            mod.DisplayNotificationMessage(
+                mod.Message('core.team.balance.warning', seconds),
+                lp.player
+            )
+        }
+    }
+
+    /** Moves a warned unit unless the teams evened out meanwhile. */
+    private confirm(move: CoreTeam_IPendingMove): void {
+        for (const lp of move.members) this.pending.delete(lp)
+        if (move.members.length === 0) return
+        if (!this.canMove()) {
+            this.deferred = true
+            return
+        }
+
+        // Actual team sizes, without the other warned players
+        const count = (teamId: number): number =>
+            this.gameMode
+                .allPlayers()
+                .filter((lp) => lp.team && mod.GetObjId(lp.team) === teamId)
+                .length
+        const from = move.members[0].team
+        if (!from) return
+        const difference = count(mod.GetObjId(from)) - count(move.team)
+
+        // Every player moved closes the gap by two
+        const needed = 2 * move.members.length
+        if (
+            difference > (this.rules?.maxDifference ?? 1) &&
+            difference >= needed
+        ) {
+            for (const lp of move.members) this.move(lp, move.team)
+        }
+    }
+
+    private move(lp: CorePlayer_APlayer, teamId: number): void {
+        this.cancel(lp)
+        this.gameMode.moveToTeam(lp, mod.GetTeam(teamId))
+    }
+
+    /** Drops lp from its pending move; the rest of the unit still moves. */
+    private cancel(lp: CorePlayer_APlayer): void {
+        const move = this.pending.get(lp)
+        if (!move) return
+        this.pending.delete(lp)
+        move.members = move.members.filter((member) => member !== lp)
+        if (move.members.length === 0) move.timer.cancel()
+    }
+}
@@ -0,0 +1,21 @@
+import { CoreObject_AObject } from '../Object/AObject'
+import { CoreVehicle_IVehicleEvents } from './IVehicleEvents'
+
+/**
+ * CoreVehicle_AVehicle
+ *
+ * Logical wrapper around mod.Vehicle. Subclasses store per-vehicle data and
+ * react to events emitted by CoreVehicle_AVehicleManager.
+ *
+ * The logical vehicle is dropped by the manager after OnVehicleDestroyed has
+ * been emitted, so do not keep references to it past that event.
+ */
+
+export abstract class CoreVehicle_AVehicle extends CoreObject_AObject<
+    mod.Vehicle,
+    CoreVehicle_IVehicleEvents
+> {
+    get vehicle(): mod.Vehicle {
+        return this.object
+    }
+}
@@ -0,0 +1,78 @@
+import { CoreObject_AObjectManager } from '../Object/AObjectManager'
+import { CorePlayer_APlayer } from '../Player/APlayer'
+import { CoreVehicle_AVehicle } from './AVehicle'
+
+/**
+ * CoreVehicle_AVehicleManager
+ *
+ * Manages logical vehicles and dispatches all vehicle events.
+ *
+ * Lifecycle:
+ *   Engine Event -> GameMode._internal -> VehicleManager -> AVehicle.emit
+ */
+
+export abstract class CoreVehicle_AVehicleManager extends CoreObject_AObjectManager<
+    mod.Vehicle,
+    CoreVehicle_AVehicle
+> {
+    abstract createVehicle(vehicle: mod.Vehicle): CoreVehicle_AVehicle
+
+    protected createObject(vehicle: mod.Vehicle): CoreVehicle_AVehicle {
+        return this.createVehicle(vehicle)
+    }
+
+    /* ------------------------------------------------------------
+     * Ongoing
+     * ------------------------------------------------------------ */
+
+    tick(lv: CoreVehicle_AVehicle): void {
+        lv.emit('OngoingVehicle')
+    }
+
+    /* ------------------------------------------------------------
+     * Lifecycle
+     * ------------------------------------------------------------ */
+
+    OnVehicleSpawned(lv: CoreVehicle_AVehicle): void {
+        lv.emit('OnVehicleSpawned')
+    }
+
+    OnVehicleDestroyed(lv: CoreVehicle_AVehicle): void {
+        lv.emit('OnVehicleDestroyed')
+        this.remove(lv.id)
+    }
+
+    /* ------------------------------------------------------------
+     * Occupants
+     * ------------------------------------------------------------ */
+
+    OnPlayerEnterVehicle(
+        lv: CoreVehicle_AVehicle,
+        lp: CorePlayer_APlayer
+    ): void {
+        lv.emit('OnPlayerEnterVehicle', lp)
+    }
+
+    OnPlayerExitVehicle(
+        lv: CoreVehicle_AVehicle,
+        lp: CorePlayer_APlayer
+    ): void {
+        lv.emit('OnPlayerExitVehicle', lp)
+    }
+
+    OnPlayerEnterVehicleSeat(
+        lv: CoreVehicle_AVehicle,
+        lp: CorePlayer_APlayer,
+        eventSeat: mod.Object
+    ): void {
+        lv.emit('OnPlayerEnterVehicleSeat', lp, eventSeat)
+    }
+
+    OnPlayerExitVehicleSeat(
+        lv: CoreVehicle_AVehicle,
+        lp: CorePlayer_APlayer,
+        eventSeat: mod.Object
+    ): void {
+        lv.emit('OnPlayerExitVehicleSeat', lp, eventSeat)
+    }
+}
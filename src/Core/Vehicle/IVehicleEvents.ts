@@ -0,0 +1,22 @@
+import { CorePlayer_APlayer } from '../Player/APlayer'
+
+export interface CoreVehicle_IVehicleEvents {
+    // Lifecycle
+    OnVehicleSpawned?(): void
+    OnVehicleDestroyed?(): void
+
+    // Occupants
+    OnPlayerEnterVehicle?(lp: CorePlayer_APlayer): void
+    OnPlayerExitVehicle?(lp: CorePlayer_APlayer): void
+    OnPlayerEnterVehicleSeat?(
+        lp: CorePlayer_APlayer,
+        eventSeat: mod.Object
+    ): void
+    OnPlayerExitVehicleSeat?(
+        lp: CorePlayer_APlayer,
+        eventSeat: mod.Object
+    ): void
+
+    // Ongoing tick
+    OngoingVehicle?(): void
+}
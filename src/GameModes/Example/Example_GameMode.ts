@@ -1,12 +1,15 @@
 import { CorePlayer_APlayerManager } from 'src/Core/Player/APlayerManager'
+import { CoreTeam_ATeamManager } from 'src/Core/Team/ATeamManager'
 import { Core_AGameMode } from '../../Core/AGameMode'
 import { Example_PlayerManager } from './Example_PlayerManager'
+import { Example_TeamManager } from './Example_TeamManager'
 import { Example_FooClass } from './Foo/FooClass'
 
 /**
  * Example_GameMode
  *
- * Minimal game mode that uses Example_PlayerManager and Example_Player.
+ * Minimal game mode that uses Example_PlayerManager, Example_Player and
+ * Example_TeamManager.
  * This class demonstrates how to:
  * - Initialize a custom player manager
  * - React to basic events
@@ -20,6 +23,10 @@ export class Example_GameMode extends Core_AGameMode {
         return new Example_PlayerManager(this)
     }
 
+    protected override createTeamManager(): CoreTeam_ATeamManager {
+        return new Example_TeamManager(this)
+    }
+
     protected override OnGameModeStarted(): void {
         console.log('Example game mode started!')
 
@@ -27,7 +34,7 @@ export class Example_GameMode extends Core_AGameMode {
             mod.Message(`debug.gamemode.started`)
         )
 
-        // Foo class to demostrate throttled OngoingGlobal event
+        // Foo class to demostrate a scheduler interval
         const foo: Example_FooClass = new Example_FooClass(this)
     }
 }
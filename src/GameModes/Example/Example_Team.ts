@@ -0,0 +1,25 @@
+import { Core_AGameMode } from 'src/Core/AGameMode'
+import { CoreTeam_ATeam } from '../../Core/Team/ATeam'
+
+/**
+ * Example_Team
+ *
+ * Minimal logical team class.
+ * Stores no custom data, only demonstrates derived team events.
+ */
+export class Example_Team extends CoreTeam_ATeam {
+    constructor(team: mod.Team, gameMode: Core_AGameMode) {
+        super(team, gameMode)
+
+        this.addListener({
+            OnLastMemberAlive: (lp) => {
+                console.log(
+                    'Example team ' +
+                        this.id +
+                        ' last member alive: ' +
+                        mod.GetObjId(lp.player)
+                )
+            },
+        })
+    }
+}
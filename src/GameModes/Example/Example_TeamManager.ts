@@ -0,0 +1,15 @@
+import { CoreTeam_ATeamManager } from '../../Core/Team/ATeamManager'
+import { Example_Team } from './Example_Team'
+import { CoreTeam_ATeam } from 'src/Core/Team/ATeam'
+
+/**
+ * Example_TeamManager
+ *
+ * Minimal implementation of a team manager.
+ * Demonstrates creating Example_Team on first sight of a team.
+ */
+export class Example_TeamManager extends CoreTeam_ATeamManager {
+    createTeam(team: mod.Team): CoreTeam_ATeam {
+        return new Example_Team(team, this.gameMode)
+    }
+}
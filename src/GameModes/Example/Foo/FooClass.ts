@@ -1,34 +1,33 @@
+import { CoreScheduler_Timer } from 'src/Core/Scheduler/Timer'
 import { Example_GameMode } from '../Example_GameMode'
 
 /**
  * Example_FooClass
  *
- * Demonstrates how to subscribe to Example_GameMode events and throttle
- * OngoingGlobal logic. This class listens to the OngoingGlobal event,
- * which fires every tick, but limits its own execution to once every
- * 4 seconds using a simple Date.now() based throttle.
+ * Demonstrates how to run periodic logic through the game mode scheduler
+ * instead of executing every OngoingGlobal tick. This class registers a
+ * 4 second interval on gameMode.scheduler and keeps the returned handle so
+ * it can be cancelled later.
  *
  * Use this as a reference for building utility systems that need to run
  * periodically without executing every tick.
  */
 export class Example_FooClass {
-    private lastTime = 0
-    private interval = 4000 // ms
+    private interval = 4 // seconds
+    private timer: CoreScheduler_Timer
 
     constructor(private gameMode: Example_GameMode) {
-        this.gameMode.addListener({
-            OngoingGlobal: () => this.onTick(),
-        })
+        this.timer = this.gameMode.scheduler.setInterval(
+            () => this.onTick(),
+            this.interval
+        )
     }
 
-    private onTick(): void {
-        const now = Date.now()
-
-        if (now - this.lastTime < this.interval) {
-            return
-        }
-        this.lastTime = now
+    stop(): void {
+        this.timer.cancel()
+    }
 
+    private onTick(): void {
         console.log('Example game mode throttled Ongoing...')
 
         mod.DisplayHighlightedWorldLogMessage(
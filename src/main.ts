@@ -67,174 +67,193 @@
  * and ensure that custom game modes behave consistently with the engine rules.
  */
 
+import { BuildConfig } from './BuildConfig'
 import { Core_AGameMode } from './Core/AGameMode'
+import { Core_GameModeRegistry } from './Core/GameModeRegistry'
 import { Example_GameMode } from './GameModes/Example/Example_GameMode'
 
-const gameMode: Core_AGameMode = new Example_GameMode()
+// Every game mode this build ships. Registered here rather than as a side
+// effect of importing the mode file, so the list survives bundling.
+Core_GameModeRegistry.register({
+    id: 'example',
+    create: () => new Example_GameMode(),
+    isDefault: true,
+})
+
+let gameMode: Core_AGameMode | undefined
+
+// Selected on the first engine event so map predicates see the live match.
+function getGameMode(): Core_AGameMode {
+    if (!gameMode) {
+        gameMode = Core_GameModeRegistry.create(BuildConfig.gameModeOverride)
+        if (BuildConfig.recordEvents) gameMode.recorder.enabled = true
+    }
+    return gameMode
+}
 
 // This will trigger every engine tick while the gamemode is running.
 export function OngoingGlobal(): void {
-    gameMode._internal.OngoingGlobal()
+    getGameMode()._internal.OngoingGlobal()
 }
 
 // This will trigger every tick for each AreaTrigger.
 export function OngoingAreaTrigger(eventAreaTrigger: mod.AreaTrigger): void {
-    gameMode._internal.OngoingAreaTrigger(eventAreaTrigger)
+    getGameMode()._internal.OngoingAreaTrigger(eventAreaTrigger)
 }
 
 // This will trigger every tick for each CapturePoint.
 export function OngoingCapturePoint(eventCapturePoint: mod.CapturePoint): void {
-    gameMode._internal.OngoingCapturePoint(eventCapturePoint)
+    getGameMode()._internal.OngoingCapturePoint(eventCapturePoint)
 }
 
 // This will trigger every tick for each EmplacementSpawner.
 export function OngoingEmplacementSpawner(
     eventEmplacementSpawner: mod.EmplacementSpawner
 ): void {
-    gameMode._internal.OngoingEmplacementSpawner(eventEmplacementSpawner)
+    getGameMode()._internal.OngoingEmplacementSpawner(eventEmplacementSpawner)
 }
 
 // This will trigger every tick for the HQ object.
 export function OngoingHQ(eventHQ: mod.HQ): void {
-    gameMode._internal.OngoingHQ(eventHQ)
+    getGameMode()._internal.OngoingHQ(eventHQ)
 }
 
 // This will trigger every tick for each InteractPoint.
 export function OngoingInteractPoint(
     eventInteractPoint: mod.InteractPoint
 ): void {
-    gameMode._internal.OngoingInteractPoint(eventInteractPoint)
+    getGameMode()._internal.OngoingInteractPoint(eventInteractPoint)
 }
 
 // This will trigger every tick for each LootSpawner.
 export function OngoingLootSpawner(eventLootSpawner: mod.LootSpawner): void {
-    gameMode._internal.OngoingLootSpawner(eventLootSpawner)
+    getGameMode()._internal.OngoingLootSpawner(eventLootSpawner)
 }
 
 // This will trigger every tick for each MCOM.
 export function OngoingMCOM(eventMCOM: mod.MCOM): void {
-    gameMode._internal.OngoingMCOM(eventMCOM)
+    getGameMode()._internal.OngoingMCOM(eventMCOM)
 }
 
 // This will trigger every tick for each Player.
 export function OngoingPlayer(eventPlayer: mod.Player): void {
-    gameMode._internal.OngoingPlayer(eventPlayer)
+    getGameMode()._internal.OngoingPlayer(eventPlayer)
 }
 
 // This will trigger every tick for each RingOfFire.
 export function OngoingRingOfFire(eventRingOfFire: mod.RingOfFire): void {
-    gameMode._internal.OngoingRingOfFire(eventRingOfFire)
+    getGameMode()._internal.OngoingRingOfFire(eventRingOfFire)
 }
 
 // This will trigger every tick for each Sector.
 export function OngoingSector(eventSector: mod.Sector): void {
-    gameMode._internal.OngoingSector(eventSector)
+    getGameMode()._internal.OngoingSector(eventSector)
 }
 
 // This will trigger every tick for each Spawner.
 export function OngoingSpawner(eventSpawner: mod.Spawner): void {
-    gameMode._internal.OngoingSpawner(eventSpawner)
+    getGameMode()._internal.OngoingSpawner(eventSpawner)
 }
 
 // This will trigger every tick for each SpawnPoint.
 export function OngoingSpawnPoint(eventSpawnPoint: mod.SpawnPoint): void {
-    gameMode._internal.OngoingSpawnPoint(eventSpawnPoint)
+    getGameMode()._internal.OngoingSpawnPoint(eventSpawnPoint)
 }
 
 // This will trigger every tick for each Team.
 export function OngoingTeam(eventTeam: mod.Team): void {
-    gameMode._internal.OngoingTeam(eventTeam)
+    getGameMode()._internal.OngoingTeam(eventTeam)
 }
 
 // This will trigger every tick for each Vehicle.
 export function OngoingVehicle(eventVehicle: mod.Vehicle): void {
-    gameMode._internal.OngoingVehicle(eventVehicle)
+    getGameMode()._internal.OngoingVehicle(eventVehicle)
 }
 
 // This will trigger every tick for each VehicleSpawner.
 export function OngoingVehicleSpawner(
     eventVehicleSpawner: mod.VehicleSpawner
 ): void {
-    gameMode._internal.OngoingVehicleSpawner(eventVehicleSpawner)
+    getGameMode()._internal.OngoingVehicleSpawner(eventVehicleSpawner)
 }
 
 // This will trigger every tick for each WaypointPath.
 export function OngoingWaypointPath(eventWaypointPath: mod.WaypointPath): void {
-    gameMode._internal.OngoingWaypointPath(eventWaypointPath)
+    getGameMode()._internal.OngoingWaypointPath(eventWaypointPath)
 }
 
 // This will trigger every tick for each WorldIcon.
 export function OngoingWorldIcon(eventWorldIcon: mod.WorldIcon): void {
-    gameMode._internal.OngoingWorldIcon(eventWorldIcon)
+    getGameMode()._internal.OngoingWorldIcon(eventWorldIcon)
 }
 
 // This will trigger when an AI Soldier stops moving to a destination.
 export function OnAIMoveToFailed(eventPlayer: mod.Player): void {
-    gameMode._internal.OnAIMoveToFailed(eventPlayer)
+    getGameMode()._internal.OnAIMoveToFailed(eventPlayer)
 }
 
 // This will trigger when an AI Soldier starts moving to a destination.
 export function OnAIMoveToRunning(eventPlayer: mod.Player): void {
-    gameMode._internal.OnAIMoveToRunning(eventPlayer)
+    getGameMode()._internal.OnAIMoveToRunning(eventPlayer)
 }
 
 // This will trigger when an AI Soldier reaches its destination.
 export function OnAIMoveToSucceeded(eventPlayer: mod.Player): void {
-    gameMode._internal.OnAIMoveToSucceeded(eventPlayer)
+    getGameMode()._internal.OnAIMoveToSucceeded(eventPlayer)
 }
 
 // This will trigger when an AI Soldier parachute action is running.
 export function OnAIParachuteRunning(eventPlayer: mod.Player): void {
-    gameMode._internal.OnAIParachuteRunning(eventPlayer)
+    getGameMode()._internal.OnAIParachuteRunning(eventPlayer)
 }
 
 // This will trigger when an AI Soldier parachute action succeeds.
 export function OnAIParachuteSucceeded(eventPlayer: mod.Player): void {
-    gameMode._internal.OnAIParachuteSucceeded(eventPlayer)
+    getGameMode()._internal.OnAIParachuteSucceeded(eventPlayer)
 }
 
 // This will trigger when an AI Soldier stops following a waypoint.
 export function OnAIWaypointIdleFailed(eventPlayer: mod.Player): void {
-    gameMode._internal.OnAIWaypointIdleFailed(eventPlayer)
+    getGameMode()._internal.OnAIWaypointIdleFailed(eventPlayer)
 }
 
 // This will trigger when an AI Soldier starts following a waypoint.
 export function OnAIWaypointIdleRunning(eventPlayer: mod.Player): void {
-    gameMode._internal.OnAIWaypointIdleRunning(eventPlayer)
+    getGameMode()._internal.OnAIWaypointIdleRunning(eventPlayer)
 }
 
 // This will trigger when an AI Soldier finishes following a waypoint.
 export function OnAIWaypointIdleSucceeded(eventPlayer: mod.Player): void {
-    gameMode._internal.OnAIWaypointIdleSucceeded(eventPlayer)
+    getGameMode()._internal.OnAIWaypointIdleSucceeded(eventPlayer)
 }
 
 // This will trigger when a team captures a CapturePoint.
 export function OnCapturePointCaptured(
     eventCapturePoint: mod.CapturePoint
 ): void {
-    gameMode._internal.OnCapturePointCaptured(eventCapturePoint)
+    getGameMode()._internal.OnCapturePointCaptured(eventCapturePoint)
 }
 
 // This will trigger when a team starts capturing a CapturePoint.
 export function OnCapturePointCapturing(
     eventCapturePoint: mod.CapturePoint
 ): void {
-    gameMode._internal.OnCapturePointCapturing(eventCapturePoint)
+    getGameMode()._internal.OnCapturePointCapturing(eventCapturePoint)
 }
 
 // This will trigger when a team loses control of a CapturePoint.
 export function OnCapturePointLost(eventCapturePoint: mod.CapturePoint): void {
-    gameMode._internal.OnCapturePointLost(eventCapturePoint)
+    getGameMode()._internal.OnCapturePointLost(eventCapturePoint)
 }
 
 // This will trigger when the gamemode ends.
 export function OnGameModeEnding(): void {
-    gameMode._internal.OnGameModeEnding()
+    getGameMode()._internal.OnGameModeEnding()
 }
 
 // This will trigger at the start of the gamemode.
 export function OnGameModeStarted(): void {
-    gameMode._internal.OnGameModeStarted()
+    getGameMode()._internal.OnGameModeStarted()
 }
 
 // This will trigger when a Player enters mandown state.
@@ -242,22 +261,22 @@ export function OnMandown(
     eventPlayer: mod.Player,
     eventOtherPlayer: mod.Player
 ): void {
-    gameMode._internal.OnMandown(eventPlayer, eventOtherPlayer)
+    getGameMode()._internal.OnMandown(eventPlayer, eventOtherPlayer)
 }
 
 // This will trigger when a MCOM is armed.
 export function OnMCOMArmed(eventMCOM: mod.MCOM): void {
-    gameMode._internal.OnMCOMArmed(eventMCOM)
+    getGameMode()._internal.OnMCOMArmed(eventMCOM)
 }
 
 // This will trigger when a MCOM is defused.
 export function OnMCOMDefused(eventMCOM: mod.MCOM): void {
-    gameMode._internal.OnMCOMDefused(eventMCOM)
+    getGameMode()._internal.OnMCOMDefused(eventMCOM)
 }
 
 // This will trigger when a MCOM is detonated.
 export function OnMCOMDestroyed(eventMCOM: mod.MCOM): void {
-    gameMode._internal.OnMCOMDestroyed(eventMCOM)
+    getGameMode()._internal.OnMCOMDestroyed(eventMCOM)
 }
 
 // This will trigger when a Player takes damage.
@@ -267,7 +286,7 @@ export function OnPlayerDamaged(
     eventDamageType: mod.DamageType,
     eventWeaponUnlock: mod.WeaponUnlock
 ): void {
-    gameMode._internal.OnPlayerDamaged(
+    getGameMode()._internal.OnPlayerDamaged(
         eventPlayer,
         eventOtherPlayer,
         eventDamageType,
@@ -277,7 +296,7 @@ export function OnPlayerDamaged(
 
 // This will trigger whenever a Player deploys.
 export function OnPlayerDeployed(eventPlayer: mod.Player): void {
-    gameMode._internal.OnPlayerDeployed(eventPlayer)
+    getGameMode()._internal.OnPlayerDeployed(eventPlayer)
 }
 
 // This will trigger whenever a Player dies.
@@ -287,7 +306,7 @@ export function OnPlayerDied(
     eventDeathType: mod.DeathType,
     eventWeaponUnlock: mod.WeaponUnlock
 ): void {
-    gameMode._internal.OnPlayerDied(
+    getGameMode()._internal.OnPlayerDied(
         eventPlayer,
         eventOtherPlayer,
         eventDeathType,
@@ -302,7 +321,7 @@ export function OnPlayerEarnedKill(
     eventDeathType: mod.DeathType,
     eventWeaponUnlock: mod.WeaponUnlock
 ): void {
-    gameMode._internal.OnPlayerEarnedKill(
+    getGameMode()._internal.OnPlayerEarnedKill(
         eventPlayer,
         eventOtherPlayer,
         eventDeathType,
@@ -315,7 +334,10 @@ export function OnPlayerEarnedKillAssist(
     eventPlayer: mod.Player,
     eventOtherPlayer: mod.Player
 ): void {
-    gameMode._internal.OnPlayerEarnedKillAssist(eventPlayer, eventOtherPlayer)
+    getGameMode()._internal.OnPlayerEarnedKillAssist(
+        eventPlayer,
+        eventOtherPlayer
+    )
 }
 
 // This will trigger when a Player enters an AreaTrigger.
@@ -323,7 +345,10 @@ export function OnPlayerEnterAreaTrigger(
     eventPlayer: mod.Player,
     eventAreaTrigger: mod.AreaTrigger
 ): void {
-    gameMode._internal.OnPlayerEnterAreaTrigger(eventPlayer, eventAreaTrigger)
+    getGameMode()._internal.OnPlayerEnterAreaTrigger(
+        eventPlayer,
+        eventAreaTrigger
+    )
 }
 
 // This will trigger when a Player enters a CapturePoint.
@@ -331,7 +356,10 @@ export function OnPlayerEnterCapturePoint(
     eventPlayer: mod.Player,
     eventCapturePoint: mod.CapturePoint
 ): void {
-    gameMode._internal.OnPlayerEnterCapturePoint(eventPlayer, eventCapturePoint)
+    getGameMode()._internal.OnPlayerEnterCapturePoint(
+        eventPlayer,
+        eventCapturePoint
+    )
 }
 
 // This will trigger when a Player enters a Vehicle.
@@ -339,7 +367,7 @@ export function OnPlayerEnterVehicle(
     eventPlayer: mod.Player,
     eventVehicle: mod.Vehicle
 ): void {
-    gameMode._internal.OnPlayerEnterVehicle(eventPlayer, eventVehicle)
+    getGameMode()._internal.OnPlayerEnterVehicle(eventPlayer, eventVehicle)
 }
 
 // This will trigger when a Player enters a Vehicle seat.
@@ -348,7 +376,7 @@ export function OnPlayerEnterVehicleSeat(
     eventVehicle: mod.Vehicle,
     eventSeat: mod.Object
 ): void {
-    gameMode._internal.OnPlayerEnterVehicleSeat(
+    getGameMode()._internal.OnPlayerEnterVehicleSeat(
         eventPlayer,
         eventVehicle,
         eventSeat
@@ -360,7 +388,10 @@ export function OnPlayerExitAreaTrigger(
     eventPlayer: mod.Player,
     eventAreaTrigger: mod.AreaTrigger
 ): void {
-    gameMode._internal.OnPlayerExitAreaTrigger(eventPlayer, eventAreaTrigger)
+    getGameMode()._internal.OnPlayerExitAreaTrigger(
+        eventPlayer,
+        eventAreaTrigger
+    )
 }
 
 // This will trigger when a Player exits a CapturePoint.
@@ -368,7 +399,10 @@ export function OnPlayerExitCapturePoint(
     eventPlayer: mod.Player,
     eventCapturePoint: mod.CapturePoint
 ): void {
-    gameMode._internal.OnPlayerExitCapturePoint(eventPlayer, eventCapturePoint)
+    getGameMode()._internal.OnPlayerExitCapturePoint(
+        eventPlayer,
+        eventCapturePoint
+    )
 }
 
 // This will trigger when a Player exits a Vehicle.
@@ -376,7 +410,7 @@ export function OnPlayerExitVehicle(
     eventPlayer: mod.Player,
     eventVehicle: mod.Vehicle
 ): void {
-    gameMode._internal.OnPlayerExitVehicle(eventPlayer, eventVehicle)
+    getGameMode()._internal.OnPlayerExitVehicle(eventPlayer, eventVehicle)
 }
 
 // This will trigger when a Player exits a Vehicle seat.
@@ -385,7 +419,7 @@ export function OnPlayerExitVehicleSeat(
     eventVehicle: mod.Vehicle,
     eventSeat: mod.Object
 ): void {
-    gameMode._internal.OnPlayerExitVehicleSeat(
+    getGameMode()._internal.OnPlayerExitVehicleSeat(
         eventPlayer,
         eventVehicle,
         eventSeat
@@ -397,17 +431,17 @@ export function OnPlayerInteract(
     eventPlayer: mod.Player,
     eventInteractPoint: mod.InteractPoint
 ): void {
-    gameMode._internal.OnPlayerInteract(eventPlayer, eventInteractPoint)
+    getGameMode()._internal.OnPlayerInteract(eventPlayer, eventInteractPoint)
 }
 
 // This will trigger when a Player joins the game.
 export function OnPlayerJoinGame(eventPlayer: mod.Player): void {
-    gameMode._internal.OnPlayerJoinGame(eventPlayer)
+    getGameMode()._internal.OnPlayerJoinGame(eventPlayer)
 }
 
 // This will trigger when a Player leaves the game.
 export function OnPlayerLeaveGame(eventNumber: number): void {
-    gameMode._internal.OnPlayerLeaveGame(eventNumber)
+    getGameMode()._internal.OnPlayerLeaveGame(eventNumber)
 }
 
 // This will trigger when a Player switches team.
@@ -415,7 +449,7 @@ export function OnPlayerSwitchTeam(
     eventPlayer: mod.Player,
     eventTeam: mod.Team
 ): void {
-    gameMode._internal.OnPlayerSwitchTeam(eventPlayer, eventTeam)
+    getGameMode()._internal.OnPlayerSwitchTeam(eventPlayer, eventTeam)
 }
 
 // This will trigger when a Player interacts with a UI button.
@@ -424,7 +458,7 @@ export function OnPlayerUIButtonEvent(
     eventUIWidget: mod.UIWidget,
     eventUIButtonEvent: mod.UIButtonEvent
 ): void {
-    gameMode._internal.OnPlayerUIButtonEvent(
+    getGameMode()._internal.OnPlayerUIButtonEvent(
         eventPlayer,
         eventUIWidget,
         eventUIButtonEvent
@@ -433,7 +467,7 @@ export function OnPlayerUIButtonEvent(
 
 // This will trigger when a Player undeploys.
 export function OnPlayerUndeploy(eventPlayer: mod.Player): void {
-    gameMode._internal.OnPlayerUndeploy(eventPlayer)
+    getGameMode()._internal.OnPlayerUndeploy(eventPlayer)
 }
 
 // This will trigger when a Raycast hits a target.
@@ -442,12 +476,12 @@ export function OnRayCastHit(
     eventPoint: mod.Vector,
     eventNormal: mod.Vector
 ): void {
-    gameMode._internal.OnRayCastHit(eventPlayer, eventPoint, eventNormal)
+    getGameMode()._internal.OnRayCastHit(eventPlayer, eventPoint, eventNormal)
 }
 
 // This will trigger when a Raycast misses.
 export function OnRayCastMissed(eventPlayer: mod.Player): void {
-    gameMode._internal.OnRayCastMissed(eventPlayer)
+    getGameMode()._internal.OnRayCastMissed(eventPlayer)
 }
 
 // This will trigger when a Player is revived.
@@ -455,7 +489,7 @@ export function OnRevived(
     eventPlayer: mod.Player,
     eventOtherPlayer: mod.Player
 ): void {
-    gameMode._internal.OnRevived(eventPlayer, eventOtherPlayer)
+    getGameMode()._internal.OnRevived(eventPlayer, eventOtherPlayer)
 }
 
 // This will trigger when a RingOfFire changes size.
@@ -463,7 +497,10 @@ export function OnRingOfFireZoneSizeChange(
     eventRingOfFire: mod.RingOfFire,
     eventNumber: number
 ): void {
-    gameMode._internal.OnRingOfFireZoneSizeChange(eventRingOfFire, eventNumber)
+    getGameMode()._internal.OnRingOfFireZoneSizeChange(
+        eventRingOfFire,
+        eventNumber
+    )
 }
 
 // This will trigger when an AISpawner spawns an AI Soldier.
@@ -471,20 +508,20 @@ export function OnSpawnerSpawned(
     eventPlayer: mod.Player,
     eventSpawner: mod.Spawner
 ): void {
-    gameMode._internal.OnSpawnerSpawned(eventPlayer, eventSpawner)
+    getGameMode()._internal.OnSpawnerSpawned(eventPlayer, eventSpawner)
 }
 
 // This will trigger when the time limit is reached.
 export function OnTimeLimitReached(): void {
-    gameMode._internal.OnTimeLimitReached()
+    getGameMode()._internal.OnTimeLimitReached()
 }
 
 // This will trigger when a Vehicle is destroyed.
 export function OnVehicleDestroyed(eventVehicle: mod.Vehicle): void {
-    gameMode._internal.OnVehicleDestroyed(eventVehicle)
+    getGameMode()._internal.OnVehicleDestroyed(eventVehicle)
 }
 
 // This will trigger when a Vehicle spawns.
 export function OnVehicleSpawned(eventVehicle: mod.Vehicle): void {
-    gameMode._internal.OnVehicleSpawned(eventVehicle)
+    getGameMode()._internal.OnVehicleSpawned(eventVehicle)
 }
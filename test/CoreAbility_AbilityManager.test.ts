@@ -0,0 +1,243 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import {
+    CoreAbility_damageResist,
+    CoreAbility_dash,
+    CoreAbility_reveal,
+    CoreAbility_speedPerk,
+} from '../src/Core/Ability/Abilities'
+import { CoreAbility_AbilityBar } from '../src/Core/Ability/AbilityBar'
+import { CoreAbility_AbilityManager } from '../src/Core/Ability/AbilityManager'
+import { CorePhase_Ids } from '../src/Core/Phase/IPhase'
+import { Headless_Match } from './Headless/Match'
+
+describe('CoreAbility_AbilityManager', () => {
+    let match: Headless_Match
+    let abilities: CoreAbility_AbilityManager
+
+    beforeEach(() => {
+        match = new Headless_Match({ gameMode: 'example' })
+        match.start()
+        abilities = match.gameMode!.abilities
+        abilities.define(
+            CoreAbility_dash({ multiplier: 1.5, duration: 3, cooldown: 10 }),
+            CoreAbility_damageResist({
+                factor: 0.5,
+                duration: 5,
+                cooldown: 20,
+            }),
+            CoreAbility_reveal({ radius: 30, spotSeconds: 4, cooldown: 15 })
+        )
+        abilities.definePerk(CoreAbility_speedPerk('light', 1.2))
+    })
+
+    afterEach(() => match.dispose())
+
+    /** Values sent to the engine for one player. */
+    function sent(name: string, player: mod.Player): unknown[] {
+        return match.runtime
+            .callsTo(name)
+            .filter(({ args }) => args[0] === player)
+            .map(({ args }) => args[1])
+    }
+
+    it('runs duration, charges and cooldown', async () => {
+        abilities.setDefaults(['dash'])
+        const a = match.join(1)
+        match.deploy(a)
+        const lp = match.lp(a)
+
+        assert.equal(abilities.activate(lp, 'dash'), 'activated')
+        assert.equal(abilities.activate(lp, 'dash'), 'active')
+        assert.equal(lp.abilities.charges('dash'), 0)
+
+        await match.advance(3.5)
+        assert.deepEqual(sent('SetPlayerMovementSpeedMultiplier', a), [1.5, 1])
+        assert.equal(abilities.activate(lp, 'dash'), 'noCharges')
+        assert.ok(lp.abilities.cooldown('dash') > 6)
+
+        await match.advance(7)
+        assert.equal(lp.abilities.isReady('dash'), true)
+        assert.deepEqual(
+            match.eventNames().filter((name) => name.startsWith('OnAbility')),
+            ['OnAbilityActivated', 'OnAbilityEnded', 'OnAbilityReady']
+        )
+    })
+
+    it('combines perks and abilities and strips them on death', () => {
+        abilities.setDefaults(['dash', 'damageResist'], ['light'])
+        const a = match.join(1)
+        const b = match.join(2)
+        match.deploy(a)
+        const lp = match.lp(a)
+
+        abilities.activate(lp, 'dash')
+        abilities.activate(lp, 'damageResist')
+        match.kill(a, b)
+
+        assert.deepEqual(sent('SetPlayerMovementSpeedMultiplier', a), [
+            1.2,
+            1.2 * 1.5,
+            1,
+        ])
+        assert.deepEqual(sent('SetPlayerIncomingDamageFactor', a), [0.5, 1])
+        assert.equal(lp.abilities.isActive('dash'), false)
+        assert.equal(match.eventsNamed('OnAbilityEnded').length, 2)
+        // Cooldowns keep running across death
+        assert.equal(lp.abilities.charges('dash'), 0)
+
+        match.deploy(a)
+        assert.deepEqual(
+            sent('SetPlayerMovementSpeedMultiplier', a).at(-1),
+            1.2
+        )
+    })
+
+    it('ends effects when the player leaves', () => {
+        abilities.setDefaults(['damageResist'])
+        const a = match.join(1)
+        match.deploy(a)
+        abilities.activate(match.lp(a), 'damageResist')
+
+        match.leave(a)
+        assert.deepEqual(
+            match.eventsNamed('OnAbilityEnded').map(([, id]) => id),
+            ['damageResist']
+        )
+    })
+
+    it('activates from input triggers on the rising edge', async () => {
+        abilities.setDefaults(['dash'])
+        abilities.bindInput('dash', { state: 'IsZooming' })
+        const a = match.join(1)
+        match.deploy(a)
+        const lp = match.lp(a)
+        const flags = match.runtime.state(a).flags
+
+        flags.add('SoldierStateBool.IsZooming')
+        match.tick()
+        match.tick()
+        assert.equal(match.eventsNamed('OnAbilityActivated').length, 1)
+
+        // Released and pressed again once recharged
+        flags.delete('SoldierStateBool.IsZooming')
+        await match.advance(11)
+        flags.add('SoldierStateBool.IsZooming')
+        match.tick()
+        assert.equal(match.eventsNamed('OnAbilityActivated').length, 2)
+
+        abilities.revoke(lp, 'dash')
+        assert.equal(abilities.activate(lp, 'dash'), 'notGranted')
+    })
+
+    it('restricts the trigger input while the ability is not ready', async () => {
+        abilities.setDefaults(['dash'])
+        abilities.bindInput('dash', { state: 'IsZooming', restrict: 'Zoom' })
+        const a = match.join(1)
+        match.deploy(a)
+        const restricted = () =>
+            match.runtime
+                .callsTo('EnableInputRestriction')
+                .map(({ args }) => args.slice(1))
+
+        match.runtime.state(a).flags.add('SoldierStateBool.IsZooming')
+        match.tick()
+        assert.deepEqual(restricted(), [['RestrictedInputs.Zoom', true]])
+
+        await match.advance(11)
+        assert.deepEqual(restricted().at(-1), ['RestrictedInputs.Zoom', false])
+
+        // Lifted on death, even while recharging
+        abilities.activate(match.lp(a), 'dash')
+        match.kill(a)
+        assert.deepEqual(
+            restricted().map(([, on]) => on),
+            [true, false, true, false]
+        )
+    })
+
+    it('does not poll input triggers while the phase blocks it', () => {
+        const phases = match.gameMode!.phases
+        phases.define({
+            id: CorePhase_Ids.PreRound,
+            blockedEvents: ['OngoingPlayer'],
+        })
+        phases.define({ id: CorePhase_Ids.Live })
+        phases.transition(CorePhase_Ids.PreRound)
+        abilities.setDefaults(['dash'])
+        abilities.bindInput('dash', { state: 'IsJumping' })
+        const a = match.join(1)
+        match.deploy(a)
+
+        match.runtime.state(a).flags.add('SoldierStateBool.IsJumping')
+        match.tick()
+        assert.equal(match.eventsNamed('OnAbilityActivated').length, 0)
+
+        phases.transition(CorePhase_Ids.Live)
+        match.tick()
+        assert.equal(match.eventsNamed('OnAbilityActivated').length, 1)
+    })
+
+    it('raises ability events through the phase filter', () => {
+        const phases = match.gameMode!.phases
+        phases.define({
+            id: CorePhase_Ids.PreRound,
+            blockedEvents: ['OnAbilityActivated'],
+        })
+        phases.transition(CorePhase_Ids.PreRound)
+        abilities.setDefaults(['dash'])
+        const a = match.join(1)
+        match.deploy(a)
+
+        assert.equal(abilities.activate(match.lp(a), 'dash'), 'activated')
+        assert.equal(match.eventsNamed('OnAbilityActivated').length, 0)
+    })
+
+    it('reveals only enemies in range and refuses otherwise', () => {
+        abilities.setDefaults(['reveal'])
+        const a = match.join(1)
+        const near = match.join(2)
+        const far = match.join(2)
+        for (const player of [a, near, far]) match.deploy(player)
+        const lp = match.lp(a)
+
+        match.runtime.state(near).position.x = 50
+        match.runtime.state(far).position.x = 90
+        assert.equal(abilities.activate(lp, 'reveal'), 'refused')
+        assert.equal(lp.abilities.charges('reveal'), 1)
+
+        match.runtime.state(near).position.x = 20
+        assert.equal(abilities.activate(lp, 'reveal'), 'activated')
+        assert.deepEqual(match.runtime.callsTo('SpotTarget')[0].args, [
+            near,
+            a,
+            4,
+            'SpotStatus.SpotInBoth',
+        ])
+        assert.equal(match.runtime.callsTo('SpotTarget').length, 1)
+    })
+
+    it('activates from the ability bar', () => {
+        abilities.setDefaults(['dash'])
+        new CoreAbility_AbilityBar(match.gameMode!, { abilities: ['dash'] })
+        const a = match.join(1)
+        match.deploy(a)
+
+        const id = match.runtime.mod.GetObjId(a)
+        const button = match.runtime.findWidget(`abilitybar_${id}_dash`)
+        const label = match.runtime.findWidget(`abilitybar_${id}_dash_label`)
+        assert.deepEqual(label?.label?.key, 'core.ability.ready')
+
+        match.main.OnPlayerUIButtonEvent(
+            a,
+            button as unknown as mod.UIWidget,
+            match.runtime.mod.UIButtonEvent.ButtonUp
+        )
+        assert.equal(match.lp(a).abilities.isActive('dash'), true)
+        assert.deepEqual(label?.label, {
+            kind: 'Message',
+            key: 'core.ability.cooldown',
+            args: [10],
+        })
+    })
+})
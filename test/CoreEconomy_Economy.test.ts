@@ -0,0 +1,291 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CoreEconomy_BuyMenu } from '../src/Core/Economy/BuyMenu'
+import { CoreEconomy_Economy } from '../src/Core/Economy/Economy'
+import { CorePhase_Ids } from '../src/Core/Phase/IPhase'
+import { Headless_Match } from './Headless/Match'
+
+describe('CoreEconomy_Economy', () => {
+    let match: Headless_Match
+    let economy: CoreEconomy_Economy
+
+    beforeEach(() => {
+        match = new Headless_Match({ gameMode: 'example' })
+        match.start()
+        economy = match.gameMode!.economy
+    })
+
+    afterEach(() => match.dispose())
+
+    it('pays start money, kills and assists', () => {
+        economy.configure({
+            startMoney: 800,
+            maxMoney: 1500,
+            kill: 300,
+            assist: 100,
+        })
+        const a = match.join(1)
+        const b = match.join(2)
+        match.deploy(a)
+        match.deploy(b)
+        assert.equal(match.lp(a).wallet.balance, 800)
+
+        match.kill(b, a)
+        match.main.OnPlayerEarnedKillAssist(a, b)
+        assert.equal(match.lp(a).wallet.balance, 1200)
+
+        match.deploy(b)
+        match.kill(b, a)
+        match.deploy(b)
+        match.kill(b, a)
+        // Capped; a kill at the cap changes nothing and fires nothing
+        assert.equal(match.lp(a).wallet.balance, 1500)
+
+        const reasons = match
+            .eventsNamed('OnMoneyChanged')
+            .filter(([lp]) => lp === match.lp(a))
+            .map(([, , delta, reason]) => [delta, reason])
+        assert.deepEqual(reasons, [
+            [800, 'start'],
+            [300, 'kill'],
+            [100, 'assist'],
+            [300, 'kill'],
+        ])
+    })
+
+    it('raises money events through the phase filter', () => {
+        const phases = match.gameMode!.phases
+        phases.define({
+            id: CorePhase_Ids.Warmup,
+            blockedEvents: ['OnMoneyChanged'],
+        })
+        phases.define({ id: CorePhase_Ids.Live })
+        phases.transition(CorePhase_Ids.Warmup)
+        economy.configure({})
+        const lp = match.lp(match.join(1))
+
+        economy.earn(lp, 100, 'bonus')
+        assert.equal(match.eventsNamed('OnMoneyChanged').length, 0)
+
+        phases.transition(CorePhase_Ids.Live)
+        economy.earn(lp, 100, 'bonus')
+        assert.equal(match.eventsNamed('OnMoneyChanged').length, 1)
+        assert.equal(lp.wallet.balance, 200)
+    })
+
+    it('charges team kills and pays round results', () => {
+        economy.configure({
+            startMoney: 500,
+            kill: 300,
+            teamKill: -400,
+            roundWin: 1000,
+            roundLoss: 600,
+        })
+        const a = match.join(1)
+        const mate = match.join(1)
+        const enemy = match.join(2)
+        match.deploy(a)
+        match.deploy(mate)
+        match.kill(mate, a)
+        assert.equal(match.lp(a).wallet.balance, 100)
+
+        economy.OnRoundEnded(match.team(1))
+        assert.equal(match.lp(a).wallet.balance, 1100)
+        assert.equal(match.lp(enemy).wallet.balance, 1100)
+
+        // A draw pays everyone the loss bonus
+        economy.OnRoundEnded(undefined)
+        assert.equal(match.lp(a).wallet.balance, 1700)
+    })
+
+    it('pays nothing in warmup and resets without counting earnings', () => {
+        economy.configure({
+            startMoney: 800,
+            kill: 300,
+            assist: 100,
+            resetEachRound: true,
+        })
+        const phases = match.gameMode!.phases
+        phases.define({
+            id: CorePhase_Ids.Warmup,
+            blockedEvents: ['OnPlayerEarnedKill'],
+        })
+        phases.transition(CorePhase_Ids.Warmup)
+        const a = match.join(1)
+        const b = match.join(2)
+        match.deploy(a)
+        match.deploy(b)
+        match.kill(b, a)
+        match.main.OnPlayerEarnedKillAssist(a, b)
+        assert.equal(match.lp(a).wallet.balance, 800)
+
+        economy.spend(match.lp(a), 500, 'test')
+        economy.OnRoundStarted()
+        assert.equal(match.lp(a).wallet.balance, 800)
+        assert.equal(match.lp(a).wallet.earned, 800)
+    })
+
+    describe('CoreEconomy_BuyMenu', () => {
+        let menu: CoreEconomy_BuyMenu
+
+        beforeEach(() => {
+            economy.configure({ startMoney: 1000 })
+            menu = new CoreEconomy_BuyMenu(match.gameMode!, {
+                items: [
+                    {
+                        id: 'rifle',
+                        label: 'buy.rifle',
+                        price: 700,
+                        loadout: { primary: { weapon: 'AssaultRifle_M433' } },
+                    },
+                    {
+                        id: 'ammo',
+                        label: 'buy.ammo',
+                        price: 100,
+                        ammo: { slot: 'PrimaryWeapon', amount: 30 },
+                    },
+                ],
+            })
+        })
+
+        function press(player: mod.Player, part: string): void {
+            const id = match.runtime.mod.GetObjId(player)
+            const widget = match.runtime.findWidget(`buymenu_${id}_${part}`)
+            assert.ok(widget, `no widget ${part}`)
+            match.main.OnPlayerUIButtonEvent(
+                player,
+                widget as unknown as mod.UIWidget,
+                match.runtime.mod.UIButtonEvent.ButtonUp
+            )
+        }
+
+        function purchases(): unknown[][] {
+            return match
+                .eventsNamed('OnPurchase')
+                .map(([, itemId, result]) => [itemId, result])
+        }
+
+        it('opens per player and buys through buttons', () => {
+            const a = match.join(1)
+            match.deploy(a)
+            const lp = match.lp(a)
+
+            menu.open(lp)
+            assert.equal(menu.isOpen(lp), true)
+            assert.deepEqual(
+                match.runtime.callsTo('EnableUIInputMode').at(-1)?.args,
+                [true, a]
+            )
+
+            press(a, 'item_rifle')
+            press(a, 'item_rifle')
+            assert.deepEqual(purchases(), [
+                ['rifle', 'bought'],
+                ['rifle', 'insufficientFunds'],
+            ])
+            assert.equal(lp.wallet.balance, 300)
+            assert.equal(
+                match.runtime.mod.HasEquipment(
+                    a,
+                    match.runtime.mod.Weapons.AssaultRifle_M433
+                ),
+                true
+            )
+
+            const balance = match.runtime.findWidget(
+                `buymenu_${match.runtime.mod.GetObjId(a)}_balance`
+            )
+            assert.deepEqual(balance?.label?.args, [300])
+
+            press(a, 'close')
+            assert.equal(menu.isOpen(lp), false)
+        })
+
+        it('adds ammo to the current reserve', () => {
+            const a = match.join(1)
+            match.deploy(a)
+            match.runtime.state(a).ammo.set('InventorySlots.PrimaryWeapon', 60)
+
+            assert.equal(menu.buy(match.lp(a), 'ammo'), 'bought')
+            assert.equal(
+                match.runtime.state(a).ammo.get('InventorySlots.PrimaryWeapon'),
+                90
+            )
+        })
+
+        it('refunds when the equipment cannot be granted', () => {
+            match.runtime.enums.set('Weapons', [])
+            const a = match.join(1)
+            match.deploy(a)
+            const lp = match.lp(a)
+
+            assert.equal(menu.buy(lp, 'rifle'), 'failed')
+            assert.equal(lp.wallet.balance, 1000)
+            assert.deepEqual(
+                match
+                    .eventsNamed('OnMoneyChanged')
+                    .map(([, balance, delta]) => [balance, delta]),
+                [
+                    [1000, 1000],
+                    [300, -700],
+                    [1000, 700],
+                ]
+            )
+            const notice = match.runtime.callsTo('DisplayNotificationMessage')
+            assert.equal(
+                (notice[0].args[0] as { key: string }).key,
+                'core.economy.purchase.failed'
+            )
+        })
+
+        it('puts the old equipment back when the grant fails', () => {
+            const mod = match.runtime.mod
+            match.gameMode!.loadouts.setDefault({
+                primary: { weapon: 'AssaultRifle_AK4D' },
+            })
+            const broken = new CoreEconomy_BuyMenu(match.gameMode!, {
+                items: [
+                    {
+                        id: 'kit',
+                        label: 'buy.kit',
+                        price: 100,
+                        loadout: { primary: { weapon: 'AssaultRifle_M433' } },
+                        ammo: { slot: 'PrimaryWeapon', amount: 30 },
+                        grant: () => false,
+                    },
+                ],
+            })
+            const a = match.join(1)
+            match.deploy(a)
+            match.runtime.state(a).ammo.set('InventorySlots.PrimaryWeapon', 60)
+
+            assert.equal(broken.buy(match.lp(a), 'kit'), 'failed')
+            assert.equal(
+                mod.HasEquipment(a, mod.Weapons.AssaultRifle_AK4D),
+                true
+            )
+            assert.equal(
+                mod.HasEquipment(a, mod.Weapons.AssaultRifle_M433),
+                false
+            )
+            assert.equal(
+                match.runtime.state(a).ammo.get('InventorySlots.PrimaryWeapon'),
+                60
+            )
+            assert.equal(match.lp(a).wallet.balance, 1000)
+        })
+
+        it('rejects purchases while dead and closes on death', () => {
+            const a = match.join(1)
+            const b = match.join(2)
+            match.deploy(a)
+            menu.open(match.lp(a))
+
+            match.kill(a, b)
+            assert.equal(menu.isOpen(match.lp(a)), false)
+            assert.equal(menu.buy(match.lp(a), 'rifle'), 'notAlive')
+            assert.equal(menu.buy(match.lp(a), 'grenade'), 'unknownItem')
+            assert.equal(match.lp(a).wallet.balance, 1000)
+        })
+    })
+})
@@ -0,0 +1,95 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { Headless_Match } from './Headless/Match'
+
+describe('CoreLoadout_LoadoutManager', () => {
+    let match: Headless_Match
+
+    beforeEach(() => {
+        match = new Headless_Match({ gameMode: 'example' })
+    })
+
+    afterEach(() => match.dispose())
+
+    /** AddEquipment calls of one player as [item, slot]. */
+    function equipped(player: mod.Player): unknown[][] {
+        return match.runtime
+            .callsTo('AddEquipment')
+            .filter((call) => call.args[0] === player)
+            .map((call) => [call.args[1], call.args[call.args.length - 1]])
+    }
+
+    it('layers team and class loadouts on deploy', () => {
+        match.start()
+        const loadouts = match.gameMode!.loadouts
+        loadouts.setDefault({ melee: 'Melee_Combat_Knife' })
+        loadouts.setForTeam(1, {
+            primary: { weapon: 'AssaultRifle_M433', attachments: ['Ammo_FMJ'] },
+            throwable: 'Throwable_Smoke_Grenade',
+        })
+        loadouts.setForClass('Support', {
+            throwable: 'Throwable_Fragmentation_Grenade',
+        })
+
+        const rifleman = match.join(1)
+        const support = match.join(1)
+        match.runtime.state(support).soldierClass = 'SoldierClass.Support'
+        match.deploy(rifleman)
+        match.deploy(support)
+
+        assert.deepEqual(equipped(rifleman), [
+            ['Weapons.AssaultRifle_M433', 'InventorySlots.PrimaryWeapon'],
+            ['Gadgets.Throwable_Smoke_Grenade', 'InventorySlots.Throwable'],
+            ['Gadgets.Melee_Combat_Knife', 'InventorySlots.MeleeWeapon'],
+        ])
+        assert.deepEqual(equipped(support)[1], [
+            'Gadgets.Throwable_Fragmentation_Grenade',
+            'InventorySlots.Throwable',
+        ])
+        assert.deepEqual(
+            match.runtime.callsTo('AddAttachmentToWeaponPackage')[0].args[0],
+            'WeaponAttachments.Ammo_FMJ'
+        )
+        assert.equal(match.runtime.callsTo('RemoveEquipment').length, 6)
+    })
+
+    it('swaps a player loadout mid-life', () => {
+        match.start()
+        const player = match.join(2)
+        match.deploy(player)
+
+        match.gameMode!.loadouts.setForPlayer(
+            match.lp(player),
+            { secondary: { weapon: 'Sidearm_M45A1', magazineAmmo: 3 } },
+            true
+        )
+
+        assert.deepEqual(equipped(player), [
+            ['Weapons.Sidearm_M45A1', 'InventorySlots.SecondaryWeapon'],
+        ])
+        assert.deepEqual(
+            match.runtime.callsTo('SetInventoryMagazineAmmo')[0].args,
+            [player, 'InventorySlots.SecondaryWeapon', 3]
+        )
+    })
+
+    it('reports enum members missing from the SDK', () => {
+        match.runtime.enums.set('Gadgets', ['Melee_Combat_Knife'])
+        match.start()
+        match.gameMode!.loadouts.setDefault({
+            melee: 'Melee_Combat_Knife',
+            throwable: 'Throwable_Throwing_Knife',
+        })
+
+        assert.deepEqual(match.gameMode!.loadouts.validate(), [
+            'Gadgets.Throwable_Throwing_Knife',
+        ])
+
+        // Missing members are skipped when equipping
+        const player = match.join(1)
+        match.deploy(player)
+        assert.deepEqual(equipped(player), [
+            ['Gadgets.Melee_Combat_Knife', 'InventorySlots.MeleeWeapon'],
+        ])
+    })
+})
@@ -0,0 +1,94 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CoreCapturePoint_ACapturePoint } from '../src/Core/CapturePoint/ACapturePoint'
+import { CoreCapturePoint_ACapturePointManager } from '../src/Core/CapturePoint/ACapturePointManager'
+import { Example_GameMode } from '../src/GameModes/Example/Example_GameMode'
+import { Headless_Match } from './Headless/Match'
+
+class Test_CapturePoint extends CoreCapturePoint_ACapturePoint {
+    /** Per-point data a mode would keep on its wrapper. */
+    captures = 0
+}
+
+class Test_CapturePointManager extends CoreCapturePoint_ACapturePointManager {
+    createCapturePoint(capturePoint: mod.CapturePoint): Test_CapturePoint {
+        return new Test_CapturePoint(capturePoint, this.gameMode)
+    }
+}
+
+class Test_GameMode extends Example_GameMode {
+    protected override createCapturePointManager(): Test_CapturePointManager {
+        return new Test_CapturePointManager(this)
+    }
+
+    point(capturePoint: mod.CapturePoint): Test_CapturePoint {
+        return this.lcp(capturePoint) as Test_CapturePoint
+    }
+
+    points(): Test_CapturePointManager {
+        return this.capturePointManager as Test_CapturePointManager
+    }
+}
+
+describe('CoreObject_AObjectManager', () => {
+    let match: Headless_Match
+    let mode: Test_GameMode
+
+    beforeEach(() => {
+        match = new Headless_Match({ create: () => new Test_GameMode() })
+        match.start()
+        mode = match.gameMode as Test_GameMode
+    })
+
+    afterEach(() => match.dispose())
+
+    it('keeps one wrapper per engine object and routes its events', () => {
+        const handle = match.runtime.object<mod.CapturePoint>(
+            'CapturePoint',
+            40
+        )
+        const point = mode.point(handle)
+        point.addListener({ OnCapturePointCaptured: () => point.captures++ })
+
+        // The engine may pass a new handle for the same object
+        match.main.OnCapturePointCaptured({ ...handle })
+        match.main.OnCapturePointCaptured(handle)
+        assert.equal(mode.point({ ...handle }), point)
+        assert.equal(point.id, 40)
+        assert.equal(point.captures, 2)
+        assert.deepEqual(mode.points().all(), [point])
+    })
+
+    it('routes players on the point to the wrapper', () => {
+        const handle = match.runtime.object<mod.CapturePoint>(
+            'CapturePoint',
+            41
+        )
+        const player = match.join(1)
+        const entered: unknown[] = []
+        mode.point(handle).addListener({
+            OnPlayerEnterCapturePoint: (lp) => entered.push(lp),
+        })
+
+        match.main.OnPlayerEnterCapturePoint(player, handle)
+        assert.deepEqual(entered, [match.lp(player)])
+    })
+
+    it('drops the wrapper and its listeners on remove', () => {
+        const handle = match.runtime.object<mod.CapturePoint>(
+            'CapturePoint',
+            42
+        )
+        const point = mode.point(handle)
+        point.addListener({ OnCapturePointLost: () => point.captures-- })
+
+        mode.points().remove(42)
+        assert.equal(point.listeners.length, 0)
+        assert.equal(mode.points().getById(42), undefined)
+
+        // A new wrapper on the next event
+        match.main.OnCapturePointLost(handle)
+        assert.notEqual(mode.point(handle), point)
+        assert.equal(point.captures, 0)
+    })
+})
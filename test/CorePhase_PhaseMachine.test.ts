@@ -0,0 +1,127 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CorePhase_Ids } from '../src/Core/Phase/IPhase'
+import { CorePhase_PhaseMachine } from '../src/Core/Phase/PhaseMachine'
+import { Headless_Match } from './Headless/Match'
+
+describe('CorePhase_PhaseMachine', () => {
+    let match: Headless_Match
+    let phases: CorePhase_PhaseMachine
+
+    beforeEach(() => {
+        match = new Headless_Match({ gameMode: 'example' })
+        match.start()
+        phases = match.gameMode!.phases
+    })
+
+    afterEach(() => match.dispose())
+
+    it('runs exit and enter hooks and reports the change', () => {
+        const calls: string[] = []
+        phases.define({
+            id: CorePhase_Ids.Warmup,
+            onExit: (next) => calls.push(`exit warmup > ${next}`),
+        })
+        phases.define({
+            id: CorePhase_Ids.Live,
+            onEnter: (previous) => calls.push(`enter live < ${previous}`),
+        })
+
+        assert.equal(phases.current, undefined)
+        assert.equal(phases.transition(CorePhase_Ids.Warmup), true)
+        assert.equal(phases.transition(CorePhase_Ids.Live), true)
+        assert.equal(phases.transition('unknown'), false)
+
+        assert.equal(phases.is(CorePhase_Ids.Live), true)
+        assert.deepEqual(calls, ['exit warmup > live', 'enter live < warmup'])
+        assert.deepEqual(match.eventsNamed('OnPhaseChanged'), [
+            [CorePhase_Ids.Warmup, undefined],
+            [CorePhase_Ids.Live, CorePhase_Ids.Warmup],
+        ])
+    })
+
+    it('lets guards veto transitions unless forced', () => {
+        let ready = false
+        phases.define({
+            id: CorePhase_Ids.Warmup,
+            canExit: () => ready,
+        })
+        phases.define({
+            id: CorePhase_Ids.Live,
+            canEnter: (from) => from === CorePhase_Ids.Warmup,
+        })
+        phases.define({ id: CorePhase_Ids.PostRound })
+
+        assert.equal(phases.transition(CorePhase_Ids.Live), false)
+        phases.transition(CorePhase_Ids.Warmup)
+        assert.equal(phases.transition(CorePhase_Ids.Live), false)
+
+        ready = true
+        assert.equal(phases.transition(CorePhase_Ids.Live), true)
+
+        phases.transition(CorePhase_Ids.PostRound)
+        assert.equal(phases.transition(CorePhase_Ids.Live), false)
+        assert.equal(phases.transition(CorePhase_Ids.Live, true), true)
+    })
+
+    it('moves on by itself once a timed phase runs out', async () => {
+        let ticks = 0
+        phases.define({
+            id: CorePhase_Ids.PreRound,
+            duration: 5,
+            next: CorePhase_Ids.Live,
+            onTick: () => ticks++,
+        })
+        phases.define({ id: CorePhase_Ids.Live })
+        phases.transition(CorePhase_Ids.PreRound)
+
+        await match.advance(2)
+        assert.equal(phases.is(CorePhase_Ids.PreRound), true)
+        assert.ok(Math.abs(phases.remaining()! - 3) < 0.1)
+        assert.ok(ticks > 0)
+
+        await match.advance(3.1)
+        assert.equal(phases.is(CorePhase_Ids.Live), true)
+        assert.equal(phases.remaining(), undefined)
+        assert.ok(phases.elapsed() < 0.2)
+    })
+
+    it('refuses a transition started from onEnter', () => {
+        let nested: boolean | undefined
+        phases.define({
+            id: CorePhase_Ids.PreRound,
+            onEnter: () => {
+                nested = phases.transition(CorePhase_Ids.Live)
+            },
+        })
+        phases.define({ id: CorePhase_Ids.Live })
+
+        assert.equal(phases.transition(CorePhase_Ids.PreRound), true)
+        assert.equal(nested, false)
+        assert.equal(phases.is(CorePhase_Ids.PreRound), true)
+        assert.equal(match.eventsNamed('OnPhaseChanged').length, 1)
+    })
+
+    it('blocks the listed events only while the phase is active', () => {
+        phases.define({
+            id: CorePhase_Ids.Warmup,
+            blockedEvents: ['OnPlayerDeployed'],
+        })
+        phases.define({ id: CorePhase_Ids.Live })
+        const a = match.join(1)
+        assert.equal(phases.allows('OnPlayerDeployed'), true)
+
+        phases.transition(CorePhase_Ids.Warmup)
+        assert.equal(phases.allows('OnPlayerDeployed'), false)
+        assert.equal(phases.allows('OnPlayerDied'), true)
+        match.deploy(a)
+        assert.equal(match.eventsNamed('OnPlayerDeployed').length, 0)
+        // Bookkeeping still follows the blocked event
+        assert.equal(match.lp(a).soldierState, 'alive')
+
+        phases.transition(CorePhase_Ids.Live)
+        match.undeploy(a)
+        match.deploy(a)
+        assert.equal(match.eventsNamed('OnPlayerDeployed').length, 1)
+    })
+})
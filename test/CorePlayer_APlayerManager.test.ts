@@ -0,0 +1,234 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CorePlayer_APlayer } from '../src/Core/Player/APlayer'
+import { CorePlayer_IDeathCredit } from '../src/Core/Player/DamageLedger'
+import { CorePlayer_ISoldierStateChange } from '../src/Core/Player/SoldierState'
+import { Headless_Match } from './Headless/Match'
+
+describe('CorePlayer_APlayerManager', () => {
+    let match: Headless_Match
+
+    beforeEach(() => {
+        match = new Headless_Match({ gameMode: 'example' })
+        match.start()
+    })
+
+    afterEach(() => match.dispose())
+
+    it('creates one logical player per engine player', () => {
+        const player = match.join(1)
+        match.main.OnPlayerJoinGame(player)
+
+        const joined = match.eventsNamed('OnPlayerJoinGame')
+        assert.equal(joined[0][0], joined[1][0])
+    })
+
+    it('routes events to the logical player listeners', () => {
+        const player = match.join(1)
+        const received: string[] = []
+        match.lp(player).addListener({
+            OnPlayerDeployed: () => received.push('deployed'),
+            OnPlayerDied: () => received.push('died'),
+        })
+
+        match.deploy(player)
+        match.kill(player)
+
+        assert.deepEqual(received, ['deployed', 'died'])
+    })
+
+    it('notifies existing players about joins and leaves', () => {
+        const first = match.join(1)
+        const seen: string[] = []
+        match.lp(first).addListener({
+            OnPlayerJoinGame: (other) =>
+                seen.push('join ' + mod.GetObjId(other.player)),
+            OnPlayerLeaveGame: (other) =>
+                seen.push('leave ' + mod.GetObjId(other.player)),
+        })
+
+        const second = match.join(2)
+        match.leave(second)
+
+        const id = mod.GetObjId(second)
+        assert.deepEqual(seen, ['join ' + id, 'leave ' + id])
+    })
+
+    it('disposes tracked UI when the player leaves', () => {
+        const player = match.join(1)
+        mod.AddUIText(
+            'hud',
+            mod.CreateVector(0, 0, 0),
+            mod.CreateVector(100, 20, 0),
+            mod.UIAnchor.TopCenter,
+            mod.Message('debug.gamemode.started'),
+            player
+        )
+        const widget = mod.FindUIWidgetWithName('hud')
+        match.lp(player).trackUIWidget(widget)
+
+        match.leave(player)
+
+        assert.equal(match.runtime.findWidget('hud'), undefined)
+        assert.equal(match.runtime.callsTo('DeleteUIWidget').length, 1)
+    })
+
+    it('tracks the soldier lifecycle', async () => {
+        const player = match.join(1)
+        const enemy = match.join(2)
+        const lp = match.lp(player)
+        const changes: CorePlayer_ISoldierStateChange[] = []
+        lp.addListener({
+            OnSoldierStateChanged: (change) => changes.push(change),
+        })
+
+        assert.equal(lp.soldierState, 'notDeployed')
+        assert.equal(mod.GetObjId(lp.team!), 1)
+
+        match.deploy(player)
+        await match.advance(1)
+        match.damage(player, enemy)
+        match.mandown(player, enemy)
+        match.revive(player, enemy)
+        match.kill(player, enemy)
+        match.undeploy(player)
+
+        assert.deepEqual(
+            changes.map((c) => `${c.previousState}>${c.state}`),
+            [
+                'notDeployed>alive',
+                'alive>mandown',
+                'mandown>alive',
+                'alive>dead',
+                'dead>notDeployed',
+            ]
+        )
+        assert.ok(changes.every((c) => c.valid))
+        assert.equal(changes[1].attacker, match.lp(enemy))
+        assert.equal(lp.lastAttacker, match.lp(enemy))
+        assert.equal(lp.stateChangedAt, 1)
+    })
+
+    it('tracks vehicle and seat', () => {
+        const player = match.join(1)
+        const lp = match.lp(player)
+        const vehicle = match.runtime.createObject<mod.Vehicle>('Vehicle')
+
+        match.deploy(player)
+        const driver = match.enterVehicle(player, vehicle)
+        assert.equal(lp.soldierState, 'inVehicle')
+        assert.equal(lp.vehicle, vehicle)
+        assert.equal(lp.seat, driver)
+
+        // Seat switch keeps the player inVehicle
+        match.main.OnPlayerExitVehicleSeat(player, vehicle, driver)
+        const gunner = match.runtime.createObject<mod.Object>('Seat')
+        match.main.OnPlayerEnterVehicleSeat(player, vehicle, gunner)
+        assert.equal(lp.soldierState, 'inVehicle')
+        assert.equal(lp.seat, gunner)
+
+        match.exitVehicle(player, vehicle, gunner)
+        assert.equal(lp.soldierState, 'alive')
+        assert.equal(lp.vehicle, undefined)
+    })
+
+    it('matches vehicle and seat handles by id', () => {
+        const player = match.join(1)
+        const lp = match.lp(player)
+        const vehicle = match.runtime.createObject<mod.Vehicle>('Vehicle')
+        const changes: CorePlayer_ISoldierStateChange[] = []
+        lp.addListener({ OnSoldierStateChanged: (c) => changes.push(c) })
+
+        match.deploy(player)
+        const seat = match.enterVehicle(player, vehicle)
+        // The engine may hand out a new handle for the same object
+        match.main.OnPlayerEnterVehicle(player, { ...vehicle })
+        assert.equal(changes.length, 3)
+
+        match.main.OnPlayerExitVehicleSeat(player, vehicle, { ...seat })
+        assert.equal(lp.seat, undefined)
+        assert.equal(lp.soldierState, 'inVehicle')
+    })
+
+    it('flags unexpected transitions', () => {
+        const player = match.join(1)
+        match.deploy(player)
+        match.kill(player)
+
+        // Deployed again without the OnPlayerUndeploy in between
+        match.deploy(player)
+
+        const [lp, change] = match.eventsNamed('OnSoldierStateChanged').pop()!
+        assert.equal((lp as CorePlayer_APlayer).soldierState, 'alive')
+        assert.deepEqual(
+            [
+                (change as CorePlayer_ISoldierStateChange).previousState,
+                (change as CorePlayer_ISoldierStateChange).valid,
+            ],
+            ['dead', false]
+        )
+    })
+
+    it('follows team switches', () => {
+        const player = match.join(1)
+        match.switchTeam(player, 2)
+
+        assert.equal(mod.GetObjId(match.lp(player).team!), 2)
+    })
+
+    it('credits a death from the damage ledger', async () => {
+        const victim = match.join(1)
+        const [a, b, c] = [match.join(2), match.join(2), match.join(2)]
+        const credits: CorePlayer_IDeathCredit[] = []
+        match.lp(victim).addListener({
+            OnDeathCredit: (credit) => credits.push(credit),
+        })
+
+        match.deploy(victim)
+        match.damage(victim, c)
+        await match.advance(20)
+        match.damage(victim, a, 10)
+        match.damage(victim, a, 20)
+        // Healed back up between the hits
+        match.runtime.state(victim).health = 100
+        await match.advance(8)
+        match.damage(victim, b, 90)
+        await match.advance(3)
+        match.kill(victim, b)
+
+        const [credit] = credits
+        // c's hit fell out of the window, a's out of the assist window
+        assert.equal(credit.finisher, match.lp(b))
+        assert.equal(credit.mostDamage, match.lp(b))
+        assert.deepEqual(credit.assists, [])
+        assert.deepEqual(
+            credit.shares.map((s) => [s.attacker, s.hits, s.damage, s.share]),
+            [
+                [match.lp(b), 1, 90, 0.75],
+                [match.lp(a), 2, 30, 0.25],
+            ]
+        )
+
+        // A new life starts with an empty ledger
+        match.undeploy(victim)
+        match.deploy(victim)
+        match.kill(victim)
+        assert.equal(credits[1].finisher, undefined)
+        assert.deepEqual(credits[1].shares, [])
+    })
+
+    it('credits the last attacker for world deaths', () => {
+        const victim = match.join(1)
+        const enemy = match.join(2)
+        match.deploy(victim)
+        match.damage(victim, enemy)
+        match.kill(victim)
+
+        const [, credit] = match.eventsNamed('OnDeathCredit')[0] as [
+            CorePlayer_APlayer,
+            CorePlayer_IDeathCredit,
+        ]
+        assert.equal(credit.finisher, match.lp(enemy))
+        assert.equal(credit.shares[0].share, 1)
+    })
+})
@@ -0,0 +1,153 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CorePlayer_IGameModeEvents } from '../src/Core/IGameModeEvents'
+import { CorePhase_Ids } from '../src/Core/Phase/IPhase'
+import { CorePlayer_APlayer } from '../src/Core/Player/APlayer'
+import { Headless_Match } from './Headless/Match'
+
+describe('CorePlayer_CombatEvents', () => {
+    let match: Headless_Match
+
+    beforeEach(() => {
+        match = new Headless_Match({ gameMode: 'example' })
+        match.start()
+    })
+
+    afterEach(() => match.dispose())
+
+    /** Bus events of one kind as [lp id, ...rest]. */
+    function fired(name: keyof CorePlayer_IGameModeEvents): unknown[][] {
+        return match
+            .eventsNamed(name)
+            .map(([lp, ...rest]) => [
+                mod.GetObjId((lp as CorePlayer_APlayer).player),
+                ...rest.map((arg) =>
+                    arg instanceof Object && 'player' in arg
+                        ? mod.GetObjId((arg as CorePlayer_APlayer).player)
+                        : arg
+                ),
+            ])
+    }
+
+    function respawnAndKill(victim: mod.Player, killer: mod.Player): void {
+        match.undeploy(victim)
+        match.deploy(victim)
+        match.kill(victim, killer)
+    }
+
+    it('fires first blood once and tracks streaks', () => {
+        const a = match.join(1)
+        const b = match.join(2)
+        const [idA, idB] = [mod.GetObjId(a), mod.GetObjId(b)]
+        match.deploy(a)
+        match.deploy(b)
+
+        match.kill(b, a)
+        respawnAndKill(b, a)
+        respawnAndKill(b, a)
+        match.kill(a, b)
+
+        assert.deepEqual(fired('OnFirstBlood'), [[idA, idB]])
+        assert.deepEqual(fired('OnKillStreak'), [
+            [idA, 2],
+            [idA, 3],
+        ])
+        assert.deepEqual(fired('OnStreakEnded'), [[idA, 3, idB]])
+    })
+
+    it('fires multi-kills within the window', async () => {
+        const a = match.join(1)
+        const [b, c, d] = [match.join(2), match.join(2), match.join(2)]
+        match.deploy(a)
+        for (const p of [b, c, d]) match.deploy(p)
+
+        match.kill(b, a)
+        await match.advance(3)
+        match.kill(c, a)
+        await match.advance(5)
+        match.kill(d, a)
+
+        assert.deepEqual(fired('OnMultiKill'), [[mod.GetObjId(a), 2]])
+    })
+
+    it('fires revenge on the last killer only', () => {
+        const a = match.join(1)
+        const b = match.join(2)
+        match.deploy(a)
+        match.deploy(b)
+
+        match.kill(a, b)
+        respawnAndKill(b, a)
+        respawnAndKill(b, a)
+
+        assert.deepEqual(fired('OnRevengeKill'), [
+            [mod.GetObjId(a), mod.GetObjId(b)],
+        ])
+    })
+
+    it('separates team kills and suicides from regular kills', () => {
+        const a = match.join(1)
+        const mate = match.join(1)
+        const received: string[] = []
+        match.lp(mate).addListener({
+            OnSuicide: () => received.push('suicide'),
+        })
+        match.deploy(a)
+        match.deploy(mate)
+
+        match.kill(mate, a)
+        respawnAndKill(mate, mate)
+
+        assert.deepEqual(fired('OnTeamKill'), [
+            [mod.GetObjId(a), mod.GetObjId(mate)],
+        ])
+        assert.deepEqual(received, ['suicide'])
+        assert.equal(match.eventsNamed('OnFirstBlood').length, 0)
+    })
+
+    it('keeps team kills out of streaks and multi-kills', () => {
+        const a = match.join(1)
+        const [mate, other] = [match.join(1), match.join(1)]
+        for (const p of [a, mate, other]) match.deploy(p)
+
+        match.kill(mate, a)
+        match.kill(other, a)
+        respawnAndKill(mate, a)
+
+        assert.equal(match.lp(a).stats.kills, 3)
+        assert.equal(match.lp(a).stats.currentStreak, 0)
+        assert.equal(match.eventsNamed('OnKillStreak').length, 0)
+        assert.equal(match.eventsNamed('OnMultiKill').length, 0)
+    })
+
+    it('ignores kills while the phase blocks them', () => {
+        const phases = match.gameMode!.phases
+        phases.define({
+            id: CorePhase_Ids.Warmup,
+            blockedEvents: ['OnPlayerEarnedKill', 'OnSoldierStateChanged'],
+        })
+        phases.define({ id: CorePhase_Ids.Live })
+        phases.transition(CorePhase_Ids.Warmup)
+
+        const a = match.join(1)
+        const b = match.join(2)
+        match.deploy(a)
+        match.deploy(b)
+        match.kill(b, a)
+        respawnAndKill(b, a)
+        assert.equal(match.lp(a).stats.currentStreak, 0)
+        assert.equal(match.eventsNamed('OnSoldierStateChanged').length, 0)
+        match.kill(a, b)
+
+        phases.transition(CorePhase_Ids.Live)
+        match.undeploy(a)
+        match.deploy(a)
+        respawnAndKill(b, a)
+
+        assert.deepEqual(fired('OnFirstBlood'), [
+            [mod.GetObjId(a), mod.GetObjId(b)],
+        ])
+        assert.equal(match.eventsNamed('OnRevengeKill').length, 0)
+        assert.equal(match.eventsNamed('OnKillStreak').length, 0)
+    })
+})
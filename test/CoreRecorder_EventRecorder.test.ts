@@ -0,0 +1,105 @@
+import { strict as assert } from 'assert'
+import { describe, it } from 'node:test'
+import { CorePlayer_APlayer } from '../src/Core/Player/APlayer'
+import { Headless_Match } from './Headless/Match'
+import { Headless_Replay } from './Headless/Replay'
+
+/** Runs fn with console.log captured, returns the captured lines. */
+async function captureLog(fn: () => Promise<void>): Promise<string> {
+    const log = console.log
+    const lines: string[] = []
+    console.log = (...args: unknown[]) => lines.push(args.join(' '))
+    try {
+        await fn()
+    } finally {
+        console.log = log
+    }
+    return lines.join('\n')
+}
+
+/** Event names with the ids of logical player arguments. */
+function summarize(match: Headless_Match): string[] {
+    return match.events.map(
+        (e) =>
+            e.name +
+            e.args
+                .filter((arg) => arg instanceof Object && 'player' in arg)
+                .map(
+                    (lp) =>
+                        ' ' + mod.GetObjId((lp as CorePlayer_APlayer).player)
+                )
+                .join('')
+    )
+}
+
+describe('CoreRecorder_EventRecorder', () => {
+    it('records nothing unless enabled', async () => {
+        const match = new Headless_Match()
+        const log = await captureLog(async () => {
+            match.start()
+            match.join(1)
+        })
+        match.dispose()
+
+        assert.deepEqual(Headless_Replay.parse(log), [])
+    })
+
+    it('writes one JSON line per engine event with stable ids', async () => {
+        const match = new Headless_Match({ recordEvents: true })
+        let a!: mod.Player
+        let b!: mod.Player
+        const log = await captureLog(async () => {
+            match.start()
+            a = match.join(1)
+            b = match.join(2)
+            match.deploy(a)
+            await match.advance(1)
+            match.kill(a, b)
+        })
+        const records = Headless_Replay.parse(log)
+        assert.deepEqual(
+            records.map((r) => r.event),
+            [
+                'OnGameModeStarted',
+                'OnPlayerJoinGame',
+                'OnPlayerJoinGame',
+                'OnPlayerDeployed',
+                'OnPlayerDied',
+                'OnPlayerEarnedKill',
+            ]
+        )
+
+        const died = records[4]
+        assert.equal(died.time, 1)
+        assert.deepEqual(died.args.slice(0, 2), [
+            { Player: mod.GetObjId(a), team: 1, alive: false },
+            { Player: mod.GetObjId(b), team: 2, alive: false },
+        ])
+        match.dispose()
+    })
+
+    it('replays a session into the same game mode behaviour', async () => {
+        const recorded = new Headless_Match({ recordEvents: true })
+        const log = await captureLog(async () => {
+            recorded.start()
+            const a = recorded.join(1)
+            const b = recorded.join(2)
+            recorded.deploy(a)
+            recorded.deploy(b)
+            await recorded.advance(2)
+            recorded.kill(b, a)
+            await recorded.advance(5)
+            recorded.leave(a)
+        })
+        const expectedEvents = summarize(recorded)
+        const expectedMessages = recorded.runtime.displayedMessages()
+        recorded.dispose()
+
+        const replayed = new Headless_Match()
+        await new Headless_Replay(replayed, log).run()
+
+        assert.deepEqual(summarize(replayed), expectedEvents)
+        assert.deepEqual(replayed.runtime.displayedMessages(), expectedMessages)
+        replayed.dispose()
+    })
+})
@@ -0,0 +1,148 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CorePhase_Ids } from '../src/Core/Phase/IPhase'
+import { CoreRespawn_RespawnController } from '../src/Core/Respawn/RespawnController'
+import { Headless_Match } from './Headless/Match'
+
+describe('CoreRespawn_RespawnController', () => {
+    let match: Headless_Match
+    let respawn: CoreRespawn_RespawnController
+
+    beforeEach(() => {
+        match = new Headless_Match({ gameMode: 'example' })
+        match.start()
+        respawn = match.gameMode!.respawn
+    })
+
+    afterEach(() => match.dispose())
+
+    /** Values sent to the engine for one player. */
+    function sent(name: string, player: mod.Player): unknown[] {
+        return match.runtime
+            .callsTo(name)
+            .filter(({ args }) => args[0] === player)
+            .map(({ args }) => args[1])
+    }
+
+    it('waits the respawn delay after death', async () => {
+        respawn.configure({ delay: 5 })
+        const a = match.join(1)
+        match.deploy(a)
+        const lp = match.lp(a)
+
+        match.kill(a)
+        assert.deepEqual(sent('SetRedeployTime', a), [5])
+        assert.equal(respawn.waitFor(lp), 5)
+
+        await match.advance(5.5)
+        assert.equal(respawn.waitFor(lp), 0)
+        assert.equal(match.eventsNamed('OnRespawnReady').length, 1)
+
+        match.deploy(a)
+        assert.equal(respawn.isWaiting(lp), false)
+    })
+
+    it('releases waiting players together in waves', async () => {
+        respawn.configure({ waveInterval: 10 })
+        const a = match.join(1)
+        const b = match.join(2)
+        match.deploy(a)
+        match.deploy(b)
+
+        await match.advance(3)
+        match.kill(a)
+        await match.advance(4)
+        match.kill(b)
+        assert.deepEqual(sent('SetRedeployTime', a), [7])
+        assert.deepEqual(sent('SetRedeployTime', b), [3])
+        assert.deepEqual(sent('EnablePlayerDeploy', a), [false])
+
+        await match.advance(3.5)
+        assert.deepEqual(
+            match.eventsNamed('OnRespawnReady').map(([lp]) => lp),
+            [match.lp(a), match.lp(b)]
+        )
+        assert.deepEqual(sent('EnablePlayerDeploy', b), [false, true])
+    })
+
+    it('blocks deploying once the player or team is out of lives', () => {
+        respawn.configure({ livesPerPlayer: 2, livesPerTeam: 3 })
+        const a = match.join(1)
+        const b = match.join(1)
+        const lpA = match.lp(a)
+        const lpB = match.lp(b)
+
+        match.deploy(a)
+        match.kill(a)
+        match.deploy(a)
+        match.kill(a)
+        assert.equal(respawn.livesLeft(lpA), 0)
+        assert.equal(respawn.waitFor(lpA), undefined)
+        assert.deepEqual(sent('EnablePlayerDeploy', a).at(-1), false)
+        assert.deepEqual(match.eventsNamed('OnOutOfLives'), [[lpA]])
+
+        match.deploy(b)
+        match.kill(b)
+        assert.equal(respawn.livesLeft(lpB), 1)
+        assert.equal(respawn.teamLivesLeft(match.team(1)), 0)
+        assert.equal(respawn.isStanding(lpB), false)
+
+        // An undeploy from the menu is free
+        respawn.resetLives()
+        match.deploy(b)
+        match.undeploy(b)
+        assert.equal(respawn.livesLeft(lpB), 2)
+        assert.equal(respawn.waitFor(lpA), 0)
+    })
+
+    it('applies per-phase rules', () => {
+        const phases = match.gameMode!.phases
+        phases.define({ id: CorePhase_Ids.Live })
+        phases.define({ id: CorePhase_Ids.PostRound })
+        respawn.configure({ delay: 5, spectateCamera: 'Free' })
+        respawn.setPhaseRules(CorePhase_Ids.PostRound, { deploy: false })
+        phases.transition(CorePhase_Ids.Live)
+
+        const a = match.join(1)
+        match.deploy(a)
+        match.kill(a)
+        assert.deepEqual(sent('SetCameraTypeForPlayer', a), ['Cameras.Free'])
+
+        phases.transition(CorePhase_Ids.PostRound)
+        assert.equal(respawn.waitFor(match.lp(a)), undefined)
+        assert.deepEqual(sent('EnablePlayerDeploy', a).at(-1), false)
+
+        const b = match.join(2)
+        assert.deepEqual(sent('EnablePlayerDeploy', b), [false])
+    })
+
+    it('raises respawn events through the phase filter', async () => {
+        const phases = match.gameMode!.phases
+        phases.define({
+            id: CorePhase_Ids.PostRound,
+            blockedEvents: ['OnRespawnReady'],
+        })
+        phases.transition(CorePhase_Ids.PostRound)
+        respawn.configure({ delay: 1 })
+        const a = match.join(1)
+        match.deploy(a)
+        match.kill(a)
+
+        await match.advance(1.5)
+        assert.equal(respawn.waitFor(match.lp(a)), 0)
+        assert.equal(match.eventsNamed('OnRespawnReady').length, 0)
+    })
+
+    it('auto deploys from the chosen spawn point', async () => {
+        respawn.configure({ delay: 2, autoDeploy: true, spawnPoint: () => 7 })
+        const a = match.join(1)
+        match.deploy(a)
+        match.kill(a)
+
+        await match.advance(2.5)
+        assert.deepEqual(sent('SpawnPlayerFromSpawnPoint', a), [
+            match.runtime.object('SpawnPoint', 7),
+        ])
+        assert.equal(match.runtime.callsTo('DeployPlayer').length, 0)
+    })
+})
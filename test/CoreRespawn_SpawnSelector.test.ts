@@ -0,0 +1,119 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CoreRespawn_SpawnSelector } from '../src/Core/Respawn/SpawnSelector'
+import { Headless_IObject } from './Headless/ModRuntime'
+import { Headless_Match } from './Headless/Match'
+
+describe('CoreRespawn_SpawnSelector', () => {
+    let match: Headless_Match
+    let spawns: CoreRespawn_SpawnSelector
+
+    beforeEach(() => {
+        match = new Headless_Match({ gameMode: 'example' })
+        match.start()
+        placeSpawn(100, 0)
+        placeSpawn(101, 100)
+        spawns = new CoreRespawn_SpawnSelector(match.gameMode!, {
+            spawns: [100, 101],
+            protection: { seconds: 3 },
+        })
+    })
+
+    afterEach(() => match.dispose())
+
+    function placeSpawn(id: number, x: number): void {
+        const spawn = match.runtime.object<Headless_IObject>('SpawnPoint', id)
+        spawn.position = { kind: 'Vector', x, y: 0, z: 0 }
+    }
+
+    /** New vectors, since the runtime hands out the player's own. */
+    function place(player: mod.Player, x: number): void {
+        match.runtime.state(player).position = { kind: 'Vector', x, y: 0, z: 0 }
+        if (!match.runtime.state(player).alive) match.deploy(player)
+    }
+
+    it('picks the spawn point away from enemies', () => {
+        const a = match.join(1)
+        const enemy = match.join(2)
+        place(enemy, 10)
+
+        assert.ok(
+            spawns.score(match.lp(a), 100) < spawns.score(match.lp(a), 101)
+        )
+        assert.equal(spawns.select(match.lp(a)), 101)
+
+        place(enemy, 95)
+        assert.equal(spawns.select(match.lp(a)), 100)
+    })
+
+    it('rotates between equally safe spawn points', () => {
+        const lp = match.lp(match.join(1))
+        assert.deepEqual(
+            [spawns.select(lp), spawns.select(lp), spawns.select(lp)],
+            [100, 101, 100]
+        )
+    })
+
+    it('adds the team-owned spawn points', () => {
+        placeSpawn(110, 300)
+        spawns.setTeamSpawns(match.team(1), [110])
+        const a = match.lp(match.join(1))
+        const b = match.lp(match.join(2))
+
+        assert.deepEqual(spawns.candidates(a), [100, 101, 110])
+        assert.deepEqual(spawns.candidates(b), [100, 101])
+    })
+
+    it('avoids recent deaths and enemies facing the spawn', async () => {
+        const a = match.join(1)
+        const victim = match.join(1)
+        place(victim, 5)
+        match.kill(victim)
+        assert.equal(spawns.select(match.lp(a)), 101)
+
+        await match.advance(11)
+        const enemy = match.join(2)
+        place(enemy, 160)
+        // Out of enemyRadius, but looking down the line toward 101
+        match.runtime.state(enemy).facing = {
+            kind: 'Vector',
+            x: -1,
+            y: 0,
+            z: 0,
+        }
+        assert.equal(spawns.select(match.lp(a)), 100)
+
+        match.runtime.state(enemy).facing = { kind: 'Vector', x: 1, y: 0, z: 0 }
+        assert.equal(spawns.score(match.lp(a), 101), 0)
+    })
+
+    it('protects until the player moves or fires', async () => {
+        const a = match.join(1)
+        const factors = () =>
+            match.runtime
+                .callsTo('SetPlayerIncomingDamageFactor')
+                .map(({ args }) => args[1])
+
+        match.deploy(a)
+        assert.equal(spawns.isProtected(match.lp(a)), true)
+        match.tick()
+        assert.deepEqual(factors(), [0])
+
+        place(a, 5)
+        match.tick()
+        assert.equal(spawns.isProtected(match.lp(a)), false)
+        assert.deepEqual(factors(), [0, 1])
+
+        match.kill(a)
+        match.deploy(a)
+        match.runtime.state(a).flags.add('SoldierStateBool.IsFiring')
+        match.tick()
+        assert.deepEqual(factors(), [0, 1, 0, 1])
+
+        match.runtime.state(a).flags.clear()
+        spawns.protect(match.lp(a))
+        await match.advance(3.5)
+        assert.equal(spawns.isProtected(match.lp(a)), false)
+        assert.deepEqual(factors(), [0, 1, 0, 1, 0, 1])
+    })
+})
@@ -0,0 +1,106 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CoreScheduler_Scheduler } from '../src/Core/Scheduler/Scheduler'
+import { Headless_Match } from './Headless/Match'
+
+describe('CoreScheduler_Scheduler', () => {
+    let match: Headless_Match
+    let scheduler: CoreScheduler_Scheduler
+
+    beforeEach(() => {
+        match = new Headless_Match({ gameMode: 'example' })
+        match.start()
+        scheduler = match.gameMode!.scheduler
+    })
+
+    afterEach(() => match.dispose())
+
+    it('repeats intervals and keeps running after a callback throws', async () => {
+        const fired: string[] = []
+        const errors: unknown[] = []
+        scheduler.onError = (error) => errors.push(error)
+        scheduler.setInterval(() => {
+            fired.push('a')
+            throw new Error('boom')
+        }, 1)
+        scheduler.setInterval(() => fired.push('b'), 2)
+
+        await match.advance(2.1)
+        assert.deepEqual(fired, ['a', 'a', 'b'])
+        assert.equal(errors.length, 2)
+    })
+
+    it('cancels every timer from inside a callback', async () => {
+        const fired: string[] = []
+        scheduler.setInterval(() => {
+            fired.push('a')
+            scheduler.cancelAll()
+        }, 1)
+        scheduler.setInterval(() => fired.push('b'), 1)
+
+        await match.advance(3.1)
+        assert.deepEqual(fired, ['a'])
+    })
+
+    it('pauses every timer from inside a callback', async () => {
+        const fired: string[] = []
+        scheduler.setInterval(() => {
+            fired.push('a')
+            scheduler.pause()
+        }, 1)
+        const b = scheduler.setInterval(() => fired.push('b'), 1)
+
+        await match.advance(3.1)
+        assert.deepEqual(fired, ['a'])
+        assert.equal(scheduler.isPaused(), true)
+        assert.equal(b.isPaused(), true)
+
+        // b was due when it got paused
+        scheduler.resume()
+        await match.advance(0.5)
+        assert.deepEqual(fired, ['a', 'b'])
+    })
+
+    it('leaves timers paused by their caller paused on resume', async () => {
+        let fired = 0
+        const timer = scheduler.setTimeout(() => fired++, 1)
+        timer.pause()
+
+        scheduler.pause()
+        scheduler.resume()
+        await match.advance(2)
+        assert.equal(fired, 0)
+
+        timer.resume()
+        await match.advance(1.1)
+        assert.equal(fired, 1)
+    })
+
+    it('cancels the timers of a player who leaves', async () => {
+        const player = match.join(1)
+        let fired = 0
+        const timer = scheduler.setTimeout(() => fired++, 2, {
+            owner: match.lp(player),
+        })
+
+        match.leave(player)
+        await match.advance(3)
+        assert.equal(fired, 0)
+        assert.equal(timer.isActive(), false)
+    })
+
+    it('stops match clock timers while game mode time is paused', async () => {
+        const fired: string[] = []
+        scheduler.setTimeout(() => fired.push('match'), 2, { clock: 'match' })
+        scheduler.setTimeout(() => fired.push('real'), 2)
+
+        await match.advance(1)
+        mod.PauseGameModeTime(true)
+        await match.advance(3)
+        assert.deepEqual(fired, ['real'])
+
+        mod.PauseGameModeTime(false)
+        await match.advance(1.1)
+        assert.deepEqual(fired, ['real', 'match'])
+    })
+})
@@ -0,0 +1,88 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CorePlayer_APlayer } from '../src/Core/Player/APlayer'
+import { CoreScoreboard_Scoreboard } from '../src/Core/Scoreboard/Scoreboard'
+import { Headless_Match } from './Headless/Match'
+
+describe('CoreScoreboard_Scoreboard', () => {
+    let match: Headless_Match
+    let scoreboard: CoreScoreboard_Scoreboard<CorePlayer_APlayer>
+
+    beforeEach(() => {
+        match = new Headless_Match({ gameMode: 'example' })
+        match.start()
+        scoreboard = new CoreScoreboard_Scoreboard(match.gameMode!, {
+            type: 'team',
+            columns: [
+                { label: 'sb.kills', width: 2, value: (lp) => lp.stats.kills },
+                {
+                    label: 'sb.deaths',
+                    width: 1,
+                    value: (lp) => lp.stats.deaths,
+                },
+            ],
+            sortBy: 'sb.kills',
+        })
+    })
+
+    afterEach(() => match.dispose())
+
+    /** SetScoreboardPlayerValues calls as [player id, ...values]. */
+    function pushed(): unknown[][] {
+        return match.runtime
+            .callsTo('SetScoreboardPlayerValues')
+            .map(({ args: [player, ...values] }) => [
+                mod.GetObjId(player as mod.Player),
+                ...values,
+            ])
+    }
+
+    it('sets up the custom layout', () => {
+        const runtime = match.runtime
+        assert.deepEqual(runtime.callsTo('SetScoreboardType')[0].args, [
+            'ScoreboardType.CustomTwoTeams',
+        ])
+        assert.deepEqual(
+            runtime
+                .callsTo('SetScoreboardColumnNames')[0]
+                .args.map((m) => (m as { key: string }).key),
+            ['sb.kills', 'sb.deaths']
+        )
+        assert.deepEqual(
+            runtime.callsTo('SetScoreboardColumnWidths')[0].args,
+            [2, 1]
+        )
+        assert.deepEqual(runtime.callsTo('SetScoreboardSorting')[0].args, [
+            1,
+            false,
+        ])
+    })
+
+    it('pushes values on join and when they change', () => {
+        const a = match.join(1)
+        const b = match.join(2)
+        const [idA, idB] = [mod.GetObjId(a), mod.GetObjId(b)]
+        match.deploy(a)
+        match.deploy(b)
+        match.kill(b, a)
+
+        assert.deepEqual(pushed(), [
+            [idA, 0, 0],
+            [idB, 0, 0],
+            [idB, 0, 1],
+            [idA, 1, 0],
+        ])
+    })
+
+    it('resends everything when the type changes', () => {
+        const a = match.join(1)
+        scoreboard.setType('ffa')
+
+        assert.deepEqual(
+            match.runtime.callsTo('SetScoreboardType').pop()!.args,
+            ['ScoreboardType.CustomFFA']
+        )
+        assert.equal(pushed().length, 2)
+        assert.deepEqual(pushed()[1], [mod.GetObjId(a), 0, 0])
+    })
+})
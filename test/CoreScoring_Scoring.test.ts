@@ -0,0 +1,151 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CorePhase_Ids } from '../src/Core/Phase/IPhase'
+import { CoreScoring_IDecision } from '../src/Core/Scoring/Scoring'
+import { Headless_Match } from './Headless/Match'
+
+describe('CoreScoring_Scoring', () => {
+    let match: Headless_Match
+
+    beforeEach(() => {
+        match = new Headless_Match({ gameMode: 'example' })
+        match.start()
+    })
+
+    afterEach(() => match.dispose())
+
+    function decisions(): CoreScoring_IDecision[] {
+        return match
+            .eventsNamed('OnMatchDecided')
+            .map((args) => args[0] as CoreScoring_IDecision)
+    }
+
+    function winnerId(): number | undefined {
+        const winner = decisions()[0].winner
+        return winner && mod.GetObjId(winner)
+    }
+
+    it('decides once when a team reaches the target score', () => {
+        const scoring = match.gameMode!.scoring
+        scoring.configure({ conditions: ['targetScore'], targetScore: 3 })
+        assert.deepEqual(
+            match.runtime.callsTo('SetGameModeTargetScore')[0].args,
+            [3]
+        )
+
+        scoring.addScore(match.team(1), 2)
+        scoring.addScore(match.team(2), 3)
+        scoring.addScore(match.team(1), 5)
+
+        assert.equal(decisions().length, 1)
+        assert.equal(winnerId(), 2)
+        assert.equal(decisions()[0].condition, 'targetScore')
+        assert.equal(match.runtime.callsTo('EndGameMode').length, 1)
+    })
+
+    it('goes to overtime on a tie at the time limit', () => {
+        const scoring = match.gameMode!.scoring
+        scoring.configure({
+            conditions: ['mostScoreAtTimeLimit'],
+            timeLimit: 600,
+            onTie: 'overtime',
+            overtimeSeconds: 120,
+        })
+        scoring.setScore(match.team(1), 4)
+        scoring.setScore(match.team(2), 4)
+
+        match.main.OnTimeLimitReached()
+        assert.deepEqual(match.eventsNamed('OnOvertime'), [[false]])
+        assert.equal(decisions().length, 0)
+
+        scoring.addScore(match.team(1), 1)
+        match.main.OnTimeLimitReached()
+        assert.equal(winnerId(), 1)
+        assert.equal(decisions()[0].overtime, true)
+    })
+
+    it('ends sudden death on the first lead', () => {
+        const scoring = match.gameMode!.scoring
+        scoring.configure({
+            conditions: ['mostScoreAtTimeLimit'],
+            onTie: 'suddenDeath',
+        })
+
+        match.main.OnTimeLimitReached()
+        assert.deepEqual(match.eventsNamed('OnOvertime'), [[true]])
+
+        scoring.addScore(match.team(2), 1)
+        assert.equal(winnerId(), 2)
+    })
+
+    it('decides on the last team standing', () => {
+        match.gameMode!.scoring.configure({ conditions: ['lastTeamStanding'] })
+        match.gameMode!.respawn.configure({ livesPerPlayer: 1 })
+        const a = match.join(1)
+        const b = match.join(2)
+        const c = match.join(2)
+        for (const p of [a, b, c]) match.deploy(p)
+
+        match.kill(b, a)
+        assert.equal(decisions().length, 0)
+
+        match.kill(c, a)
+        assert.equal(winnerId(), 1)
+        assert.equal(decisions()[0].condition, 'lastTeamStanding')
+    })
+
+    it('counts players who can still respawn as standing', () => {
+        match.gameMode!.scoring.configure({ conditions: ['lastTeamStanding'] })
+        match.gameMode!.respawn.configure({ livesPerPlayer: 2 })
+        const a = match.join(1)
+        const b = match.join(2)
+        match.deploy(a)
+        match.deploy(b)
+
+        match.kill(b, a)
+        assert.equal(decisions().length, 0)
+
+        match.deploy(b)
+        match.kill(b, a)
+        assert.equal(winnerId(), 1)
+    })
+
+    it('ignores teams without players', () => {
+        match.gameMode!.scoring.configure({ conditions: ['lastTeamStanding'] })
+        match.gameMode!.respawn.configure({ livesPerPlayer: 1 })
+        const a = match.join(1)
+        const b = match.join(1)
+        match.deploy(a)
+        match.kill(a)
+        assert.equal(decisions().length, 0)
+
+        match.join(2)
+        match.deploy(b)
+        match.kill(b)
+        assert.equal(winnerId(), 2)
+    })
+
+    it('only decides while the match is live', () => {
+        const phases = match.gameMode!.phases
+        phases.define({ id: CorePhase_Ids.Live })
+        phases.define({ id: CorePhase_Ids.PostRound })
+        match.gameMode!.scoring.configure({ conditions: ['lastTeamStanding'] })
+        match.gameMode!.respawn.configure({ livesPerPlayer: 1 })
+        const a = match.join(1)
+        const b = match.join(2)
+        const c = match.join(2)
+        for (const p of [a, b, c]) match.deploy(p)
+
+        phases.transition(CorePhase_Ids.PostRound)
+        match.kill(b, a)
+        match.leave(c)
+        assert.equal(decisions().length, 0)
+        assert.equal(match.runtime.callsTo('EndGameMode').length, 0)
+
+        phases.transition(CorePhase_Ids.Live)
+        const d = match.join(2)
+        match.deploy(d)
+        match.kill(d, a)
+        assert.equal(winnerId(), 1)
+    })
+})
@@ -0,0 +1,118 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CorePhase_Ids } from '../src/Core/Phase/IPhase'
+import { Headless_Match } from './Headless/Match'
+
+describe('CoreStats_StatsTracker', () => {
+    let match: Headless_Match
+
+    beforeEach(() => {
+        match = new Headless_Match({ gameMode: 'example' })
+        match.start()
+    })
+
+    afterEach(() => match.dispose())
+
+    const rifle = 'Weapons.Rifle' as unknown as mod.WeaponUnlock
+    const pistol = 'Weapons.Pistol' as unknown as mod.WeaponUnlock
+    const headshot = 'PlayerDeathTypes.Headshot' as unknown as mod.DeathType
+    const weapon = 'PlayerDeathTypes.Weapon' as unknown as mod.DeathType
+
+    it('counts kills, deaths and breakdowns per player', () => {
+        const a = match.join(1)
+        const b = match.join(2)
+        match.deploy(a)
+        match.deploy(b)
+        match.damage(b, a, 35)
+        match.kill(b, a, headshot, rifle)
+        match.undeploy(b)
+        match.deploy(b)
+        match.kill(b, a, weapon, pistol)
+
+        const killer = match.lp(a).stats
+        const victim = match.lp(b).stats
+        assert.equal(killer.kills, 2)
+        assert.equal(killer.damageDealt, 35)
+        assert.equal(killer.killsByWeapon.get(rifle), 1)
+        assert.equal(killer.killsByWeapon.get(pistol), 1)
+        assert.equal(killer.killsByDeathType.get(headshot), 1)
+        assert.equal(victim.deaths, 2)
+        assert.equal(victim.damageTaken, 35)
+        assert.equal(victim.deathsByWeapon.get(rifle), 1)
+        assert.equal(killer.kd(), 2)
+    })
+
+    it('tracks streaks and longest life', async () => {
+        const a = match.join(1)
+        const b = match.join(2)
+        match.deploy(a)
+
+        for (let i = 0; i < 3; i++) {
+            match.deploy(b)
+            await match.advance(2)
+            match.kill(b, a)
+            match.undeploy(b)
+        }
+        await match.advance(4)
+        match.kill(a, b)
+
+        const stats = match.lp(a).stats
+        assert.equal(stats.currentStreak, 0)
+        assert.equal(stats.bestStreak, 3)
+        assert.equal(stats.longestLife, 10)
+        assert.equal(match.lp(b).stats.longestLife, 2)
+    })
+
+    it('counts no deaths where kills do not count', async () => {
+        const phases = match.gameMode!.phases
+        phases.define({
+            id: CorePhase_Ids.Warmup,
+            blockedEvents: ['OnPlayerEarnedKill'],
+        })
+        phases.transition(CorePhase_Ids.Warmup)
+        const a = match.join(1)
+        const b = match.join(2)
+        match.deploy(a)
+        match.deploy(b)
+        await match.advance(3)
+        match.kill(b, a)
+
+        const victim = match.lp(b).stats
+        assert.deepEqual([victim.deaths, match.lp(a).stats.kills], [0, 0])
+        assert.equal(victim.longestLife, 3)
+        assert.equal(victim.lifeStartedAt, undefined)
+    })
+
+    it('counts assists and revives', () => {
+        const a = match.join(1)
+        const medic = match.join(1)
+        const b = match.join(2)
+        match.main.OnPlayerEarnedKillAssist(a, b)
+        match.deploy(a)
+        match.mandown(a, b)
+        match.revive(a, medic)
+
+        assert.equal(match.lp(a).stats.assists, 1)
+        assert.equal(match.lp(a).stats.timesRevived, 1)
+        assert.equal(match.lp(medic).stats.revives, 1)
+    })
+
+    it('aggregates per team at the time of the event', () => {
+        const a = match.join(1)
+        const b = match.join(2)
+        match.deploy(a)
+        match.deploy(b)
+        match.kill(b, a)
+
+        // Switching teams keeps earlier kills on the old team
+        match.switchTeam(a, 2)
+        match.undeploy(b)
+        match.deploy(b)
+        match.kill(b, a)
+
+        const stats = match.gameMode!.stats
+        assert.equal(stats.team(match.team(1)).kills, 1)
+        assert.equal(stats.team(match.team(2)).kills, 1)
+        assert.equal(stats.team(match.team(2)).deaths, 2)
+    })
+})
@@ -0,0 +1,104 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CoreTeam_ATeam } from '../src/Core/Team/ATeam'
+import { Example_GameMode } from '../src/GameModes/Example/Example_GameMode'
+import { Headless_Match } from './Headless/Match'
+
+class Test_GameMode extends Example_GameMode {
+    team(id: number): CoreTeam_ATeam {
+        return this.lt(mod.GetTeam(id))!
+    }
+}
+
+describe('CoreTeam_ATeamManager', () => {
+    let match: Headless_Match
+    let mode: Test_GameMode
+
+    beforeEach(() => {
+        match = new Headless_Match({ create: () => new Test_GameMode() })
+        match.start()
+        mode = match.gameMode as Test_GameMode
+    })
+
+    afterEach(() => match.dispose())
+
+    /** Team events as readable lines, with player ids. */
+    function record(team: CoreTeam_ATeam): string[] {
+        const seen: string[] = []
+        const id = (lp: { player: mod.Player }) => mod.GetObjId(lp.player)
+        team.addListener({
+            OnMemberJoined: (lp) => seen.push(`joined ${id(lp)}`),
+            OnMemberLeft: (lp) => seen.push(`left ${id(lp)}`),
+            OnLastMemberAlive: (lp) => seen.push(`last ${id(lp)}`),
+            OnTeamEliminated: () => seen.push('eliminated'),
+            OnTeamScoreChanged: (score, previous) =>
+                seen.push(`score ${previous}>${score}`),
+        })
+        return seen
+    }
+
+    it('follows joins, switches and leaves', () => {
+        const seen = record(mode.team(1))
+        const a = match.join(1)
+        const b = match.join(1)
+
+        match.switchTeam(a, 2)
+        assert.deepEqual(
+            mode
+                .team(1)
+                .members()
+                .map((lp) => lp.player),
+            [b]
+        )
+        assert.equal(mode.team(2).hasMember(mod.GetObjId(a)), true)
+
+        match.leave(b)
+        assert.equal(mode.team(1).memberCount(), 0)
+        const [idA, idB] = [a, b].map((p) => mod.GetObjId(p))
+        assert.deepEqual(seen, [
+            `joined ${idA}`,
+            `joined ${idB}`,
+            `left ${idA}`,
+            `left ${idB}`,
+        ])
+    })
+
+    it('reports the last member alive, then the elimination', () => {
+        const seen = record(mode.team(1))
+        const [a, b, c] = [1, 1, 1].map((team) => match.join(team))
+        for (const player of [a, b, c]) match.deploy(player)
+        assert.equal(mode.team(1).aliveCount(), 3)
+
+        match.kill(a)
+        match.mandown(b)
+        assert.deepEqual(
+            mode
+                .team(1)
+                .aliveMembers()
+                .map((lp) => lp.player),
+            [c]
+        )
+        match.revive(b, c)
+        match.kill(b)
+        match.kill(c)
+
+        // Down to one on the mandown, and again after the revive
+        const idC = mod.GetObjId(c)
+        assert.deepEqual(seen.slice(3), [
+            `last ${idC}`,
+            `last ${idC}`,
+            'eliminated',
+        ])
+    })
+
+    it('routes score changes through scoring', () => {
+        const seen = record(mode.team(1))
+
+        mode.team(1).addScore(3)
+        mode.team(1).setScore(3)
+        mode.scoring.addScore(match.team(1), 2)
+
+        assert.equal(mode.team(1).score, 5)
+        assert.deepEqual(seen, ['score 0>3', 'score 3>5'])
+    })
+})
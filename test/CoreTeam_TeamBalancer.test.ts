@@ -0,0 +1,160 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CorePhase_Ids } from '../src/Core/Phase/IPhase'
+import { CorePlayer_APlayer } from '../src/Core/Player/APlayer'
+import { CoreTeam_TeamBalancer } from '../src/Core/Team/TeamBalancer'
+import { Headless_Match } from './Headless/Match'
+
+describe('CoreTeam_TeamBalancer', () => {
+    let match: Headless_Match
+    let balancer: CoreTeam_TeamBalancer
+
+    beforeEach(() => {
+        match = new Headless_Match({ gameMode: 'example' })
+        match.start()
+        balancer = match.gameMode!.balancer
+    })
+
+    afterEach(() => match.dispose())
+
+    function teamOf(player: mod.Player): number {
+        return match.runtime.state(player).teamId
+    }
+
+    it('warns the newest player, then moves them once', async () => {
+        balancer.configure({ warnSeconds: 5 })
+        match.join(1)
+        await match.advance(1)
+        const b = match.join(1)
+
+        assert.equal(balancer.isPending(match.lp(b)), true)
+        assert.deepEqual(
+            match.runtime.callsTo('DisplayNotificationMessage')[0].args,
+            [
+                {
+                    kind: 'Message',
+                    key: 'core.team.balance.warning',
+                    args: [5],
+                },
+                b,
+            ]
+        )
+        assert.deepEqual(
+            [...balancer.sizes()],
+            [
+                [1, 1],
+                [2, 1],
+            ]
+        )
+
+        await match.advance(5.5)
+        assert.equal(teamOf(b), 2)
+        assert.equal(match.runtime.mod.GetObjId(match.lp(b).team!), 2)
+
+        // The engine's own report of the switch is not routed again
+        match.switchTeam(b, 2)
+        assert.deepEqual(
+            match.eventsNamed('OnPlayerSwitchTeam').map(([lp]) => lp),
+            [match.lp(b)]
+        )
+    })
+
+    it('skips the move when the teams even out meanwhile', async () => {
+        balancer.configure({ warnSeconds: 5 })
+        match.join(1)
+        await match.advance(1)
+        const b = match.join(1)
+        match.join(2)
+
+        await match.advance(5.5)
+        assert.equal(teamOf(b), 1)
+        assert.equal(match.eventsNamed('OnPlayerSwitchTeam').length, 0)
+    })
+
+    it('balances after a leave', async () => {
+        balancer.configure({ warnSeconds: 2 })
+        const a = match.join(1)
+        match.join(2)
+        match.join(1)
+        await match.advance(1)
+        const d = match.join(2)
+        const e = match.join(2)
+        assert.equal(balancer.isPending(match.lp(e)), false)
+
+        match.leave(a)
+        assert.equal(balancer.isPending(match.lp(d)), true)
+        await match.advance(2.5)
+        assert.equal(teamOf(d), 1)
+        assert.deepEqual(
+            [...balancer.sizes()],
+            [
+                [1, 2],
+                [2, 2],
+            ]
+        )
+    })
+
+    it('waits for a phase that allows moving players', () => {
+        const phases = match.gameMode!.phases
+        phases.define({ id: CorePhase_Ids.PostRound })
+        phases.define({ id: CorePhase_Ids.Warmup })
+        phases.transition(CorePhase_Ids.PostRound)
+        balancer.configure({ warnSeconds: 5 })
+        const players = [match.join(1), match.join(1)]
+        const pending = () =>
+            players.filter((player) => balancer.isPending(match.lp(player)))
+        assert.equal(pending().length, 0)
+
+        phases.transition(CorePhase_Ids.Warmup)
+        assert.equal(pending().length, 1)
+    })
+
+    it('moves whole squads and prefers players not in play', () => {
+        balancer.configure({ onJoin: false })
+        const players = [1, 1, 1, 1].map((team) => match.join(team))
+        const [s1, s2, c, d] = players
+        match.runtime.state(s2).squadId = match.runtime.state(s1).id
+        match.deploy(c)
+        match.deploy(d)
+
+        balancer.balance()
+        assert.deepEqual(
+            players.map((player) => balancer.isPending(match.lp(player))),
+            [true, true, false, false]
+        )
+
+        balancer.OnRoundIntermission()
+        assert.deepEqual(players.map(teamOf), [2, 2, 1, 1])
+    })
+
+    it('never splits a squad to even out the teams', () => {
+        balancer.configure({ onJoin: false })
+        const players = [1, 1, 1].map((team) => match.join(team))
+        for (const player of players) {
+            match.runtime.state(player).squadId = 99
+        }
+        match.join(2)
+
+        balancer.balance(true)
+        assert.deepEqual(players.map(teamOf), [1, 1, 1])
+    })
+
+    it('evens out skill among the candidates', async () => {
+        const skill = new Map<CorePlayer_APlayer, number>()
+        balancer.configure({ onJoin: false, skill: (lp) => skill.get(lp)! })
+        const [a, b, c] = [1, 1, 1].map((team) => match.join(team))
+        const x = match.join(2)
+        for (const player of [a, b, c, x]) match.deploy(player)
+        await match.advance(61)
+
+        // 5 + 1 + 3 against 3: moving the 3 evens it out
+        skill
+            .set(match.lp(a), 5)
+            .set(match.lp(b), 1)
+            .set(match.lp(c), 3)
+            .set(match.lp(x), 3)
+
+        balancer.balance(true)
+        assert.deepEqual([a, b, c].map(teamOf), [1, 1, 2])
+    })
+})
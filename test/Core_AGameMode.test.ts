@@ -0,0 +1,97 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CorePlayer_APlayer } from '../src/Core/Player/APlayer'
+import { Headless_Match } from './Headless/Match'
+
+describe('Core_AGameMode', () => {
+    let match: Headless_Match
+
+    beforeEach(() => {
+        match = new Headless_Match({ gameMode: 'example' })
+        match.start()
+    })
+
+    afterEach(() => match.dispose())
+
+    it('broadcasts engine events with logical players', () => {
+        const a = match.join(1)
+        const b = match.join(2)
+        match.deploy(a)
+        match.deploy(b)
+        match.kill(b, a)
+
+        assert.deepEqual(match.eventNames(), [
+            'OnGameModeStarted',
+            'OnPlayerJoinGame',
+            'OnPlayerJoinGame',
+            'OnSoldierStateChanged',
+            'OnPlayerDeployed',
+            'OnSoldierStateChanged',
+            'OnPlayerDeployed',
+            'OnSoldierStateChanged',
+            'OnDeathCredit',
+            'OnFirstBlood',
+            'OnPlayerDied',
+            'OnPlayerEarnedKill',
+        ])
+
+        const [victim, killer] = match.eventsNamed('OnPlayerDied')[0] as [
+            CorePlayer_APlayer,
+            CorePlayer_APlayer,
+        ]
+        assert.equal(victim.player, b)
+        assert.equal(killer.player, a)
+    })
+
+    it('emits OnPlayerLeaveGame with the departed player, then forgets it', () => {
+        const player = match.join(1)
+        match.leave(player)
+
+        const [left] = match.eventsNamed('OnPlayerLeaveGame')[0] as [
+            CorePlayer_APlayer,
+        ]
+        assert.equal(left.player, player)
+
+        // Events for a player that already left are dropped
+        match.deploy(player)
+        assert.equal(match.eventsNamed('OnPlayerDeployed').length, 0)
+    })
+
+    it('runs scheduler timers on match ticks', async () => {
+        let fired = 0
+        match.gameMode!.scheduler.setTimeout(() => fired++, 2)
+
+        await match.advance(1)
+        assert.equal(fired, 0)
+
+        await match.advance(1.1)
+        assert.equal(fired, 1)
+    })
+
+    it('resumes tasks waiting on mod.Wait', async () => {
+        const steps: number[] = []
+        match.gameMode!.tasks.run(async (task) => {
+            steps.push(match.runtime.time)
+            await task.wait(3)
+            steps.push(match.runtime.time)
+        })
+
+        await match.advance(4)
+        assert.equal(steps.length, 2)
+        assert.ok(steps[1] - steps[0] >= 3)
+    })
+
+    it('keeps routing when a listener throws', () => {
+        match.gameMode!.addListener({
+            OnPlayerDeployed: () => {
+                throw new Error('listener failure')
+            },
+        })
+
+        const player = match.join(1)
+        match.deploy(player)
+        match.kill(player)
+
+        assert.equal(match.eventsNamed('OnPlayerDied').length, 1)
+    })
+})
@@ -0,0 +1,107 @@
+import { strict as assert } from 'assert'
+import { afterEach, describe, it } from 'node:test'
+import { Core_ARoundGameMode } from '../src/Core/ARoundGameMode'
+import { CorePlayer_APlayerManager } from '../src/Core/Player/APlayerManager'
+import { Example_PlayerManager } from '../src/GameModes/Example/Example_PlayerManager'
+import { Headless_Match } from './Headless/Match'
+
+class Test_RoundGameMode extends Core_ARoundGameMode {
+    protected override halfTimeAfterRound = 1
+    protected override intermissionSeconds = 1
+
+    protected createPlayerManager(): CorePlayer_APlayerManager {
+        return new Example_PlayerManager(this)
+    }
+
+    protected override OnGameModeStarted(): void {
+        this.startMatch()
+    }
+
+    win(teamId: number): void {
+        this.endRound(mod.GetTeam(teamId))
+    }
+}
+
+describe('Core_ARoundGameMode', () => {
+    let match: Headless_Match
+
+    afterEach(() => match.dispose())
+
+    function start(): Test_RoundGameMode {
+        match = new Headless_Match({ create: () => new Test_RoundGameMode() })
+        match.start()
+        return match.gameMode as Test_RoundGameMode
+    }
+
+    function teamOf(player: mod.Player): number {
+        return match.runtime.state(player).teamId
+    }
+
+    it('swaps sides at half time with the engine', async () => {
+        const mode = start()
+        const [a, b] = [1, 2].map((team) => match.join(team))
+
+        mode.win(1)
+        await match.advance(1.5)
+        assert.deepEqual([a, b].map(teamOf), [2, 1])
+        assert.equal(match.runtime.callsTo('SetTeam').length, 0)
+        assert.equal(mode.getRoundWins(match.team(2)), 1)
+        assert.equal(match.eventsNamed('OnPlayerSwitchTeam').length, 2)
+    })
+
+    it('moves players itself when the engine refuses uneven teams', async () => {
+        const mode = start()
+        const players = [1, 1, 1, 2].map((team) => match.join(team))
+
+        mode.win(1)
+        await match.advance(1.5)
+        assert.deepEqual(players.map(teamOf), [2, 2, 2, 1])
+        assert.equal(match.runtime.callsTo('SetTeam').length, 4)
+        // Round wins follow the players
+        assert.equal(mode.getRoundWins(match.team(2)), 1)
+        assert.equal(mode.getRoundWins(match.team(1)), 0)
+        assert.equal(match.eventsNamed('OnPlayerSwitchTeam').length, 4)
+    })
+
+    it('balances joins between rounds unless midRound is set', async () => {
+        const mode = start()
+        mode.balancer.configure({ warnSeconds: 1 })
+        const players = [1, 1, 1].map((team) => match.join(team))
+
+        assert.equal(mode.balancer.isPending(match.lp(players[2])), false)
+        await match.advance(1.5)
+        assert.deepEqual(players.map(teamOf), [1, 1, 1])
+
+        mode.win(1)
+        await match.advance(1.5)
+        assert.deepEqual([...mode.balancer.sizes().values()].sort(), [1, 2])
+        assert.equal(
+            match.runtime.callsTo('DisplayNotificationMessage').length,
+            0
+        )
+
+        mode.balancer.configure({ warnSeconds: 1, midRound: true })
+        const late = match.join(2)
+        assert.equal(mode.balancer.isPending(match.lp(late)), true)
+    })
+
+    it('decides the match through scoring', async () => {
+        const mode = start()
+        match.join(1)
+        match.join(2)
+
+        mode.win(1)
+        assert.equal(mode.scoring.score(match.team(1)), 1)
+        await match.advance(1.5)
+        mode.win(2)
+
+        const decision = mode.scoring.decision!
+        assert.equal(mod.GetObjId(decision.winner!), 2)
+        assert.equal(decision.condition, 'roundsWon')
+        assert.equal(match.eventsNamed('OnMatchDecided').length, 1)
+        assert.deepEqual(
+            match.runtime.callsTo('EndGameMode').map(({ args }) => args[0]),
+            [match.team(2)]
+        )
+    })
+})
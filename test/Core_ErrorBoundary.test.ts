@@ -0,0 +1,76 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it, mock } from 'node:test'
+import { Core_ErrorBoundary } from '../src/Core/ErrorBoundary'
+import { Headless_Match } from './Headless/Match'
+
+describe('Core_ErrorBoundary', () => {
+    let match: Headless_Match
+    let errors: Core_ErrorBoundary
+
+    beforeEach(() => {
+        match = new Headless_Match({ gameMode: 'example' })
+        match.start()
+        errors = match.gameMode!.errors
+    })
+
+    afterEach(() => {
+        mock.restoreAll()
+        match.dispose()
+    })
+
+    /** Console lines matching the pattern. */
+    function logged(log: ReturnType<typeof mock.fn>, pattern: RegExp): number {
+        return log.mock.calls.filter((call) =>
+            pattern.test(String(call.arguments[0]))
+        ).length
+    }
+
+    it('disables a listener that keeps failing, and says so once', () => {
+        errors.maxListenerFailures = 3
+        let calls = 0
+        const listener = {
+            OnPlayerDeployed: () => {
+                calls++
+                throw new Error('listener failure')
+            },
+        }
+        match.gameMode!.addListener(listener)
+        const log = mock.method(console, 'log', () => {})
+
+        const player = match.join(1)
+        for (let i = 0; i < 5; i++) {
+            match.deploy(player)
+            match.undeploy(player)
+        }
+
+        assert.equal(calls, 3)
+        assert.equal(errors.isDisabled(listener), true)
+        assert.equal(logged(log, /^Error in OnPlayerDeployed/), 3)
+        assert.equal(logged(log, /^Listener disabled/), 1)
+        // The other listeners still get the event
+        assert.equal(match.eventsNamed('OnPlayerDeployed').length, 5)
+
+        errors.enable(listener)
+        match.deploy(player)
+        assert.equal(calls, 4)
+        assert.equal(errors.isDisabled(listener), false)
+    })
+
+    it('reports the failing player id to the engine when asked', () => {
+        errors.reportToEngine = true
+        mock.method(console, 'log', () => {})
+        const player = match.join(1)
+
+        errors.run('OnPlayerDeployed', match.lp(player), () => {
+            throw new Error('hook failure')
+        })
+
+        assert.deepEqual(match.runtime.callsTo('SendErrorReport')[0].args, [
+            {
+                kind: 'Message',
+                key: 'core.error.route',
+                args: ['OnPlayerDeployed', mod.GetObjId(player)],
+            },
+        ])
+    })
+})
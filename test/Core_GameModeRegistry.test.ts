@@ -0,0 +1,85 @@
+import { strict as assert } from 'assert'
+import { afterEach, before, beforeEach, describe, it, mock } from 'node:test'
+import { Core_AGameMode } from '../src/Core/AGameMode'
+import { Core_GameModeRegistry } from '../src/Core/GameModeRegistry'
+import { Headless_ModRuntime } from './Headless/ModRuntime'
+
+describe('Core_GameModeRegistry', () => {
+    let runtime: Headless_ModRuntime
+    let rushEnabled = true
+
+    // The registry is static: register once for the whole file
+    before(() => {
+        new Headless_ModRuntime().install()
+        const create = (): Core_AGameMode => {
+            throw new Error('not created in these tests')
+        }
+        Core_GameModeRegistry.register({
+            id: 'fallback',
+            create,
+            isDefault: true,
+        })
+        Core_GameModeRegistry.register({
+            id: 'abbasid',
+            create,
+            when: [Core_GameModeRegistry.onMap(mod.Maps.Abbasid)],
+            priority: 1,
+        })
+        Core_GameModeRegistry.register({
+            id: 'rush',
+            create,
+            when: [() => rushEnabled],
+        })
+    })
+
+    beforeEach(() => {
+        runtime = new Headless_ModRuntime()
+        runtime.install()
+        rushEnabled = true
+    })
+
+    afterEach(() => {
+        mock.restoreAll()
+        delete (globalThis as { mod?: unknown }).mod
+    })
+
+    it('picks the highest priority mode whose predicates all pass', () => {
+        runtime.currentMap = 'Maps.Abbasid'
+        assert.equal(Core_GameModeRegistry.select().id, 'abbasid')
+
+        runtime.currentMap = 'Maps.Aftermath'
+        assert.equal(Core_GameModeRegistry.select().id, 'rush')
+    })
+
+    it('falls back to the default mode', () => {
+        rushEnabled = false
+        assert.equal(Core_GameModeRegistry.select().id, 'fallback')
+    })
+
+    it('selects the override whatever its predicates say', () => {
+        runtime.currentMap = 'Maps.Abbasid'
+        assert.equal(Core_GameModeRegistry.select('fallback').id, 'fallback')
+
+        const log = mock.method(console, 'log', () => {})
+        assert.equal(Core_GameModeRegistry.select('missing').id, 'abbasid')
+        assert.equal(log.mock.callCount(), 1)
+    })
+
+    it('keeps the first mode registered under an id', () => {
+        mock.method(console, 'log', () => {})
+        Core_GameModeRegistry.register({
+            id: 'rush',
+            create: () => {
+                throw new Error('duplicate')
+            },
+            priority: 5,
+        })
+
+        assert.deepEqual(
+            Core_GameModeRegistry.all().map((entry) => entry.id),
+            ['fallback', 'abbasid', 'rush']
+        )
+        assert.equal(Core_GameModeRegistry.select().id, 'rush')
+        assert.equal(Core_GameModeRegistry.select().priority, undefined)
+    })
+})
@@ -0,0 +1,55 @@
+import { strict as assert } from 'assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { Headless_Match } from './Headless/Match'
+
+describe('Example_GameMode', () => {
+    let match: Headless_Match
+
+    beforeEach(() => {
+        match = new Headless_Match()
+    })
+
+    afterEach(() => match.dispose())
+
+    it('is selected by default and announces the start', () => {
+        match.start()
+
+        assert.equal(match.gameMode?.constructor.name, 'Example_GameMode')
+        assert.deepEqual(match.runtime.displayedMessages(), [
+            'debug.gamemode.started',
+        ])
+    })
+
+    it('logs deploys and deaths with the player id', () => {
+        match.start()
+        const player = match.join(1)
+        match.deploy(player)
+        match.kill(player)
+
+        const messages = match.runtime
+            .callsTo('DisplayHighlightedWorldLogMessage')
+            .map((call) => call.args[0])
+        assert.deepEqual(messages.slice(1), [
+            {
+                kind: 'Message',
+                key: 'debug.player.deployed',
+                args: [mod.GetObjId(player)],
+            },
+            {
+                kind: 'Message',
+                key: 'debug.player.died',
+                args: [mod.GetObjId(player)],
+            },
+        ])
+    })
+
+    it('runs the Foo interval every 4 seconds', async () => {
+        match.start()
+        await match.advance(9)
+
+        const ongoing = match.runtime
+            .displayedMessages()
+            .filter((key) => key === 'debug.gamemode.ongoing')
+        assert.equal(ongoing.length, 2)
+    })
+})
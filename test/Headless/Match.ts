@@ -0,0 +1,301 @@
+import * as path from 'path'
+import Module from 'module'
+import { Core_AGameMode } from '../../src/Core/AGameMode'
+import { CorePlayer_IGameModeEvents } from '../../src/Core/IGameModeEvents'
+import { CorePlayer_APlayer } from '../../src/Core/Player/APlayer'
+import { Headless_ModRuntime } from './ModRuntime'
+
+type Headless_Main = typeof import('../../src/main')
+
+export interface Headless_IMatchOptions {
+    /** Registry id to force, like BuildConfig.gameModeOverride. */
+    gameMode?: string
+    /** Runs this game mode instead of a registered one. */
+    create?: () => Core_AGameMode
+    /** Value for mod.IsCurrentMap, e.g. 'Maps.Abbasid'. */
+    map?: string
+    /** Engine ticks per second for advance(). Defaults to 30. */
+    tickRate?: number
+    /** Like BuildConfig.recordEvents: log events as recorder lines. */
+    recordEvents?: boolean
+}
+
+export interface Headless_IEmittedEvent {
+    name: keyof CorePlayer_IGameModeEvents
+    args: unknown[]
+}
+
+// Compiled output root: <root>/test/Headless/Match.js -> <root>
+const buildRoot = path.join(__dirname, '..', '..')
+
+// Game modes import core classes as 'src/...' (tsconfig baseUrl), so let
+// Node resolve bare specifiers from the compiled output too.
+if (!(process.env.NODE_PATH ?? '').split(path.delimiter).includes(buildRoot)) {
+    process.env.NODE_PATH = [buildRoot, process.env.NODE_PATH]
+        .filter(Boolean)
+        .join(path.delimiter)
+    ;(Module as unknown as { _initPaths(): void })._initPaths()
+}
+
+/**
+ * Headless_Match
+ *
+ * Loads a fresh copy of src/main.ts on top of a Headless_ModRuntime and
+ * drives its exported event handlers the way the engine would:
+ *
+ *     const match = new Headless_Match({ gameMode: 'example' })
+ *     match.start()
+ *     const player = match.join(1)
+ *     match.deploy(player)
+ *     await match.advance(5)
+ *     assert.deepEqual(match.eventNames(), [...])
+ *     match.dispose()
+ *
+ * Every event broadcast on the game mode bus is recorded in `events`; every
+ * mod.* call is recorded in `runtime.calls`.
+ */
+export class Headless_Match {
+    readonly runtime = new Headless_ModRuntime()
+    readonly main: Headless_Main
+    readonly tickRate: number
+    readonly events: Headless_IEmittedEvent[] = []
+
+    /** Created by main.ts on the first routed event. */
+    gameMode: Core_AGameMode | undefined
+
+    private readonly realDateNow = Date.now
+    private readonly epoch = Date.now()
+
+    constructor(options: Headless_IMatchOptions = {}) {
+        this.tickRate = options.tickRate ?? 30
+        this.runtime.currentMap = options.map ?? ''
+        this.runtime.install()
+        Date.now = () => this.epoch + this.runtime.time * 1000
+
+        // main.ts keeps its game mode in module state: start from scratch
+        const sources = path.join(buildRoot, 'src') + path.sep
+        for (const id of Object.keys(require.cache)) {
+            if (id.startsWith(sources)) delete require.cache[id]
+        }
+
+        this.main = require(path.join(buildRoot, 'src', 'main'))
+        const { BuildConfig } = require(
+            path.join(buildRoot, 'src', 'BuildConfig')
+        )
+        BuildConfig.gameModeOverride = options.gameMode
+        BuildConfig.recordEvents = options.recordEvents ?? false
+
+        const { Core_GameModeRegistry } = require(
+            path.join(buildRoot, 'src', 'Core', 'GameModeRegistry')
+        )
+        for (const entry of Core_GameModeRegistry.all()) {
+            const create = entry.create
+            entry.create = () => this.attach(create())
+        }
+        if (options.create) {
+            const create = options.create
+            Core_GameModeRegistry.register({
+                id: 'headless',
+                create: () => this.attach(create()),
+            })
+            BuildConfig.gameModeOverride = 'headless'
+        }
+    }
+
+    /** Restores Date.now and removes the global `mod`. */
+    dispose(): void {
+        Date.now = this.realDateNow
+        delete (globalThis as { mod?: unknown }).mod
+    }
+
+    /* ------------------------------------------------------------
+     * Engine events
+     * ------------------------------------------------------------ */
+
+    start(): void {
+        this.main.OnGameModeStarted()
+    }
+
+    join(teamId = 1): mod.Player {
+        const player = this.runtime.createPlayer(teamId)
+        this.main.OnPlayerJoinGame(player)
+        return player
+    }
+
+    leave(player: mod.Player): void {
+        this.runtime.state(player).valid = false
+        this.runtime.state(player).alive = false
+        this.main.OnPlayerLeaveGame(this.runtime.state(player).id)
+    }
+
+    deploy(player: mod.Player): void {
+        this.runtime.state(player).alive = true
+        this.runtime.state(player).health = 100
+        this.main.OnPlayerDeployed(player)
+    }
+
+    undeploy(player: mod.Player): void {
+        this.runtime.state(player).alive = false
+        this.main.OnPlayerUndeploy(player)
+    }
+
+    /** OnPlayerDied, then OnPlayerEarnedKill unless it was a suicide. */
+    kill(
+        victim: mod.Player,
+        killer: mod.Player = victim,
+        deathType = this.runtime.mod.PlayerDeathTypes
+            .Weapon as unknown as mod.DeathType,
+        weapon = 'Weapons.Unknown' as unknown as mod.WeaponUnlock
+    ): void {
+        this.runtime.state(victim).alive = false
+        this.main.OnPlayerDied(victim, killer, deathType, weapon)
+        if (killer !== victim) {
+            this.main.OnPlayerEarnedKill(killer, victim, deathType, weapon)
+        }
+    }
+
+    /** Lowers the victim's health by amount, then OnPlayerDamaged. */
+    damage(
+        victim: mod.Player,
+        attacker: mod.Player,
+        amount = 10,
+        damageType = this.runtime.mod.PlayerDamageTypes
+            .Default as unknown as mod.DamageType,
+        weapon = 'Weapons.Unknown' as unknown as mod.WeaponUnlock
+    ): void {
+        const state = this.runtime.state(victim)
+        state.health = Math.max(0, state.health - amount)
+        this.main.OnPlayerDamaged(victim, attacker, damageType, weapon)
+    }
+
+    mandown(victim: mod.Player, attacker: mod.Player = victim): void {
+        this.main.OnMandown(victim, attacker)
+    }
+
+    revive(player: mod.Player, reviver: mod.Player): void {
+        this.main.OnRevived(player, reviver)
+    }
+
+    /** OnPlayerEnterVehicle, then OnPlayerEnterVehicleSeat. */
+    enterVehicle(
+        player: mod.Player,
+        vehicle: mod.Vehicle,
+        seat = this.runtime.createObject<mod.Object>('Seat')
+    ): mod.Object {
+        this.main.OnPlayerEnterVehicle(player, vehicle)
+        this.main.OnPlayerEnterVehicleSeat(player, vehicle, seat)
+        return seat
+    }
+
+    /** OnPlayerExitVehicleSeat, then OnPlayerExitVehicle. */
+    exitVehicle(
+        player: mod.Player,
+        vehicle: mod.Vehicle,
+        seat: mod.Object
+    ): void {
+        this.main.OnPlayerExitVehicleSeat(player, vehicle, seat)
+        this.main.OnPlayerExitVehicle(player, vehicle)
+    }
+
+    switchTeam(player: mod.Player, teamId: number): void {
+        this.runtime.state(player).teamId = teamId
+        this.main.OnPlayerSwitchTeam(player, this.team(teamId))
+    }
+
+    team(id: number): mod.Team {
+        return this.runtime.team(id) as unknown as mod.Team
+    }
+
+    /* ------------------------------------------------------------
+     * Time
+     * ------------------------------------------------------------ */
+
+    /**
+     * Runs the Ongoing* events for the given number of seconds at tickRate,
+     * resolving mod.Wait calls and pending promise callbacks between ticks.
+     */
+    async advance(seconds: number): Promise<void> {
+        await this.advanceTo(this.runtime.time + seconds)
+    }
+
+    /**
+     * Like advance(), up to an absolute match time. With runOngoing false
+     * only the clock moves (the caller feeds the Ongoing* events itself).
+     */
+    async advanceTo(time: number, runOngoing = true): Promise<void> {
+        const start = this.runtime.time
+        const ticks = Math.floor((time - start) * this.tickRate + 1e-6)
+        for (let i = 1; i <= ticks; i++) {
+            this.runtime.setTime(start + i / this.tickRate)
+            await this.flush()
+            if (runOngoing) this.tick()
+            await this.flush()
+        }
+        if (this.runtime.time < time) {
+            this.runtime.setTime(time)
+            await this.flush()
+        }
+    }
+
+    /** One engine tick without moving the clock. */
+    tick(): void {
+        this.main.OngoingGlobal()
+        for (const team of this.runtime.teams.values()) {
+            this.main.OngoingTeam(team as unknown as mod.Team)
+        }
+        for (const player of this.runtime.players) {
+            if (player.valid) {
+                this.main.OngoingPlayer(player as unknown as mod.Player)
+            }
+        }
+    }
+
+    /* ------------------------------------------------------------
+     * Assertions
+     * ------------------------------------------------------------ */
+
+    /** The logical player created for player on join. */
+    lp(player: mod.Player): CorePlayer_APlayer {
+        const joined = this.eventsNamed('OnPlayerJoinGame').map(
+            (args) => args[0] as CorePlayer_APlayer
+        )
+        return joined.find((lp) => lp.player === player)!
+    }
+
+    eventNames(): string[] {
+        return this.events.map((e) => e.name)
+    }
+
+    eventsNamed(name: keyof CorePlayer_IGameModeEvents): unknown[][] {
+        return this.events.filter((e) => e.name === name).map((e) => e.args)
+    }
+
+    /* ------------------------------------------------------------
+     * Internals
+     * ------------------------------------------------------------ */
+
+    private attach(gameMode: Core_AGameMode): Core_AGameMode {
+        this.gameMode = gameMode
+        // Record everything except the per-tick events
+        const recorder = new Proxy(
+            {},
+            {
+                get: (_target, name) => {
+                    if (typeof name !== 'string') return undefined
+                    if (name.startsWith('Ongoing')) return undefined
+                    return (...args: unknown[]) =>
+                        this.events.push({
+                            name: name as keyof CorePlayer_IGameModeEvents,
+                            args,
+                        })
+                },
+            }
+        )
+        gameMode.addListener(recorder as CorePlayer_IGameModeEvents)
+        return gameMode
+    }
+
+    private flush(): Promise<void> {
+        return new Promise((resolve) => setImmediate(resolve))
+    }
+}
@@ -0,0 +1,563 @@
+/**
+ * Headless_ModRuntime
+ *
+ * In-memory stand-in for the engine's `mod` namespace, so game modes can be
+ * driven from Node without a Portal server.
+ *
+ * Modelled:
+ * - Players and teams with stable object ids, alive state, position,
+ *   facing direction, squad, soldier state flags, health, soldier class,
+ *   equipment per inventory slot and reserve ammo
+ * - SetTeam, and SwitchTeams with the engine's rule that both teams have
+ *   the same number of humans and bots (IsAISoldier flag)
+ * - Generic objects (capture points, spawn points, ...) via createObject(),
+ *   with an optional position
+ * - Vectors and Arrays
+ * - UI widgets by name, with parent, receiver, label and visibility
+ * - Messages, kept as { key, args } so tests can assert on them
+ * - Wait and GetMatchTimeElapsed, both driven by a fake clock;
+ *   GetMatchTimeElapsed stops while PauseGameModeTime(true)
+ *
+ * Any other function is accepted, recorded in `calls` and returns undefined.
+ * Enum members resolve to '<Enum>.<Member>' strings, e.g.
+ * mod.SoldierStateBool.IsAlive === 'SoldierStateBool.IsAlive'. List members
+ * in `enums` to make the others undefined.
+ */
+
+export interface Headless_IVector {
+    kind: 'Vector'
+    x: number
+    y: number
+    z: number
+}
+
+export interface Headless_IPlayer {
+    kind: 'Player'
+    id: number
+    teamId: number
+    /** Players sharing a squad id are squadmates. Defaults to own id. */
+    squadId: number
+    valid: boolean
+    alive: boolean
+    position: Headless_IVector
+    facing: Headless_IVector
+    /** True SoldierStateBool values besides IsAlive / IsDead. */
+    flags: Set<string>
+    /** CurrentHealth, out of a MaxHealth of 100. */
+    health: number
+    /** e.g. 'SoldierClass.Support', for mod.IsSoldierClass. */
+    soldierClass?: string
+    /** Equipment by 'InventorySlots.*', armour by its own value. */
+    equipment: Map<string, string>
+    /** Reserve ammo by 'InventorySlots.*'. */
+    ammo: Map<string, number>
+}
+
+export interface Headless_ITeam {
+    kind: 'Team'
+    id: number
+}
+
+export interface Headless_IObject {
+    kind: string
+    id: number
+    position?: Headless_IVector
+}
+
+export interface Headless_IMessage {
+    kind: 'Message'
+    key: string
+    args: unknown[]
+}
+
+export interface Headless_IWidget {
+    kind: 'UIWidget'
+    id: number
+    name: string
+    type: string
+    parent?: Headless_IWidget
+    receiver?: Headless_IPlayer | Headless_ITeam
+    visible: boolean
+    label?: Headless_IMessage
+    deleted: boolean
+}
+
+export interface Headless_ICall {
+    name: string
+    args: unknown[]
+    time: number
+}
+
+interface Headless_IWaiter {
+    at: number
+    resolve: () => void
+}
+
+export class Headless_ModRuntime {
+    /** Seconds since the match started. Only setTime() moves it. */
+    time = 0
+
+    /** Every mod.* function call, in order. */
+    readonly calls: Headless_ICall[] = []
+
+    readonly players: Headless_IPlayer[] = []
+    readonly teams = new Map<number, Headless_ITeam>()
+    readonly widgets: Headless_IWidget[] = []
+    readonly objects = new Map<string, Headless_IObject>()
+    readonly scores = new Map<Headless_IObject, number>()
+
+    /** Value returned by mod.IsCurrentMap, e.g. 'Maps.Abbasid'. */
+    currentMap = ''
+
+    /**
+     * Members of enums that should behave like an SDK that lacks some
+     * values: members not listed here resolve to undefined. Enums without
+     * an entry accept any member.
+     */
+    readonly enums = new Map<string, string[]>()
+
+    readonly mod: typeof mod
+
+    private nextObjectId = 1
+    private waiters: Headless_IWaiter[] = []
+    /** Match time lost to PauseGameModeTime, and when the pause began. */
+    private matchPausedFor = 0
+    private matchPausedAt: number | undefined
+    private readonly root: Headless_IWidget
+
+    constructor() {
+        this.root = this.createWidget('', 'Root')
+        this.mod = this.createMod()
+    }
+
+    /** Makes this runtime the global `mod`. */
+    install(): void {
+        ;(globalThis as { mod?: unknown }).mod = this.mod
+    }
+
+    /* ------------------------------------------------------------
+     * World
+     * ------------------------------------------------------------ */
+
+    createPlayer(teamId: number): mod.Player {
+        this.team(teamId)
+        return this.addPlayer(this.nextObjectId++, teamId)
+    }
+
+    createObject<T>(kind: string): T {
+        return this.object<T>(kind, this.nextObjectId++)
+    }
+
+    /** The object with this kind and id, created on first use. */
+    object<T>(kind: string, id: number): T {
+        this.nextObjectId = Math.max(this.nextObjectId, id + 1)
+
+        if (kind === 'Team') return this.team(id) as unknown as T
+        if (kind === 'Player') {
+            const player = this.players.find((p) => p.id === id)
+            return (player ?? this.addPlayer(id, 0)) as unknown as T
+        }
+
+        const key = `${kind}:${id}`
+        let object = this.objects.get(key)
+        if (!object) {
+            object = { kind, id }
+            this.objects.set(key, object)
+        }
+        return object as unknown as T
+    }
+
+    team(id: number): Headless_ITeam {
+        let team = this.teams.get(id)
+        if (!team) {
+            team = { kind: 'Team', id }
+            this.teams.set(id, team)
+        }
+        return team
+    }
+
+    /** Detached widget, e.g. one the log refers to but the UI never made. */
+    createWidget(name: string, type: string): Headless_IWidget {
+        const widget: Headless_IWidget = {
+            kind: 'UIWidget',
+            id: this.nextObjectId++,
+            name,
+            type,
+            visible: true,
+            deleted: false,
+        }
+        this.widgets.push(widget)
+        return widget
+    }
+
+    state(player: mod.Player): Headless_IPlayer {
+        return player as unknown as Headless_IPlayer
+    }
+
+    private addPlayer(id: number, teamId: number): mod.Player {
+        const player: Headless_IPlayer = {
+            kind: 'Player',
+            id,
+            teamId,
+            squadId: id,
+            valid: true,
+            alive: false,
+            position: this.vector(0, 0, 0),
+            facing: this.vector(0, 0, 1),
+            flags: new Set(),
+            health: 100,
+            equipment: new Map(),
+            ammo: new Map(),
+        }
+        this.players.push(player)
+        return player as unknown as mod.Player
+    }
+
+    /* ------------------------------------------------------------
+     * Clock
+     * ------------------------------------------------------------ */
+
+    /** Moves the clock forward and resolves every due mod.Wait. */
+    setTime(time: number): void {
+        this.time = time
+        const due = this.waiters.filter((w) => w.at <= time)
+        this.waiters = this.waiters.filter((w) => w.at > time)
+        for (const waiter of due) waiter.resolve()
+    }
+
+    /* ------------------------------------------------------------
+     * Queries
+     * ------------------------------------------------------------ */
+
+    callsTo(name: string): Headless_ICall[] {
+        return this.calls.filter((call) => call.name === name)
+    }
+
+    /** Keys of every message shown through Display*Message calls. */
+    displayedMessages(): string[] {
+        return this.calls
+            .filter((call) => /^Display.*Message$/.test(call.name))
+            .map((call) => (call.args[0] as Headless_IMessage).key)
+    }
+
+    findWidget(name: string): Headless_IWidget | undefined {
+        return this.widgets.find((w) => w.name === name && !w.deleted)
+    }
+
+    /* ------------------------------------------------------------
+     * mod namespace
+     * ------------------------------------------------------------ */
+
+    private createMod(): typeof mod {
+        const implementation = this.implementation()
+        const cache = new Map<string, unknown>()
+
+        const proxy = new Proxy(implementation, {
+            get: (target, name) => {
+                if (typeof name !== 'string') return undefined
+                let member = cache.get(name)
+                if (member === undefined) {
+                    member =
+                        name in target
+                            ? this.recorded(name, target[name])
+                            : this.stub(name)
+                    cache.set(name, member)
+                }
+                return member
+            },
+        })
+        return proxy as unknown as typeof mod
+    }
+
+    private recorded(name: string, member: unknown): unknown {
+        if (typeof member !== 'function') return member
+        return (...args: unknown[]) => {
+            this.calls.push({ name, args, time: this.time })
+            return member(...args)
+        }
+    }
+
+    /** Unknown member: callable and recorded, properties are enum values. */
+    private stub(name: string): unknown {
+        const fn = (...args: unknown[]) => {
+            this.calls.push({ name, args, time: this.time })
+            return undefined
+        }
+        return new Proxy(fn, {
+            get: (_target, member) => {
+                if (typeof member !== 'string') return undefined
+                const known = this.enums.get(name)
+                if (known && !known.includes(member)) return undefined
+                return `${name}.${member}`
+            },
+        })
+    }
+
+    private implementation(): Record<string, unknown> {
+        const player = (p: unknown) => p as Headless_IPlayer
+        const isPlayer = (v: unknown): v is Headless_IPlayer =>
+            (v as Headless_IPlayer | undefined)?.kind === 'Player'
+        const isTeam = (v: unknown): v is Headless_ITeam =>
+            (v as Headless_ITeam | undefined)?.kind === 'Team'
+
+        return {
+            /* ---- Objects ---- */
+            GetObjId: (object: Headless_IObject) => object.id,
+            IsPlayerValid: (p: unknown) => player(p).valid,
+            AllPlayers: () => this.players.filter((p) => p.valid),
+            GetTeam: (target: unknown) =>
+                typeof target === 'number'
+                    ? this.team(target)
+                    : this.team(player(target).teamId),
+            SetTeam: (p: unknown, team: Headless_ITeam) => {
+                player(p).teamId = team.id
+            },
+            GetSquad: (p: unknown) => this.object('Squad', player(p).squadId),
+            SwitchTeams: (a: Headless_ITeam, b: Headless_ITeam) => {
+                // The engine only switches teams of equal make-up
+                const count = (team: Headless_ITeam, bots: boolean) =>
+                    this.players.filter(
+                        (p) =>
+                            p.valid &&
+                            p.teamId === team.id &&
+                            p.flags.has('SoldierStateBool.IsAISoldier') === bots
+                    ).length
+                if (
+                    count(a, false) !== count(b, false) ||
+                    count(a, true) !== count(b, true)
+                ) {
+                    return
+                }
+                for (const p of this.players) {
+                    if (p.teamId === a.id) p.teamId = b.id
+                    else if (p.teamId === b.id) p.teamId = a.id
+                }
+            },
+            GetSoldierState: (p: unknown, state: string) => {
+                switch (state) {
+                    case 'SoldierStateBool.IsAlive':
+                        return player(p).alive
+                    case 'SoldierStateBool.IsDead':
+                        return !player(p).alive
+                    case 'SoldierStateVector.GetPosition':
+                        return player(p).position
+                    case 'SoldierStateVector.GetFacingDirection':
+                        return player(p).facing
+                    case 'SoldierStateNumber.CurrentHealth':
+                        return player(p).health
+                    case 'SoldierStateNumber.MaxHealth':
+                        return 100
+                    default:
+                        return state.startsWith('SoldierStateBool.')
+                            ? player(p).flags.has(state)
+                            : undefined
+                }
+            },
+            IsSoldierClass: (p: unknown, soldierClass: string) =>
+                player(p).soldierClass === soldierClass,
+
+            GetObjectPosition: (p: unknown) =>
+                isPlayer(p)
+                    ? p.position
+                    : ((p as Headless_IObject).position ??
+                      this.vector(0, 0, 0)),
+            GetSpawnPoint: (id: number) => this.object('SpawnPoint', id),
+            IsCurrentMap: (map: string) => map === this.currentMap,
+
+            /* ---- Inventory ---- */
+            // (player, item, [weaponPackage], [slot]); armour has no slot
+            AddEquipment: (p: unknown, item: string, ...rest: unknown[]) => {
+                const slot = rest.find(
+                    (arg) =>
+                        typeof arg === 'string' &&
+                        arg.startsWith('InventorySlots.')
+                ) as string | undefined
+                player(p).equipment.set(slot ?? item, item)
+            },
+            RemoveEquipment: (p: unknown, slotOrItem: string) => {
+                const equipment = player(p).equipment
+                for (const [slot, item] of equipment) {
+                    if (slot === slotOrItem || item === slotOrItem) {
+                        equipment.delete(slot)
+                    }
+                }
+            },
+            HasEquipment: (p: unknown, item: string) =>
+                [...player(p).equipment.values()].includes(item),
+            GetInventoryAmmo: (p: unknown, slot: string) =>
+                player(p).ammo.get(slot) ?? 0,
+            SetInventoryAmmo: (p: unknown, slot: string, ammo: number) => {
+                player(p).ammo.set(slot, ammo)
+            },
+
+            /* ---- Score ---- */
+            SetGameModeScore: (target: Headless_IObject, score: number) => {
+                this.scores.set(target, score)
+            },
+            GetGameModeScore: (target: Headless_IObject) =>
+                this.scores.get(target) ?? 0,
+
+            /* ---- Time ---- */
+            GetMatchTimeElapsed: () =>
+                (this.matchPausedAt ?? this.time) - this.matchPausedFor,
+            PauseGameModeTime: (paused: boolean) => {
+                if (paused) {
+                    this.matchPausedAt ??= this.time
+                } else if (this.matchPausedAt !== undefined) {
+                    this.matchPausedFor += this.time - this.matchPausedAt
+                    this.matchPausedAt = undefined
+                }
+            },
+            Wait: (seconds: number) =>
+                new Promise<void>((resolve) => {
+                    this.waiters.push({ at: this.time + seconds, resolve })
+                }),
+
+            /* ---- Vectors ---- */
+            CreateVector: (x: number, y: number, z: number) =>
+                this.vector(x, y, z),
+            XComponentOf: (v: Headless_IVector) => v.x,
+            YComponentOf: (v: Headless_IVector) => v.y,
+            ZComponentOf: (v: Headless_IVector) => v.z,
+            DistanceBetween: (a: Headless_IVector, b: Headless_IVector) =>
+                Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z),
+            DotProduct: (a: Headless_IVector, b: Headless_IVector) =>
+                a.x * b.x + a.y * b.y + a.z * b.z,
+            Normalize: (v: Headless_IVector) => {
+                const length = Math.hypot(v.x, v.y, v.z) || 1
+                return this.vector(v.x / length, v.y / length, v.z / length)
+            },
+            Add: (a: unknown, b: unknown) =>
+                this.combine(a, b, (x, y) => x + y),
+            Subtract: (a: unknown, b: unknown) =>
+                this.combine(a, b, (x, y) => x - y),
+            Multiply: (a: unknown, b: unknown) =>
+                this.combine(a, b, (x, y) => x * y),
+            Divide: (a: unknown, b: unknown) =>
+                this.combine(a, b, (x, y) => x / y),
+
+            Equals: (a: unknown, b: unknown) => a === b,
+
+            /* ---- Arrays ---- */
+            EmptyArray: () => [],
+            AppendToArray: (array: unknown[], value: unknown) => [
+                ...array,
+                value,
+            ],
+            CountOf: (array: unknown[]) => array.length,
+            ValueInArray: (array: unknown[], index: number) => array[index],
+            FirstOf: (array: unknown[]) => array[0],
+            LastOf: (array: unknown[]) => array[array.length - 1],
+
+            /* ---- Messages ---- */
+            Message: (key: unknown, ...args: unknown[]): Headless_IMessage => ({
+                kind: 'Message',
+                key: String(key),
+                args,
+            }),
+            stringkeys: this.stringKeys(''),
+
+            /* ---- UI ---- */
+            GetUIRoot: () => this.root,
+            AddUIContainer: (...args: unknown[]) =>
+                this.addWidget('Container', args),
+            AddUIText: (...args: unknown[]) => this.addWidget('Text', args),
+            AddUIButton: (...args: unknown[]) => this.addWidget('Button', args),
+            AddUIImage: (...args: unknown[]) => this.addWidget('Image', args),
+            FindUIWidgetWithName: (name: string) => this.findWidget(name),
+            DeleteUIWidget: (widget: Headless_IWidget) => {
+                widget.deleted = true
+                for (const child of this.widgets) {
+                    if (child.parent === widget) child.deleted = true
+                }
+            },
+            SetUITextLabel: (widget: Headless_IWidget, label: unknown) => {
+                widget.label = label as Headless_IMessage
+            },
+            SetUIWidgetVisible: (
+                widget: Headless_IWidget,
+                visible: boolean
+            ) => {
+                widget.visible = visible
+            },
+            GetUIWidgetVisible: (widget: Headless_IWidget) => widget.visible,
+            GetUIWidgetName: (widget: Headless_IWidget) => widget.name,
+            SetUIWidgetName: (widget: Headless_IWidget, name: string) => {
+                widget.name = name
+            },
+            SetUIWidgetParent: (
+                widget: Headless_IWidget,
+                parent: Headless_IWidget
+            ) => {
+                widget.parent = parent
+            },
+
+            /* ---- Types ---- */
+            IsType: (value: unknown, type: string) =>
+                (type.endsWith('.Player') && isPlayer(value)) ||
+                (type.endsWith('.Team') && isTeam(value)),
+        }
+    }
+
+    private vector(x: number, y: number, z: number): Headless_IVector {
+        return { kind: 'Vector', x, y, z }
+    }
+
+    private combine(
+        a: unknown,
+        b: unknown,
+        op: (x: number, y: number) => number
+    ): unknown {
+        if (typeof a === 'number' && typeof b === 'number') return op(a, b)
+        const v = a as Headless_IVector
+        if (typeof b === 'number') {
+            return this.vector(op(v.x, b), op(v.y, b), op(v.z, b))
+        }
+        const w = b as Headless_IVector
+        return this.vector(op(v.x, w.x), op(v.y, w.y), op(v.z, w.z))
+    }
+
+    /** mod.stringkeys.a.b resolves to the key 'a.b'. */
+    private stringKeys(path: string): unknown {
+        return new Proxy(
+            {},
+            {
+                get: (_target, member) => {
+                    if (
+                        member === Symbol.toPrimitive ||
+                        member === 'toString'
+                    ) {
+                        return () => path
+                    }
+                    if (typeof member !== 'string') return undefined
+                    return this.stringKeys(path ? `${path}.${member}` : member)
+                },
+            }
+        )
+    }
+
+    /**
+     * The AddUI* overloads share (name, position, size, anchor) and then
+     * differ; parent, visibility, label and receiver are picked out by type.
+     */
+    private addWidget(type: string, args: unknown[]): void {
+        const widget = this.createWidget(args[0] as string, type)
+        const rest = args.slice(4)
+
+        const parent = rest[0] as Headless_IWidget | undefined
+        if (parent?.kind === 'UIWidget') {
+            widget.parent = parent
+            if (typeof rest[1] === 'boolean') widget.visible = rest[1]
+        }
+
+        const label = rest.find(
+            (arg) => (arg as Headless_IMessage | undefined)?.kind === 'Message'
+        )
+        if (label) widget.label = label as Headless_IMessage
+
+        const last = rest[rest.length - 1] as Headless_IObject | undefined
+        if (last?.kind === 'Player' || last?.kind === 'Team') {
+            widget.receiver = last as Headless_IPlayer | Headless_ITeam
+        }
+    }
+}
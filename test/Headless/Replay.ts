@@ -0,0 +1,114 @@
+import {
+    CoreRecorder_Arg,
+    CoreRecorder_IRecord,
+    CoreRecorder_LINE_PREFIX,
+} from '../../src/Core/Recorder/EventRecorder'
+import { Headless_IPlayer } from './ModRuntime'
+import { Headless_Match } from './Match'
+
+/**
+ * Headless_Replay
+ *
+ * Feeds a log written by CoreRecorder_EventRecorder back through main.ts in
+ * a Headless_Match:
+ *
+ *     const match = new Headless_Match({ gameMode: 'example' })
+ *     await new Headless_Replay(match, fs.readFileSync(logPath, 'utf8')).run()
+ *
+ * Objects are recreated from their recorded ids, so the game mode sees the
+ * same players, teams and vehicles in the same order. Player team and alive
+ * state are restored from each event before it is routed. If the log has no
+ * Ongoing* events, ticks are synthesized at match.tickRate between records.
+ */
+export class Headless_Replay {
+    readonly records: CoreRecorder_IRecord[]
+
+    constructor(
+        readonly match: Headless_Match,
+        log: string | CoreRecorder_IRecord[]
+    ) {
+        this.records =
+            typeof log === 'string' ? Headless_Replay.parse(log) : log
+    }
+
+    /** Recorder lines from a console log; other lines are ignored. */
+    static parse(log: string): CoreRecorder_IRecord[] {
+        const records: CoreRecorder_IRecord[] = []
+        for (const line of log.split(/\r?\n/)) {
+            const at = line.indexOf(CoreRecorder_LINE_PREFIX)
+            if (at < 0) continue
+            records.push(
+                JSON.parse(line.slice(at + CoreRecorder_LINE_PREFIX.length))
+            )
+        }
+        return records.sort((a, b) => a.seq - b.seq)
+    }
+
+    async run(): Promise<void> {
+        const synthesizeTicks = !this.records.some((r) =>
+            r.event.startsWith('Ongoing')
+        )
+
+        for (const record of this.records) {
+            await this.match.advanceTo(record.time, synthesizeTicks)
+            this.step(record)
+        }
+    }
+
+    /** Routes a single record, without moving the clock. */
+    step(record: CoreRecorder_IRecord): void {
+        const args = record.args.map((arg) => this.resolve(arg))
+
+        if (record.event === 'OnPlayerLeaveGame') {
+            const left = this.player(args[0] as number)
+            left.valid = false
+            left.alive = false
+        }
+
+        const route = this.match.main[record.event] as (
+            ...args: unknown[]
+        ) => void
+        route(...args)
+    }
+
+    private resolve(arg: CoreRecorder_Arg): unknown {
+        if (typeof arg === 'number') return arg
+
+        const runtime = this.match.runtime
+        const [kind, value] = Object.entries(arg)[0]
+
+        switch (kind) {
+            case 'Player': {
+                const player = this.player(value as number)
+                // Only valid players are recorded with team and alive state
+                player.valid = 'team' in arg
+                if ('team' in arg) {
+                    player.teamId = arg.team as number
+                    runtime.team(player.teamId)
+                }
+                if ('alive' in arg) player.alive = arg.alive as boolean
+                return player
+            }
+            case 'Vector': {
+                const [x, y, z] = value as number[]
+                return runtime.mod.CreateVector(x, y, z)
+            }
+            case 'UIWidget':
+                return (
+                    runtime.findWidget(value as string) ??
+                    runtime.createWidget(value as string, 'Unknown')
+                )
+            case 'DeathType':
+            case 'DamageType':
+            case 'WeaponUnlock':
+            case 'UIButtonEvent':
+                return value
+            default:
+                return runtime.object(kind, value as number)
+        }
+    }
+
+    private player(id: number): Headless_IPlayer {
+        return this.match.runtime.object<Headless_IPlayer>('Player', id)
+    }
+}
@@ -0,0 +1,8 @@
+import type * as Main from '../src/main'
+import { Core_ImplementsEventHandlers } from '../src/Core/EventHandlers'
+
+// Compile-time guard, checked by `tsc -p test` so it stays out of the
+// bundle: main.ts must export exactly one forwarder per
+// mod.EventHandlerSignatures entry, with the SDK signature. After
+// `npm run update-sdk`, a new or changed engine event fails `npm test` here.
+export type Main_EventForwarders = Core_ImplementsEventHandlers<typeof Main>